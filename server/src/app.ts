@@ -0,0 +1,299 @@
+// Request handler for the /api routes used by the web app (see ApiRoutes in
+// src/lib/api.ts). Routes are keyed by "METHOD /path" like the client side.
+
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import {
+  HttpError,
+  applyCors,
+  parseMultipart,
+  readBody,
+  readJson,
+  sendError,
+  sendJson,
+} from './http.js';
+import { queryStoredSessions } from './dashboard.js';
+import { decodeDrawing } from './decodeImage.js';
+import { analyzePixels } from '../../shared/drawingAnalysis.js';
+import { composeTutorReply } from '../../shared/tutor.js';
+import { createBlobStore, createCollection } from './store.js';
+import {
+  parseChatRequest,
+  parseCoordinates,
+  parseDashboardQuery,
+  parseDismissFlags,
+  parseImageRef,
+  parseModerationFlag,
+  parseRgb,
+  parseSessionResult,
+} from './validate.js';
+import type {
+  DrawingRecord,
+  FlagDismissal,
+  IdempotentReply,
+  ModerationFlag,
+  RobotCoordinates,
+  SessionResult,
+  SubmissionEvent,
+} from './types.js';
+
+export interface AppOptions {
+  dataDir: string;
+  corsOrigin: string;
+  maxUploadBytes: number;
+}
+
+interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  params: string[];
+}
+
+type RouteHandler = (ctx: RouteContext) => Promise<unknown>;
+
+const API_PREFIX = '/api';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+// The dashboard lists at most this many flags, the newest ones
+const MAX_LISTED_FLAGS = 200;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+export function createApp({ dataDir, corsOrigin, maxUploadBytes }: AppOptions): RequestListener {
+  const sessions = createCollection<SessionResult>(dataDir, 'sessions');
+  const submissions = createCollection<SubmissionEvent>(dataDir, 'submissions');
+  const drawings = createCollection<DrawingRecord>(dataDir, 'drawings');
+  const uploads = createBlobStore(dataDir, 'uploads');
+  const replies = createCollection<IdempotentReply>(dataDir, 'idempotency');
+  const flags = createCollection<ModerationFlag>(dataDir, 'moderation-flags');
+  const dismissals = createCollection<FlagDismissal>(dataDir, 'flag-dismissals');
+  // Writes with a key that are still being handled, so a retry sent while the
+  // first try is running waits for it instead of storing the write again
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  const logSubmission = async (kind: SubmissionEvent['kind'], payload: SubmissionEvent['payload']) => {
+    await submissions.append({ kind, payload, receivedAt: new Date().toISOString() });
+    return { success: true };
+  };
+
+  // Writes sent with an Idempotency-Key (the web app's offline outbox retries
+  // them) are handled once per key and route; repeats get the first response
+  const runOnce = async (key: string, route: string, run: () => Promise<unknown>) => {
+    const id = `${route} ${key}`;
+    const running = inFlight.get(id);
+    if (running) return running;
+
+    const attempt = (async () => {
+      const previous = (await replies.all()).find((r) => r.key === key && r.route === route);
+      if (previous) return previous.response;
+      const response = (await run()) ?? { success: true };
+      await replies.append({ key, route, response, receivedAt: new Date().toISOString() });
+      return response;
+    })();
+    inFlight.set(id, attempt);
+    try {
+      return await attempt;
+    } finally {
+      inFlight.delete(id);
+    }
+  };
+
+  const publicBase = (req: IncomingMessage) => `http://${req.headers.host ?? 'localhost'}${API_PREFIX}`;
+
+  const routes: Record<string, RouteHandler> = {
+    'POST /robot/coordinates': async ({ req }) =>
+      logSubmission('robot-coordinates', parseCoordinates(await readJson(req))),
+
+    'POST /student/coordinates': async ({ req }) =>
+      logSubmission('student-coordinates', parseCoordinates(await readJson(req))),
+
+    'POST /student/rgb': async ({ req }) =>
+      logSubmission('student-rgb', parseRgb(await readJson(req))),
+
+    'POST /upload/drawing': async ({ req }) => {
+      const body = await readBody(req, maxUploadBytes);
+      const file = parseMultipart(body, req.headers['content-type']).find((f) => f.field === 'drawing');
+      if (!file) {
+        throw new HttpError(400, 'Expected a "drawing" file field');
+      }
+      const ext = IMAGE_EXTENSIONS[file.contentType];
+      if (!ext) {
+        throw new HttpError(415, 'Drawing must be a PNG, JPG, GIF or WebP image');
+      }
+
+      const id = randomUUID();
+      const fileName = `${id}${ext}`;
+      await uploads.save(fileName, file.data);
+      await drawings.append({
+        id,
+        fileName,
+        originalName: file.fileName,
+        contentType: file.contentType,
+        size: file.data.length,
+        uploadedAt: new Date().toISOString(),
+      });
+      return { success: true, imageUrl: `${publicBase(req)}/uploads/${fileName}` };
+    },
+
+    'GET /uploads/:file': async ({ res, params }) => {
+      const [fileName] = params;
+      const record = (await drawings.all()).find((d) => d.fileName === fileName);
+      const data = record ? await uploads.read(record.fileName) : null;
+      if (!record || !data) {
+        throw new HttpError(404, 'Drawing not found');
+      }
+      res.writeHead(200, {
+        'Content-Type': record.contentType,
+        'Content-Length': data.length,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      });
+      res.end(data);
+      return undefined;
+    },
+
+    'POST /cv/analyze': async ({ req }) => {
+      const { imageUrl, robotCoordinates } = parseImageRef(await readJson(req));
+      const fileName = path.basename(new URL(imageUrl, publicBase(req)).pathname);
+      const data = await uploads.read(fileName);
+      if (!data) {
+        throw new HttpError(404, 'Drawing not found. Upload it before requesting analysis.');
+      }
+      const drawing = decodeDrawing(data);
+      const result = analyzePixels(drawing.data, drawing.width, drawing.height, {
+        width: drawing.imageWidth,
+        height: drawing.imageHeight,
+      });
+      if (robotCoordinates && result.estimatedPosition) {
+        result.positionError = calculateAxisErrors(result.estimatedPosition, robotCoordinates);
+      }
+      return result;
+    },
+
+    'POST /ai/rgb': async ({ req }) => {
+      const coords = parseCoordinates(await readJson(req));
+      return { r: Math.round(coords.x), g: Math.round(coords.y), b: Math.round(coords.z) };
+    },
+
+    'POST /chat/message': async ({ req }) => {
+      const { message, context } = parseChatRequest(await readJson(req));
+      return { reply: composeTutorReply(message, context) };
+    },
+
+    'POST /sessions': async ({ req }) => {
+      await sessions.append(parseSessionResult(await readJson(req)));
+      return { success: true };
+    },
+
+    'GET /sessions': async ({ url }) =>
+      queryStoredSessions(await sessions.all(), parseDashboardQuery(url.searchParams)),
+
+    'POST /moderation/flags': async ({ req }) => {
+      await flags.append(parseModerationFlag(await readJson(req)));
+      return { success: true };
+    },
+
+    // Dismissed flags are kept on file but no longer listed
+    'POST /moderation/flags/dismiss': async ({ req }) => {
+      const { ids } = parseDismissFlags(await readJson(req));
+      await dismissals.append({ flagIds: ids, dismissedAt: new Date().toISOString() });
+      return { success: true };
+    },
+
+    'GET /moderation/flags': async () => {
+      const dismissed = new Set((await dismissals.all()).flatMap((d) => d.flagIds));
+      const listed = (await flags.all())
+        .filter((f) => !dismissed.has(f.id))
+        .sort((a, b) => Date.parse(a.flaggedAt) - Date.parse(b.flaggedAt))
+        .slice(-MAX_LISTED_FLAGS)
+        // Flags stored before names were kept apart from ids were keyed by name
+        .map((f) => ({ ...f, studentName: f.studentName ?? f.studentId }));
+      return { flags: listed };
+    },
+  };
+
+  const match = (method: string, pathname: string): { handler: RouteHandler; params: string[] } | null => {
+    for (const [key, handler] of Object.entries(routes)) {
+      const [routeMethod, pattern] = key.split(' ');
+      if (routeMethod !== method) continue;
+      const patternParts = pattern.split('/');
+      const pathParts = pathname.split('/');
+      if (patternParts.length !== pathParts.length) continue;
+
+      const params: string[] = [];
+      const ok = patternParts.every((part, i) => {
+        if (part.startsWith(':')) {
+          params.push(decodeURIComponent(pathParts[i]));
+          return pathParts[i] !== '';
+        }
+        return part === pathParts[i];
+      });
+      if (ok) return { handler, params };
+    }
+    return null;
+  };
+
+  return async (req, res) => {
+    applyCors(req, res, corsOrigin);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname === '/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+      }
+      if (!url.pathname.startsWith(`${API_PREFIX}/`)) {
+        throw new HttpError(404, `No route for ${url.pathname}`);
+      }
+
+      const pathname = url.pathname.slice(API_PREFIX.length).replace(/\/+$/, '');
+      const method = req.method ?? 'GET';
+      const found = match(method, pathname);
+      if (!found) {
+        throw new HttpError(404, `No route for ${method} ${pathname}`);
+      }
+
+      const key = req.headers['idempotency-key'];
+      const run = () => found.handler({ req, res, url, params: found.params });
+      let result: unknown;
+      if (typeof key === 'string' && method !== 'GET') {
+        if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+          throw new HttpError(400, 'Invalid Idempotency-Key header');
+        }
+        result = await runOnce(key, `${method} ${pathname}`, run);
+      } else {
+        result = await run();
+      }
+      if (!res.headersSent) {
+        sendJson(res, 200, result ?? { success: true });
+      }
+    } catch (error) {
+      if (!res.headersSent) {
+        sendError(res, error);
+      } else {
+        res.destroy(error as Error);
+      }
+    }
+  };
+}
+
+// Same as calculateAxisErrors in the web app's src/lib/api.ts
+function calculateAxisErrors(estimate: RobotCoordinates, actual: RobotCoordinates): RobotCoordinates {
+  return {
+    x: estimate.x - actual.x,
+    y: estimate.y - actual.y,
+    z: estimate.z - actual.z,
+  };
+}
@@ -0,0 +1,20 @@
+// GET /sessions: the stored sessions, brought up to date, go through the
+// dashboard query the web app's mock backend runs too (shared/dashboardQuery.ts).
+
+import { colorDifference } from '../../shared/color.js';
+import { queryDashboard } from '../../shared/dashboardQuery.js';
+import type { DashboardQuery, DashboardResults, SessionResult } from './types.js';
+
+// Sessions stored before names were kept apart from ids were keyed by name,
+// and the predict hints were stored as hintsUsed. The RGB delta was stored as
+// the client sent it, so it is worked out again from the colors.
+const upgradeRow = ({ hintsUsed, ...row }: SessionResult & { hintsUsed?: number }): SessionResult => ({
+  ...row,
+  rgbDelta: colorDifference(row.studentRgb, row.aiRgb, 'rgb'),
+  studentName: row.studentName ?? row.studentId,
+  predictHintsUsed: row.predictHintsUsed ?? hintsUsed ?? 0,
+});
+
+export function queryStoredSessions(stored: SessionResult[], query: DashboardQuery): DashboardResults {
+  return queryDashboard(stored.map(upgradeRow), query);
+}
@@ -0,0 +1,96 @@
+// Decodes an uploaded drawing into a small RGBA copy for analysis, as the web
+// app's cvAnalyzer.ts does with a canvas: scaled so its longest side is at
+// most ANALYSIS_SIZE, with transparent areas turned into white paper.
+
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { GifReader } from 'omggif';
+import { HttpError } from './http.js';
+import { readImageSize } from './imageSize.js';
+
+// Longest side the drawing is scaled to before analysis
+const ANALYSIS_SIZE = 320;
+
+// Decoding holds the whole image in memory; 10 MB of PNG can unpack to far more
+const MAX_DECODED_PIXELS = 40_000_000;
+
+export interface DecodedDrawing {
+  width: number;
+  height: number;
+  // RGBA, opaque
+  data: Uint8ClampedArray;
+  // Size of the image before scaling
+  imageWidth: number;
+  imageHeight: number;
+}
+
+interface Rgba {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+function decodeGif(data: Buffer): Rgba {
+  const reader = new GifReader(data);
+  const pixels = new Uint8Array(reader.width * reader.height * 4);
+  reader.decodeAndBlitFrameRGBA(0, pixels);
+  return { width: reader.width, height: reader.height, data: pixels };
+}
+
+function decode(data: Buffer): Rgba {
+  if (data.readUInt32BE(0) === 0x89504e47) return PNG.sync.read(data);
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return jpeg.decode(data, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: MAX_DECODED_PIXELS / 1e6 });
+  }
+  if (data.toString('ascii', 0, 3) === 'GIF') return decodeGif(data);
+  throw new HttpError(415, 'This server can analyse PNG, JPG and GIF drawings only');
+}
+
+// Averages each block of source pixels into one, over a white background
+function shrink(image: Rgba): DecodedDrawing {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.width, image.height, 1));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor((y * image.height) / height);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * image.height) / height));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor((x * image.width) / width);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * image.width) / width));
+      let r = 0, g = 0, b = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          const alpha = image.data[i + 3] / 255;
+          r += image.data[i] * alpha + 255 * (1 - alpha);
+          g += image.data[i + 1] * alpha + 255 * (1 - alpha);
+          b += image.data[i + 2] * alpha + 255 * (1 - alpha);
+        }
+      }
+      const count = (x1 - x0) * (y1 - y0);
+      const o = (y * width + x) * 4;
+      out[o] = r / count;
+      out[o + 1] = g / count;
+      out[o + 2] = b / count;
+      out[o + 3] = 255;
+    }
+  }
+  return { width, height, data: out, imageWidth: image.width, imageHeight: image.height };
+}
+
+export function decodeDrawing(data: Buffer): DecodedDrawing {
+  const size = readImageSize(data);
+  if (size && size.width * size.height > MAX_DECODED_PIXELS) {
+    throw new HttpError(413, 'Drawing is too large to analyse');
+  }
+  let image: Rgba;
+  try {
+    image = decode(data);
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(422, 'Could not read the drawing for analysis');
+  }
+  return shrink(image);
+}
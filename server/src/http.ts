@@ -0,0 +1,112 @@
+// Small HTTP helpers on top of node:http — body parsing, JSON responses,
+// multipart uploads and a typed error for 4xx/5xx replies.
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export async function readBody(req: IncomingMessage, limitBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limitBytes) {
+      throw new HttpError(413, `Request body exceeds ${Math.round(limitBytes / 1024 / 1024)}MB`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function readJson(req: IncomingMessage, limitBytes = 1024 * 1024): Promise<unknown> {
+  const body = await readBody(req, limitBytes);
+  if (body.length === 0) return undefined;
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+export interface MultipartFile {
+  field: string;
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// Minimal multipart/form-data parser: enough for browser FormData uploads
+export function parseMultipart(body: Buffer, contentTypeHeader: string | undefined): MultipartFile[] {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentTypeHeader ?? '');
+  if (!match) {
+    throw new HttpError(400, 'Expected multipart/form-data with a boundary');
+  }
+  const delimiter = Buffer.from(`--${match[1] ?? match[2]}`);
+  const files: MultipartFile[] = [];
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const partStart = start + delimiter.length;
+    // "--" after the delimiter marks the end of the body
+    if (body.subarray(partStart, partStart + 2).toString() === '--') break;
+
+    const next = body.indexOf(delimiter, partStart);
+    if (next === -1) break;
+
+    // Strip the CRLF that follows the delimiter and precedes the next one
+    const part = body.subarray(partStart + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      const name = /content-disposition:[^\r\n]*;\s*name="([^"]*)"/i.exec(headers);
+      const filename = /content-disposition:[^\r\n]*;\s*filename="([^"]*)"/i.exec(headers);
+      const type = /content-type:\s*([^\r\n]+)/i.exec(headers);
+      if (name && filename) {
+        files.push({
+          field: name[1],
+          fileName: filename[1],
+          contentType: type?.[1].trim() ?? 'application/octet-stream',
+          data: part.subarray(headerEnd + 4),
+        });
+      }
+    }
+    start = next;
+  }
+
+  return files;
+}
+
+export function applyCors(req: IncomingMessage, res: ServerResponse, allowedOrigin: string) {
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigin === '*' ? '*' : allowedOrigin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,DELETE,OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    req.headers['access-control-request-headers'] ?? 'Content-Type, Accept, Idempotency-Key',
+  );
+}
+
+export function sendJson(res: ServerResponse, status: number, payload: unknown) {
+  const body = JSON.stringify(payload);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
+export function sendError(res: ServerResponse, error: unknown) {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: { message: error.message } });
+    return;
+  }
+  console.error('Unhandled server error:', error);
+  sendJson(res, 500, { error: { message: 'Internal server error' } });
+}
@@ -0,0 +1,63 @@
+// Reads an uploaded image's pixel size from its header, without decoding it.
+// Covers the formats the upload route accepts (see IMAGE_EXTENSIONS in app.ts).
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+function pngSize(data: Buffer): ImageSize | null {
+  // Signature, then the IHDR chunk: length, type, width, height
+  if (data.length < 24 || data.readUInt32BE(0) !== 0x89504e47 || data.toString('ascii', 12, 16) !== 'IHDR') {
+    return null;
+  }
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function gifSize(data: Buffer): ImageSize | null {
+  if (data.length < 10 || data.toString('ascii', 0, 3) !== 'GIF') return null;
+  return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+}
+
+function jpegSize(data: Buffer): ImageSize | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    // Padding bytes between segments
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Start-of-frame markers carry the size; C4, C8 and CC are other tables
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function webpSize(data: Buffer): ImageSize | null {
+  if (data.length < 30 || data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WEBP') {
+    return null;
+  }
+  switch (data.toString('ascii', 12, 16)) {
+    case 'VP8 ':
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+}
+
+export function readImageSize(data: Buffer): ImageSize | null {
+  const size = pngSize(data) ?? gifSize(data) ?? jpegSize(data) ?? webpSize(data);
+  return size && size.width > 0 && size.height > 0 ? size : null;
+}
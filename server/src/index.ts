@@ -0,0 +1,27 @@
+// Entry point: `npm start` serves the API on PORT (default 3001) and stores
+// everything under DATA_DIR (default ./data).
+
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { createApp } from './app.js';
+import { ensureDataDir } from './store.js';
+
+const port = Number(process.env.PORT ?? 3001);
+const dataDir = path.resolve(process.env.DATA_DIR ?? 'data');
+const corsOrigin = process.env.CORS_ORIGIN ?? '*';
+const maxUploadBytes = Number(process.env.MAX_UPLOAD_MB ?? 10) * 1024 * 1024;
+
+await ensureDataDir(dataDir);
+
+const server = createServer(createApp({ dataDir, corsOrigin, maxUploadBytes }));
+
+server.listen(port, () => {
+  console.log(`Tangible AI server listening on http://localhost:${port}/api`);
+  console.log(`Storing data in ${dataDir}`);
+});
+
+const shutdown = () => {
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,81 @@
+// File-backed storage.
+// Each collection is a JSON array in DATA_DIR. Writes are serialised per file
+// and go through a temp file + rename so a crash never leaves half a file.
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export interface Collection<T> {
+  all(): Promise<T[]>;
+  append(item: T): Promise<T>;
+}
+
+export function createCollection<T>(dataDir: string, name: string): Collection<T> {
+  const file = path.join(dataDir, `${name}.json`);
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T[]> => {
+    try {
+      const raw = await fs.readFile(file, 'utf8');
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const write = async (items: T[]) => {
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(items, null, 2));
+    await fs.rename(tmp, file);
+  };
+
+  // Queue an operation behind any in-flight write to this file
+  const enqueue = <R>(op: () => Promise<R>): Promise<R> => {
+    const next = pending.then(op, op);
+    pending = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    all: () => enqueue(read),
+    append: (item) =>
+      enqueue(async () => {
+        const items = await read();
+        items.push(item);
+        await write(items);
+        return item;
+      }),
+  };
+}
+
+export interface BlobStore {
+  dir: string;
+  save(fileName: string, data: Buffer): Promise<void>;
+  read(fileName: string): Promise<Buffer | null>;
+}
+
+export function createBlobStore(dataDir: string, name: string): BlobStore {
+  const dir = path.join(dataDir, name);
+
+  return {
+    dir,
+    async save(fileName, data) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, path.basename(fileName)), data);
+    },
+    async read(fileName) {
+      try {
+        return await fs.readFile(path.join(dir, path.basename(fileName)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+  };
+}
+
+export async function ensureDataDir(dataDir: string) {
+  await fs.mkdir(dataDir, { recursive: true });
+}
@@ -0,0 +1,81 @@
+// Wire types shared by the routes. These mirror the interfaces in the web
+// app's src/lib/api.ts; dates are ISO strings on the wire. The ones the pure
+// modules need live in shared/types.ts.
+
+import type { ChatContext, RGBColor, RobotCoordinates } from '../../shared/types.js';
+
+export { DASHBOARD_SORT_KEYS } from '../../shared/types.js';
+export type {
+  BoundingBox,
+  ChatContext,
+  CVResult,
+  DashboardQuery,
+  DashboardResultsPayload as DashboardResults,
+  DashboardSortKey,
+  MetricSummary,
+  RGBColor,
+  RobotCoordinates,
+  SessionResultPayload as SessionResult,
+  SortOrder,
+} from '../../shared/types.js';
+export type { ColorMetric } from '../../shared/color.js';
+
+export interface CvAnalyzeRequest {
+  imageUrl: string;
+  robotCoordinates?: RobotCoordinates;
+}
+
+export interface ChatRequest {
+  message: string;
+  context: ChatContext;
+}
+
+export const MODERATION_REASON_IDS = ['too-long', 'profanity', 'personal-info', 'off-topic'] as const;
+
+export type ModerationReason = typeof MODERATION_REASON_IDS[number];
+
+// A chat message the web app's safety checks caught; the text is already
+// cleaned of personal details
+export interface ModerationFlag {
+  id: string;
+  // Profile id, or a guest's name
+  studentId: string;
+  studentName: string;
+  source: 'student' | 'tutor';
+  reasons: ModerationReason[];
+  text: string;
+  flaggedAt: string;
+}
+
+export interface DismissFlagsRequest {
+  ids: string[];
+}
+
+export interface FlagDismissal {
+  flagIds: string[];
+  dismissedAt: string;
+}
+
+// Raw submissions that are not part of a SessionResult yet
+export interface SubmissionEvent {
+  kind: 'robot-coordinates' | 'student-coordinates' | 'student-rgb';
+  payload: RobotCoordinates | RGBColor;
+  receivedAt: string;
+}
+
+export interface DrawingRecord {
+  id: string;
+  fileName: string;
+  originalName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+// Response already given to a write with an Idempotency-Key
+export interface IdempotentReply {
+  key: string;
+  route: string;
+  response: unknown;
+  receivedAt: string;
+}
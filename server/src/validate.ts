@@ -0,0 +1,248 @@
+// Request body checks. Each parser returns a clean value or throws a 400.
+
+import { COLOR_METRIC_IDS, colorDifference } from '../../shared/color.js';
+import { HttpError } from './http.js';
+import { DASHBOARD_SORT_KEYS, MODERATION_REASON_IDS } from './types.js';
+import type {
+  ChatRequest,
+  CvAnalyzeRequest,
+  ColorMetric,
+  DashboardQuery,
+  DashboardSortKey,
+  DismissFlagsRequest,
+  ModerationFlag,
+  ModerationReason,
+  RGBColor,
+  RobotCoordinates,
+  SessionResult,
+} from './types.js';
+
+type Json = Record<string, unknown>;
+
+function asObject(value: unknown, label: string): Json {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new HttpError(400, `${label} must be an object`);
+  }
+  return value as Json;
+}
+
+function asNumber(value: unknown, label: string, min = -Infinity, max = Infinity): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new HttpError(400, `${label} must be a number`);
+  }
+  if (value < min || value > max) {
+    throw new HttpError(400, `${label} must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function asString(value: unknown, label: string, maxLength = 10000): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new HttpError(400, `${label} must be a non-empty string`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(400, `${label} must be at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+// Like asString, but empty text is allowed
+function asText(value: unknown, label: string, maxLength: number): string {
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `${label} must be a string`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(400, `${label} must be at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+export function parseCoordinates(value: unknown, label = 'coordinates'): RobotCoordinates {
+  const obj = asObject(value, label);
+  return {
+    x: asNumber(obj.x, `${label}.x`, 0, 255),
+    y: asNumber(obj.y, `${label}.y`, 0, 255),
+    z: asNumber(obj.z, `${label}.z`, 0, 255),
+  };
+}
+
+export function parseRgb(value: unknown, label = 'rgb'): RGBColor {
+  const obj = asObject(value, label);
+  return {
+    r: asNumber(obj.r, `${label}.r`, 0, 255),
+    g: asNumber(obj.g, `${label}.g`, 0, 255),
+    b: asNumber(obj.b, `${label}.b`, 0, 255),
+  };
+}
+
+export function parseImageRef(value: unknown): CvAnalyzeRequest {
+  const obj = asObject(value, 'body');
+  return {
+    imageUrl: asString(obj.imageUrl, 'imageUrl', 2048),
+    // Older clients don't send the robot's real position
+    ...(obj.robotCoordinates != null && {
+      robotCoordinates: parseCoordinates(obj.robotCoordinates, 'robotCoordinates'),
+    }),
+  };
+}
+
+export function parseChatRequest(value: unknown): ChatRequest {
+  const obj = asObject(value, 'body');
+  const context = asObject(obj.context, 'context');
+  return {
+    message: asString(obj.message, 'message', 2000),
+    context: {
+      coords: parseCoordinates(context.coords, 'context.coords'),
+      studentRgb: parseRgb(context.studentRgb, 'context.studentRgb'),
+      aiRgb: parseRgb(context.aiRgb, 'context.aiRgb'),
+    },
+  };
+}
+
+export function parseSessionResult(value: unknown): SessionResult {
+  const obj = asObject(value, 'body');
+  const date = asString(obj.date, 'date', 64);
+  if (Number.isNaN(Date.parse(date))) {
+    throw new HttpError(400, 'date must be an ISO date string');
+  }
+  const studentId = asString(obj.studentId, 'studentId', 200);
+  const studentRgb = parseRgb(obj.studentRgb, 'studentRgb');
+  const aiRgb = parseRgb(obj.aiRgb, 'aiRgb');
+  return {
+    studentId,
+    // Older clients keyed results by name
+    studentName: obj.studentName === undefined ? studentId : asString(obj.studentName, 'studentName', 200),
+    date: new Date(date).toISOString(),
+    robotCoordinates: parseCoordinates(obj.robotCoordinates, 'robotCoordinates'),
+    cvAccuracy: asNumber(obj.cvAccuracy, 'cvAccuracy', 0, 100),
+    studentRgb,
+    aiRgb,
+    // Worked out here rather than trusted, so it always matches the colors
+    rgbDelta: colorDifference(studentRgb, aiRgb, 'rgb'),
+    // Older clients send the predict hints as hintsUsed, or don't send these
+    predictHintsUsed: parseHintCount(obj.predictHintsUsed ?? obj.hintsUsed),
+    studentCoordinates: obj.studentCoordinates == null
+      ? null
+      : parseCoordinates(obj.studentCoordinates, 'studentCoordinates'),
+    chatMessages: obj.chatMessages === undefined ? 0 : asNumber(obj.chatMessages, 'chatMessages', 0, 10000),
+    stepSeconds: obj.stepSeconds === undefined ? {} : parseStepSeconds(obj.stepSeconds),
+    imageUrl: obj.imageUrl == null ? null : asString(obj.imageUrl, 'imageUrl', 2048),
+  };
+}
+
+const MAX_FLAG_REASONS = MODERATION_REASON_IDS.length;
+const MAX_DISMISSED_FLAGS = 1000;
+
+function asArray(value: unknown, label: string, maxLength: number): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new HttpError(400, `${label} must be an array`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(400, `${label} must have at most ${maxLength} items`);
+  }
+  return value;
+}
+
+export function parseModerationFlag(value: unknown): ModerationFlag {
+  const obj = asObject(value, 'body');
+  const flaggedAt = asString(obj.flaggedAt, 'flaggedAt', 64);
+  if (Number.isNaN(Date.parse(flaggedAt))) {
+    throw new HttpError(400, 'flaggedAt must be an ISO date string');
+  }
+  if (obj.source !== 'student' && obj.source !== 'tutor') {
+    throw new HttpError(400, 'source must be student or tutor');
+  }
+  const reasons = asArray(obj.reasons, 'reasons', MAX_FLAG_REASONS).map((reason) => {
+    if (!(MODERATION_REASON_IDS as readonly unknown[]).includes(reason)) {
+      throw new HttpError(400, `reasons must be among ${MODERATION_REASON_IDS.join(', ')}`);
+    }
+    return reason as ModerationReason;
+  });
+  const studentId = asText(obj.studentId, 'studentId', 200);
+  return {
+    id: asString(obj.id, 'id', 200),
+    studentId,
+    // Older clients keyed flags by name
+    studentName: obj.studentName === undefined ? studentId : asText(obj.studentName, 'studentName', 200),
+    source: obj.source,
+    reasons,
+    text: asText(obj.text, 'text', 10000),
+    flaggedAt: new Date(flaggedAt).toISOString(),
+  };
+}
+
+export function parseDismissFlags(value: unknown): DismissFlagsRequest {
+  const obj = asObject(value, 'body');
+  return {
+    ids: asArray(obj.ids, 'ids', MAX_DISMISSED_FLAGS).map((id, i) => asString(id, `ids[${i}]`, 200)),
+  };
+}
+
+function parseHintCount(value: unknown): number {
+  return value === undefined ? 0 : asNumber(value, 'predictHintsUsed', 0, 100);
+}
+
+const MAX_TIMED_STEPS = 100;
+
+function parseStepSeconds(value: unknown): Record<string, number> {
+  const entries = Object.entries(asObject(value, 'stepSeconds'));
+  if (entries.length > MAX_TIMED_STEPS) {
+    throw new HttpError(400, `stepSeconds must have at most ${MAX_TIMED_STEPS} steps`);
+  }
+  const seconds: Record<string, number> = {};
+  entries.forEach(([stepId, time]) => {
+    seconds[asString(stepId, 'stepSeconds key', 100)] = asNumber(time, `stepSeconds.${stepId}`, 0);
+  });
+  return seconds;
+}
+
+// Query parameters arrive as strings; an absent one is left undefined
+function queryNumber(params: URLSearchParams, name: string, min = -Infinity, max = Infinity): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  return asNumber(Number(value), name, min, max);
+}
+
+function queryDate(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  if (Number.isNaN(Date.parse(value))) {
+    throw new HttpError(400, `${name} must be an ISO date string`);
+  }
+  return new Date(value).toISOString();
+}
+
+function queryString(params: URLSearchParams, name: string, maxLength: number): string | undefined {
+  const value = params.get(name);
+  if (value === null || value.trim() === '') return undefined;
+  return asString(value, name, maxLength);
+}
+
+export function parseDashboardQuery(params: URLSearchParams): DashboardQuery {
+  const sort = params.get('sort');
+  if (sort !== null && !(DASHBOARD_SORT_KEYS as readonly string[]).includes(sort)) {
+    throw new HttpError(400, `sort must be one of ${DASHBOARD_SORT_KEYS.join(', ')}`);
+  }
+  const order = params.get('order');
+  if (order !== null && order !== 'asc' && order !== 'desc') {
+    throw new HttpError(400, 'order must be asc or desc');
+  }
+  const metric = params.get('metric');
+  if (metric !== null && !(COLOR_METRIC_IDS as readonly string[]).includes(metric)) {
+    throw new HttpError(400, `metric must be one of ${COLOR_METRIC_IDS.join(', ')}`);
+  }
+  return {
+    page: queryNumber(params, 'page', 1),
+    pageSize: queryNumber(params, 'pageSize', 1),
+    sort: (sort ?? undefined) as DashboardSortKey | undefined,
+    order: order ?? undefined,
+    student: queryString(params, 'student', 200),
+    search: queryString(params, 'search', 200),
+    from: queryDate(params, 'from'),
+    to: queryDate(params, 'to'),
+    minAccuracy: queryNumber(params, 'minAccuracy', 0, 100),
+    maxAccuracy: queryNumber(params, 'maxAccuracy', 0, 100),
+    minDelta: queryNumber(params, 'minDelta', 0),
+    metric: (metric ?? undefined) as ColorMetric | undefined,
+  };
+}
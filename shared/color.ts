@@ -0,0 +1,317 @@
+// Color science.
+// Converts between sRGB, HSV/HSL and CIELAB (D65 white point) and measures
+// perceptual color difference with the CIE ΔE formulas, so "how close is this color" matches
+// what people actually see rather than raw distance between RGB numbers.
+// The scoring metrics at the bottom turn a difference into the grade and
+// accuracy shown to students and teachers, and give the reference server's
+// dashboard the same numbers.
+
+import type { RGBColor } from './types.js';
+
+export interface XYZColor {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// D65 reference white, Y normalised to 100
+const WHITE_D65: XYZColor = { x: 95.047, y: 100, z: 108.883 };
+
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// One 0-255 sRGB channel to linear light (0-1)
+export function srgbToLinear(channel: number): number {
+  const c = Math.max(0, Math.min(255, channel)) / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+export function rgbToXyz({ r, g, b }: RGBColor): XYZColor {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+  return {
+    x: (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) * 100,
+    y: (0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb) * 100,
+    z: (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) * 100,
+  };
+}
+
+export function xyzToLab({ x, y, z }: XYZColor): LabColor {
+  const f = (t: number) => (t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116);
+  const fx = f(x / WHITE_D65.x);
+  const fy = f(y / WHITE_D65.y);
+  const fz = f(z / WHITE_D65.z);
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+}
+
+export function rgbToLab(rgb: RGBColor): LabColor {
+  return xyzToLab(rgbToXyz(rgb));
+}
+
+// One linear-light channel (0-1) back to 0-255 sRGB, clamped to the gamut
+export function linearToSrgb(channel: number): number {
+  const c = Math.max(0, Math.min(1, channel));
+  const encoded = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return Math.round(encoded * 255);
+}
+
+export function xyzToRgb({ x, y, z }: XYZColor): RGBColor {
+  const nx = x / 100;
+  const ny = y / 100;
+  const nz = z / 100;
+  return {
+    r: linearToSrgb(3.2404542 * nx - 1.5371385 * ny - 0.4985314 * nz),
+    g: linearToSrgb(-0.9692660 * nx + 1.8760108 * ny + 0.0415560 * nz),
+    b: linearToSrgb(0.0556434 * nx - 0.2040259 * ny + 1.0572252 * nz),
+  };
+}
+
+export function labToXyz({ l, a, b }: LabColor): XYZColor {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const finv = (t: number) => (t ** 3 > EPSILON ? t ** 3 : (116 * t - 16) / KAPPA);
+  return {
+    x: finv(fx) * WHITE_D65.x,
+    y: (l > KAPPA * EPSILON ? fy ** 3 : l / KAPPA) * WHITE_D65.y,
+    z: finv(fz) * WHITE_D65.z,
+  };
+}
+
+// Lab colors outside what a screen can show are clamped to the nearest sRGB channels
+export function labToRgb(lab: LabColor): RGBColor {
+  return xyzToRgb(labToXyz(lab));
+}
+
+export interface HSVColor {
+  h: number; // 0-360 degrees
+  s: number; // 0-1
+  v: number; // 0-1
+}
+
+export function rgbToHsv({ r, g, b }: RGBColor): HSVColor {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const chroma = max - Math.min(rn, gn, bn);
+
+  let h = 0;
+  if (chroma > 0) {
+    if (max === rn) h = ((gn - bn) / chroma) % 6;
+    else if (max === gn) h = (bn - rn) / chroma + 2;
+    else h = (rn - gn) / chroma + 4;
+  }
+  h *= 60;
+  return { h: h < 0 ? h + 360 : h, s: max === 0 ? 0 : chroma / max, v: max };
+}
+
+export function hsvToRgb({ h, s, v }: HSVColor): RGBColor {
+  const hue = ((h % 360) + 360) % 360;
+  const chroma = v * s;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = v - chroma;
+  const [r, g, b] =
+    hue < 60 ? [chroma, x, 0] :
+    hue < 120 ? [x, chroma, 0] :
+    hue < 180 ? [0, chroma, x] :
+    hue < 240 ? [0, x, chroma] :
+    hue < 300 ? [x, 0, chroma] :
+    [chroma, 0, x];
+  return {
+    r: Math.round((r + m) * 255),
+    g: Math.round((g + m) * 255),
+    b: Math.round((b + m) * 255),
+  };
+}
+
+export interface HSLColor {
+  h: number; // 0-360 degrees
+  s: number; // 0-1
+  l: number; // 0-1
+}
+
+// HSL shares HSV's hue; saturation and lightness are measured against the
+// grey midway between black and white instead of against pure black
+export function rgbToHsl(rgb: RGBColor): HSLColor {
+  const { h, s, v } = rgbToHsv(rgb);
+  const l = v * (1 - s / 2);
+  return { h, s: l === 0 || l === 1 ? 0 : (v - l) / Math.min(l, 1 - l), l };
+}
+
+export function hslToRgb({ h, s, l }: HSLColor): RGBColor {
+  const v = l + s * Math.min(l, 1 - l);
+  return hsvToRgb({ h, s: v === 0 ? 0 : 2 * (1 - l / v), v });
+}
+
+// CIE76: straight-line distance in Lab
+export function deltaE76(lab1: LabColor, lab2: LabColor): number {
+  return Math.hypot(lab1.l - lab2.l, lab1.a - lab2.a, lab1.b - lab2.b);
+}
+
+// CIE94 with the graphic-arts weights (kL = 1, K1 = 0.045, K2 = 0.015)
+export function deltaE94(lab1: LabColor, lab2: LabColor): number {
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const dL = lab1.l - lab2.l;
+  const dC = c1 - c2;
+  const dA = lab1.a - lab2.a;
+  const dB = lab1.b - lab2.b;
+  const dH2 = Math.max(0, dA * dA + dB * dB - dC * dC);
+
+  const sC = 1 + 0.045 * c1;
+  const sH = 1 + 0.015 * c1;
+  return Math.sqrt(dL * dL + (dC / sC) ** 2 + dH2 / (sH * sH));
+}
+
+// CIEDE2000 (Sharma, Wu & Dalal 2005) with kL = kC = kH = 1
+export function deltaE2000(lab1: LabColor, lab2: LabColor): number {
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cBar7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + 25 ** 7)));
+
+  const a1 = (1 + g) * lab1.a;
+  const a2 = (1 + g) * lab2.a;
+  const cp1 = Math.hypot(a1, lab1.b);
+  const cp2 = Math.hypot(a2, lab2.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = toDegrees(Math.atan2(b, a));
+    return h < 0 ? h + 360 : h;
+  };
+  const hp1 = hue(lab1.b, a1);
+  const hp2 = hue(lab2.b, a2);
+
+  const dLp = lab2.l - lab1.l;
+  const dCp = cp2 - cp1;
+  let dhp = 0;
+  if (cp1 * cp2 !== 0) {
+    dhp = hp2 - hp1;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(cp1 * cp2) * Math.sin(toRadians(dhp / 2));
+
+  const lBarP = (lab1.l + lab2.l) / 2;
+  const cBarP = (cp1 + cp2) / 2;
+  let hBarP = hp1 + hp2;
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) <= 180) hBarP = (hp1 + hp2) / 2;
+    else if (hp1 + hp2 < 360) hBarP = (hp1 + hp2 + 360) / 2;
+    else hBarP = (hp1 + hp2 - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hBarP - 30))
+    + 0.24 * Math.cos(toRadians(2 * hBarP))
+    + 0.32 * Math.cos(toRadians(3 * hBarP + 6))
+    - 0.20 * Math.cos(toRadians(4 * hBarP - 63));
+  const dTheta = 30 * Math.exp(-(((hBarP - 275) / 25) ** 2));
+  const cBarP7 = cBarP ** 7;
+  const rC = 2 * Math.sqrt(cBarP7 / (cBarP7 + 25 ** 7));
+  const lBarP50 = (lBarP - 50) ** 2;
+  const sL = 1 + (0.015 * lBarP50) / Math.sqrt(20 + lBarP50);
+  const sC = 1 + 0.045 * cBarP;
+  const sH = 1 + 0.015 * cBarP * t;
+  const rT = -Math.sin(toRadians(2 * dTheta)) * rC;
+
+  return Math.sqrt(
+    (dLp / sL) ** 2 + (dCp / sC) ** 2 + (dHp / sH) ** 2 + rT * (dCp / sC) * (dHp / sH),
+  );
+}
+
+// Scoring metrics
+
+export type ColorMetric = 'rgb' | 'de76' | 'de94' | 'de2000';
+
+export interface ColorMetricInfo {
+  label: string;
+  symbol: string;
+  description: string;
+  // Difference treated as 0% accuracy
+  scale: number;
+  // Below these a prediction counts as excellent / good
+  excellentBelow: number;
+  goodBelow: number;
+}
+
+export const DEFAULT_COLOR_METRIC: ColorMetric = 'de2000';
+
+export const COLOR_METRICS: Record<ColorMetric, ColorMetricInfo> = {
+  rgb: {
+    label: 'RGB distance',
+    symbol: 'Δ',
+    description: 'Straight-line distance between the R, G and B numbers',
+    scale: Math.sqrt(3 * 255 * 255),
+    excellentBelow: 30,
+    goodBelow: 60,
+  },
+  de76: {
+    label: 'ΔE 1976',
+    symbol: 'ΔE76',
+    description: 'Distance in CIELAB, the first perceptual color space',
+    scale: 100,
+    excellentBelow: 10,
+    goodBelow: 25,
+  },
+  de94: {
+    label: 'ΔE 1994',
+    symbol: 'ΔE94',
+    description: 'CIELAB distance weighted for how eyes judge saturation and hue',
+    scale: 100,
+    excellentBelow: 5,
+    goodBelow: 15,
+  },
+  de2000: {
+    label: 'ΔE 2000',
+    symbol: 'ΔE00',
+    description: 'The current standard for how different two colors look',
+    scale: 100,
+    excellentBelow: 5,
+    goodBelow: 15,
+  },
+};
+
+export const COLOR_METRIC_IDS = Object.keys(COLOR_METRICS) as ColorMetric[];
+
+export function colorDifference(rgb1: RGBColor, rgb2: RGBColor, metric: ColorMetric): number {
+  switch (metric) {
+    case 'rgb':
+      return Math.hypot(rgb1.r - rgb2.r, rgb1.g - rgb2.g, rgb1.b - rgb2.b);
+    case 'de76':
+      return deltaE76(rgbToLab(rgb1), rgbToLab(rgb2));
+    case 'de94':
+      return deltaE94(rgbToLab(rgb1), rgbToLab(rgb2));
+    case 'de2000':
+      return deltaE2000(rgbToLab(rgb1), rgbToLab(rgb2));
+  }
+}
+
+// 100% for an exact match, falling linearly to 0% at the metric's scale
+export function colorAccuracy(difference: number, metric: ColorMetric): number {
+  return Math.max(0, 100 - (difference / COLOR_METRICS[metric].scale) * 100);
+}
+
+export type ColorGrade = 'excellent' | 'good' | 'off';
+
+export function gradeColorDifference(difference: number, metric: ColorMetric): ColorGrade {
+  const { excellentBelow, goodBelow } = COLOR_METRICS[metric];
+  if (difference < excellentBelow) return 'excellent';
+  if (difference < goodBelow) return 'good';
+  return 'off';
+}
@@ -0,0 +1,106 @@
+// Filtering, sorting and paging of session results for the teacher dashboard.
+// The backend does this over its stored sessions so only one page travels at
+// a time; the reference server runs queryDashboard over the sessions it has
+// stored, and the mock backend over its own.
+
+import type {
+  DashboardQuery,
+  DashboardResultsPayload,
+  DashboardSortKey,
+  DashboardStudent,
+  DashboardSummary,
+  SessionResultPayload,
+  SortOrder,
+} from './types.js';
+import { COLOR_METRIC_IDS, colorDifference, gradeColorDifference, type ColorMetric } from './color.js';
+
+export const MAX_PAGE_SIZE = 100;
+
+export const DEFAULT_DASHBOARD_QUERY: Required<Pick<DashboardQuery, 'page' | 'pageSize' | 'sort' | 'order' | 'metric'>> = {
+  page: 1,
+  pageSize: 20,
+  sort: 'date',
+  order: 'desc',
+  metric: 'rgb',
+};
+
+const time = (row: SessionResultPayload) => Date.parse(row.date);
+
+const differenceOf = (row: SessionResultPayload, metric: ColorMetric) => colorDifference(row.studentRgb, row.aiRgb, metric);
+
+const COMPARE: Record<DashboardSortKey, (a: SessionResultPayload, b: SessionResultPayload, metric: ColorMetric) => number> = {
+  studentName: (a, b) => a.studentName.localeCompare(b.studentName, undefined, { sensitivity: 'base' }),
+  date: (a, b) => time(a) - time(b),
+  cvAccuracy: (a, b) => a.cvAccuracy - b.cvAccuracy,
+  colorDifference: (a, b, metric) => differenceOf(a, metric) - differenceOf(b, metric),
+  predictHintsUsed: (a, b) => a.predictHintsUsed - b.predictHintsUsed,
+};
+
+function matches(row: SessionResultPayload, query: DashboardQuery, metric: ColorMetric): boolean {
+  const search = query.search?.trim().toLowerCase();
+  if (query.student && row.studentId !== query.student) return false;
+  if (search && !row.studentName.toLowerCase().includes(search) && !row.date.slice(0, 10).includes(search)) {
+    return false;
+  }
+  if (query.from && time(row) < Date.parse(query.from)) return false;
+  if (query.to && time(row) > Date.parse(query.to)) return false;
+  if (query.minAccuracy !== undefined && row.cvAccuracy < query.minAccuracy) return false;
+  if (query.maxAccuracy !== undefined && row.cvAccuracy >= query.maxAccuracy) return false;
+  if (query.minDelta !== undefined && differenceOf(row, metric) < query.minDelta) return false;
+  return true;
+}
+
+function sortRows(rows: SessionResultPayload[], sort: DashboardSortKey, order: SortOrder, metric: ColorMetric) {
+  const direction = order === 'asc' ? 1 : -1;
+  // Ties fall back to newest first, so paging is stable
+  return [...rows].sort((a, b) => direction * COMPARE[sort](a, b, metric) || time(b) - time(a));
+}
+
+// Each student once, under the name of their latest result
+function studentsOf(rows: SessionResultPayload[]): DashboardStudent[] {
+  const latest = new Map<string, SessionResultPayload>();
+  rows.forEach((row) => {
+    const seen = latest.get(row.studentId);
+    if (!seen || time(row) > time(seen)) latest.set(row.studentId, row);
+  });
+  return [...latest.values()]
+    .map((row) => ({ id: row.studentId, name: row.studentName }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+function summaryByMetric(rows: SessionResultPayload[]): DashboardSummary['byMetric'] {
+  const summaries = COLOR_METRIC_IDS.map((metric) => {
+    const differences = rows.map((row) => differenceOf(row, metric));
+    return [metric, {
+      avgDifference: average(differences),
+      excellent: differences.filter((d) => gradeColorDifference(d, metric) === 'excellent').length,
+    }];
+  });
+  return Object.fromEntries(summaries) as DashboardSummary['byMetric'];
+}
+
+export function queryDashboard(rows: SessionResultPayload[], query: DashboardQuery): DashboardResultsPayload {
+  const { sort, order, metric } = { ...DEFAULT_DASHBOARD_QUERY, ...query };
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.pageSize ?? DEFAULT_DASHBOARD_QUERY.pageSize)));
+
+  const matching = sortRows(rows.filter((row) => matches(row, query, metric)), sort, order, metric);
+  const lastPage = Math.max(1, Math.ceil(matching.length / pageSize));
+  const page = Math.min(lastPage, Math.max(1, Math.floor(query.page ?? DEFAULT_DASHBOARD_QUERY.page)));
+
+  return {
+    rows: matching.slice((page - 1) * pageSize, page * pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    students: studentsOf(rows),
+    summary: {
+      sessions: matching.length,
+      students: new Set(matching.map((row) => row.studentId)).size,
+      avgCvAccuracy: average(matching.map((row) => row.cvAccuracy)),
+      avgRgbDelta: average(matching.map((row) => row.rgbDelta)),
+      byMetric: summaryByMetric(matching),
+    },
+  };
+}
@@ -0,0 +1,238 @@
+// Pixel analysis of a student's drawing: finds the cube outline (dark lines),
+// the robot (the largest colored blob) and where the robot sits inside the
+// cube. Pure and deterministic, so the same drawing always gets the same
+// result; it runs inside the web app's CV worker (see src/lib/cvAnalyzer.ts)
+// and on the reference server, so both transports score a drawing the same.
+
+import type { BoundingBox, CVResult, RGBColor, RobotCoordinates } from './types.js';
+
+// How far back the cube's rear face is drawn, as a fraction of the whole
+// outline (typical oblique sketches use 0.25-0.35)
+const DEPTH_OFFSET = 0.3;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Blob {
+  box: Box;
+  area: number;
+  centroid: { x: number; y: number };
+  color: RGBColor;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[clamp(Math.round((sorted.length - 1) * fraction), 0, sorted.length - 1)];
+}
+
+// Largest 4-connected region of the mask
+function largestBlob(mask: Uint8Array, data: Uint8ClampedArray, width: number, height: number): Blob | null {
+  const seen = new Uint8Array(mask.length);
+  const queue = new Int32Array(mask.length);
+  let best: Blob | null = null;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    seen[start] = 1;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    let sumX = 0, sumY = 0, sumR = 0, sumG = 0, sumB = 0;
+
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const y = (index - x) / width;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      sumX += x;
+      sumY += y;
+      sumR += data[index * 4];
+      sumG += data[index * 4 + 1];
+      sumB += data[index * 4 + 2];
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !seen[next]) {
+          seen[next] = 1;
+          queue[tail++] = next;
+        }
+      }
+    }
+
+    const area = tail;
+    if (!best || area > best.area) {
+      best = {
+        box: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+        area,
+        centroid: { x: sumX / area, y: sumY / area },
+        color: { r: Math.round(sumR / area), g: Math.round(sumG / area), b: Math.round(sumB / area) },
+      };
+    }
+  }
+  return best;
+}
+
+// A flat sketch can't show depth exactly: under an oblique projection every
+// point on a diagonal line through the marker looks the same. Of those, pick
+// the position closest to the middle of the cube.
+// u and v are the marker's place across and up the outline (0-1).
+export function estimatePositionInCube(u: number, v: number, depthOffset = DEPTH_OFFSET): RobotCoordinates {
+  const a = 1 / (1 - depthOffset);
+  const k = depthOffset * a;
+  const A = a * u - 0.5;
+  const B = a * v - 0.5;
+  // w = 1 - z: how far toward the rear face (up and right in the sketch)
+  const w = clamp((k * (A + B) + 0.5) / (2 * k * k + 1), 0, 1);
+  const toChannel = (value: number) => Math.round(clamp(value, 0, 1) * 255);
+  return {
+    x: toChannel(a * u - k * w),
+    y: toChannel(a * v - k * w),
+    z: toChannel(1 - w),
+  };
+}
+
+// The pixels are usually a scaled-down copy of the drawing; imageSize is the
+// original's size, which the returned boxes are expressed in
+export function analyzePixels(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  imageSize = { width, height },
+): CVResult {
+  const total = width * height;
+  const lum = new Float32Array(total);
+  const chroma = new Float32Array(total);
+  for (let i = 0; i < total; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    lum[i] = luminance(r, g, b);
+    chroma[i] = Math.max(r, g, b) - Math.min(r, g, b);
+  }
+
+  // Paper is whatever most of the image is
+  const paper = percentile(Array.from(lum).sort((p, q) => p - q), 0.6);
+  const darkBelow = paper * 0.55;
+
+  const colorMask = new Uint8Array(total);
+  const lineXs: number[] = [];
+  const lineYs: number[] = [];
+  let darkSum = 0;
+  for (let i = 0; i < total; i++) {
+    if (chroma[i] > 60 && lum[i] > 30) {
+      colorMask[i] = 1;
+    } else if (lum[i] < darkBelow) {
+      lineXs.push(i % width);
+      lineYs.push(Math.floor(i / width));
+      darkSum += lum[i];
+    }
+  }
+
+  const inkShare = lineXs.length / total;
+  const contrast = lineXs.length > 0 && paper > 0 ? clamp((paper - darkSum / lineXs.length) / paper, 0, 1) : 0;
+
+  // Cube: the extent of the dark lines, ignoring stray specks at the edges
+  let cube: Box | null = null;
+  let edgeScore = 0;
+  if (inkShare > 0.002) {
+    const xs = [...lineXs].sort((p, q) => p - q);
+    const ys = [...lineYs].sort((p, q) => p - q);
+    const minX = percentile(xs, 0.02);
+    const maxX = percentile(xs, 0.98);
+    const minY = percentile(ys, 0.02);
+    const maxY = percentile(ys, 0.98);
+    const box = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+
+    // A cube has long straight edges: some rows and columns are mostly ink
+    const rowCounts = new Uint32Array(height);
+    const colCounts = new Uint32Array(width);
+    lineXs.forEach((x, i) => {
+      const y = lineYs[i];
+      if (x >= minX && x <= maxX && y >= minY && y <= maxY) {
+        rowCounts[y]++;
+        colCounts[x]++;
+      }
+    });
+    const longestRow = Math.max(...rowCounts) / box.width;
+    const longestCol = Math.max(...colCounts) / box.height;
+    edgeScore = clamp((longestRow + longestCol) / 2, 0, 1);
+
+    const bigEnough = box.width >= width * 0.15 && box.height >= height * 0.15;
+    if (bigEnough && edgeScore >= 0.35 && inkShare < 0.4) {
+      cube = box;
+    }
+  }
+
+  // Robot: the largest colored blob that isn't just a speck
+  const blob = largestBlob(colorMask, data, width, height);
+  const robot = blob && blob.area >= Math.max(12, total * 0.0005) ? blob : null;
+  const robotInCube = !!(robot && cube
+    && robot.centroid.x >= cube.x && robot.centroid.x <= cube.x + cube.width
+    && robot.centroid.y >= cube.y && robot.centroid.y <= cube.y + cube.height);
+
+  const accuracy =
+    (cube ? 25 + 15 * edgeScore : 0) +
+    (robot ? 30 : 0) +
+    (robotInCube ? 20 : 0) +
+    (inkShare > 0.002 && inkShare < 0.25 ? 10 : 0);
+
+  // How sure we are of what was found: clear lines and a compact blob
+  const blobFill = robot ? robot.area / (robot.box.width * robot.box.height) : 0;
+  const confidence = 20 + 40 * contrast + 40 * (robot ? clamp(blobFill / 0.6, 0, 1) : 0);
+
+  const scaleX = imageSize.width / width;
+  const scaleY = imageSize.height / height;
+  const toImage = (box: Box, label: string): BoundingBox => ({
+    x: Math.round(box.x * scaleX),
+    y: Math.round(box.y * scaleY),
+    width: Math.round(box.width * scaleX),
+    height: Math.round(box.height * scaleY),
+    label,
+  });
+
+  const detectedObjects: string[] = [];
+  const boundingBoxes: BoundingBox[] = [];
+  if (cube) {
+    detectedObjects.push('cube');
+    boundingBoxes.push(toImage(cube, 'cube'));
+  }
+  if (robot) {
+    detectedObjects.push('robot');
+    boundingBoxes.push(toImage(robot.box, 'robot'));
+  }
+
+  const round1 = (value: number) => Math.round(clamp(value, 0, 100) * 10) / 10;
+  return {
+    accuracy: round1(accuracy),
+    detectedObjects,
+    boundingBoxes,
+    confidence: round1(confidence),
+    imageWidth: imageSize.width,
+    imageHeight: imageSize.height,
+    markerColor: robot?.color,
+    estimatedPosition: robot && cube && robotInCube
+      ? estimatePositionInCube(
+          (robot.centroid.x - cube.x) / cube.width,
+          1 - (robot.centroid.y - cube.y) / cube.height,
+        )
+      : undefined,
+  };
+}
@@ -0,0 +1,289 @@
+// Rule-based tutor used when no language model is attached. It works out what
+// the student is asking about (the coordinate-to-color mapping, a channel they
+// got wrong, how colors mix, or where the robot is) and answers from the
+// session's own numbers. Deterministic, so the same question in the same
+// session always gets the same answer. The web app answers with it in mock
+// mode and the reference server for POST /chat/message.
+
+import type { ChatContext, RGBColor, RobotCoordinates } from './types.js';
+
+export type TutorTopic = 'greeting' | 'thanks' | 'channel-error' | 'mixing' | 'coordinates' | 'mapping' | 'general';
+
+export type Channel = keyof RGBColor;
+
+export interface ChannelInfo {
+  channel: Channel;
+  name: string;
+  axis: keyof RobotCoordinates;
+  axisLabel: string;
+  // Where the axis runs in the 3D lab
+  direction: string;
+}
+
+export const CHANNELS: ChannelInfo[] = [
+  { channel: 'r', name: 'red', axis: 'x', axisLabel: 'X', direction: 'left to right' },
+  { channel: 'g', name: 'green', axis: 'y', axisLabel: 'Y', direction: 'front to back' },
+  { channel: 'b', name: 'blue', axis: 'z', axisLabel: 'Z', direction: 'bottom to top' },
+];
+
+// Within this many units a guess counts as spot on; within CLOSE, as close
+export const SPOT_ON = 5;
+const CLOSE = 20;
+
+export interface TutorQuestion {
+  topic: TutorTopic;
+  // Channels the question names, by color or by axis
+  channels: Channel[];
+  // A named color the student wants to make or understand
+  targetColor: string | null;
+}
+
+// A question goes to the topic with the most keyword matches; ties go to the
+// earlier topic
+const TOPIC_PATTERNS: [TutorTopic, RegExp[]][] = [
+  ['channel-error', [
+    /\b(wrong|off|error|mistake|miss(ed)?|incorrect)\b/,
+    /\btoo (high|low|much|little|big|small)\b/,
+    /\b(how (did|close|far)|my (guess|answer|prediction|score|result))\b/,
+    /\b(difference|accura(te|cy)|close)\b/,
+  ]],
+  ['mixing', [
+    /\b(mix(es|ed|ing)?|combin(e|es|ed|ing)|blend|add(ing|itive)?)\b/,
+    /\b(make|makes)\b/,
+    /\bwhat colou?r\b/,
+    /\blight\b/,
+  ]],
+  ['coordinates', [
+    /\b(coordinates?|position|axis|axes|origin|corner)\b/,
+    /\b(where|located|placed|move|moving)\b/,
+    /\b(cube|3d)\b/,
+    /\b0\s*(-|to)\s*255\b/,
+  ]],
+  ['mapping', [
+    /\b(map(s|ped|ping)?|relat(e|ed|ion|ionship)|connect(ed|ion)?|correspond(s)?|link(ed)?)\b/,
+    /\bwhy\b/,
+    /\b(rgb|channels?|colou?r space)\b/,
+    /\bhow does\b/,
+  ]],
+];
+
+const GREETING_PATTERN = /^\s*(hi|hello|hey|good (morning|afternoon|evening))\b/;
+const THANKS_PATTERN = /\b(thanks|thank you|thx|cheers)\b/;
+
+// Named colors students ask about, with the position that makes them
+const COLOR_RECIPES: Record<string, RGBColor> = {
+  black: { r: 0, g: 0, b: 0 },
+  white: { r: 255, g: 255, b: 255 },
+  gray: { r: 128, g: 128, b: 128 },
+  grey: { r: 128, g: 128, b: 128 },
+  yellow: { r: 255, g: 255, b: 0 },
+  cyan: { r: 0, g: 255, b: 255 },
+  magenta: { r: 255, g: 0, b: 255 },
+  purple: { r: 128, g: 0, b: 128 },
+  orange: { r: 255, g: 165, b: 0 },
+  pink: { r: 255, g: 192, b: 203 },
+  brown: { r: 139, g: 69, b: 19 },
+};
+
+function findChannels(text: string): Channel[] {
+  return CHANNELS
+    .filter(({ name, axisLabel }) =>
+      new RegExp(`\\b${name}\\b`).test(text) || new RegExp(`\\b${axisLabel.toLowerCase()}(-?axis)?\\b`).test(text))
+    .map(({ channel }) => channel);
+}
+
+export function classifyQuestion(message: string): TutorQuestion {
+  const text = message.toLowerCase();
+  const channels = findChannels(text);
+  const targetColor = Object.keys(COLOR_RECIPES).find((name) => new RegExp(`\\b${name}\\b`).test(text)) ?? null;
+
+  let topic: TutorTopic = 'general';
+  let bestScore = 0;
+  TOPIC_PATTERNS.forEach(([candidate, patterns]) => {
+    const score = patterns.filter((pattern) => pattern.test(text)).length;
+    if (score > bestScore) {
+      topic = candidate;
+      bestScore = score;
+    }
+  });
+
+  // Naming a color to make is a mixing question even without the keywords
+  if (topic === 'general' && targetColor) topic = 'mixing';
+  if (topic === 'general' && THANKS_PATTERN.test(text)) topic = 'thanks';
+  if (topic === 'general' && GREETING_PATTERN.test(text)) topic = 'greeting';
+
+  return { topic, channels, targetColor };
+}
+
+interface ChannelResult {
+  info: ChannelInfo;
+  coordinate: number;
+  expected: number;
+  predicted: number;
+  // predicted - expected
+  error: number;
+}
+
+function channelResults({ coords, studentRgb, aiRgb }: ChatContext): ChannelResult[] {
+  return CHANNELS.map((info) => ({
+    info,
+    coordinate: coords[info.axis],
+    expected: aiRgb[info.channel],
+    predicted: studentRgb[info.channel],
+    error: studentRgb[info.channel] - aiRgb[info.channel],
+  }));
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const formatPosition = ({ x, y, z }: RobotCoordinates) => `(${x}, ${y}, ${z})`;
+
+const formatRgb = ({ r, g, b }: RGBColor) => `RGB(${r}, ${g}, ${b})`;
+
+function explainChannel({ info, coordinate, expected, predicted, error }: ChannelResult): string {
+  if (Math.abs(error) <= SPOT_ON) {
+    return `Your ${info.name} (${predicted}) was spot on: ${info.axisLabel} was ${coordinate}, so ${info.name} is ${expected}.`;
+  }
+  return `Your ${info.name} was ${Math.abs(error)} too ${error > 0 ? 'high' : 'low'} because ${info.axisLabel} was ${coordinate}, `
+    + `so ${info.name} should be ${expected}, and you said ${predicted}.`;
+}
+
+function explainErrors(context: ChatContext, channels: Channel[]): string {
+  const results = channelResults(context);
+  const asked = channels.length > 0 ? results.filter((r) => channels.includes(r.info.channel)) : results;
+  const lines = asked.map(explainChannel);
+
+  if (channels.length === 0) {
+    const worst = results.reduce((a, b) => (Math.abs(b.error) > Math.abs(a.error) ? b : a));
+    if (Math.abs(worst.error) <= SPOT_ON) {
+      lines.push('Every channel was spot on. Well done!');
+    } else if (Math.abs(worst.error) <= CLOSE) {
+      lines.push(`All three were close. ${capitalize(worst.info.name)} was the furthest off.`);
+    } else {
+      lines.push(
+        `${capitalize(worst.info.name)} is the one to work on. Look at how far along the ${worst.info.axisLabel} axis `
+        + `(${worst.info.direction}) the robot stands: the further along, the more ${worst.info.name}.`
+      );
+    }
+  }
+  return lines.join(' ');
+}
+
+type Level = 'none' | 'some' | 'lots';
+
+const levelOf = (value: number): Level => (value < 85 ? 'none' : value < 170 ? 'some' : 'lots');
+
+// Two channels in equal measure (keys in red, green, blue order)
+const PAIR_NAMES: Record<string, string> = {
+  'red+green': 'yellow',
+  'green+blue': 'cyan',
+  'red+blue': 'magenta',
+};
+
+// One strong channel plus some of another
+const BETWEEN_NAMES: Record<string, string> = {
+  'red+green': 'orange',
+  'red+blue': 'pink (a rose color)',
+  'green+red': 'yellow-green',
+  'green+blue': 'sea green',
+  'blue+red': 'purple',
+  'blue+green': 'sky blue',
+};
+
+// Plain-language name for the color a mix of light makes
+export function describeColor(rgb: RGBColor): string {
+  const levels = CHANNELS.map(({ channel }) => levelOf(rgb[channel]));
+  const strong = CHANNELS.filter((_, i) => levels[i] === 'lots').map(({ name }) => name);
+  const weak = CHANNELS.filter((_, i) => levels[i] === 'none').map(({ name }) => name);
+
+  if (strong.length === 3) return 'white (or a very light color)';
+  if (weak.length === 3) return 'black (or a very dark color)';
+  if (levels.every((level) => level === 'some')) return 'gray';
+  if (strong.length === 2) return PAIR_NAMES[strong.join('+')];
+  const medium = CHANNELS.filter((_, i) => levels[i] === 'some').map(({ name }) => name);
+  if (strong.length === 1) {
+    if (weak.length === 2) return `a strong ${strong[0]}`;
+    if (medium.length === 2) return `a light ${strong[0]}`;
+    return BETWEEN_NAMES[`${strong[0]}+${medium[0]}`];
+  }
+  // Only medium and low channels: a darker version of the medium ones
+  return medium.length === 1 ? `a dark ${medium[0]}` : `a dark ${PAIR_NAMES[medium.join('+')]}`;
+}
+
+function explainMixing(context: ChatContext, { channels, targetColor }: TutorQuestion): string {
+  const additive = 'Screens mix light, so adding a channel makes the color brighter: '
+    + 'red + green = yellow, green + blue = cyan, red + blue = magenta, and all three make white.';
+
+  if (targetColor) {
+    const recipe = COLOR_RECIPES[targetColor];
+    const parts = CHANNELS.map(({ channel, name, axisLabel }) => `${axisLabel} = ${recipe[channel]} (${name})`);
+    return `To make ${targetColor}, the robot would stand at ${formatPosition({ x: recipe.r, y: recipe.g, z: recipe.b })}: `
+      + `${parts.join(', ')}. ${additive}`;
+  }
+
+  if (channels.length >= 2) {
+    const mix: RGBColor = { r: 0, g: 0, b: 0 };
+    channels.forEach((channel) => { mix[channel] = 255; });
+    const names = CHANNELS.filter(({ channel }) => channels.includes(channel)).map(({ name }) => name);
+    return `${capitalize(names.join(' and '))} light together make ${describeColor(mix)}. ${additive}`;
+  }
+
+  const { aiRgb, studentRgb } = context;
+  const actual = describeColor(aiRgb);
+  const guessed = describeColor(studentRgb);
+  const comparison = actual === guessed
+    ? `Your prediction ${formatRgb(studentRgb)} is ${guessed} too, so you had the right idea.`
+    : `Your prediction ${formatRgb(studentRgb)} would look ${guessed} instead.`;
+  return `The robot's color ${formatRgb(aiRgb)} comes out as ${actual}. ${comparison} ${additive}`;
+}
+
+function explainCoordinates({ coords }: ChatContext, channels: Channel[]): string {
+  const asked = channels.length > 0 ? CHANNELS.filter(({ channel }) => channels.includes(channel)) : CHANNELS;
+  const parts = asked.map(({ axis, axisLabel, direction }) => {
+    const share = Math.round((coords[axis] / 255) * 100);
+    return `${axisLabel} = ${coords[axis]} is ${share}% of the way along (${direction})`;
+  });
+  return `The robot is at ${formatPosition(coords)}. Each axis runs from 0 at one corner of the cube to 255 at the other. `
+    + `${parts.join('; ')}.`;
+}
+
+function explainMapping({ coords, aiRgb }: ChatContext, channels: Channel[]): string {
+  if (channels.length === 1) {
+    const info = CHANNELS.find(({ channel }) => channel === channels[0])!;
+    return `In this lesson the cube's ${info.axisLabel} axis is the ${info.name} channel: moving the robot ${info.direction} `
+      + `changes only the ${info.name}. The robot's ${info.axisLabel} is ${coords[info.axis]}, `
+      + `so its ${info.name} is ${aiRgb[info.channel]}. Red, green and blue each go from 0 to 255, just like the axes.`;
+  }
+  return `Each axis sets one color channel: X is red, Y is green and Z is blue. The robot is at ${formatPosition(coords)}, `
+    + `so its color is ${formatRgb(aiRgb)}. Both use the same 0-255 range, which is why the cube works as a map of colors.`;
+}
+
+function summarize(context: ChatContext): string {
+  const results = channelResults(context);
+  const worst = results.reduce((a, b) => (Math.abs(b.error) > Math.abs(a.error) ? b : a));
+  const overall = Math.abs(worst.error) <= CLOSE
+    ? 'Your prediction was close on every channel.'
+    : explainChannel(worst);
+  return `${overall} You can ask me how the coordinates map to colors, why a channel was off, `
+    + 'how colors mix, or where the robot is in the cube.';
+}
+
+export function composeTutorReply(message: string, context: ChatContext): string {
+  const question = classifyQuestion(message);
+  switch (question.topic) {
+    case 'greeting':
+      return `Hi! ${summarize(context)}`;
+    case 'thanks':
+      return "You're welcome! Ask me anything else about your colors or the cube.";
+    case 'channel-error':
+      return explainErrors(context, question.channels);
+    case 'mixing':
+      return explainMixing(context, question);
+    case 'coordinates':
+      return explainCoordinates(context, question.channels);
+    case 'mapping':
+      return explainMapping(context, question.channels);
+    default:
+      return summarize(context);
+  }
+}
@@ -0,0 +1,144 @@
+// Wire types used by both the web app and the reference server, along with
+// the pure modules next to this file. The web app re-exports them from
+// src/lib/api.ts and the server from server/src/types.ts.
+
+import type { ColorMetric } from './color.js';
+
+export interface RobotCoordinates {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface RGBColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// A detected object's extent, in pixels of the analysed image
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Which of detectedObjects this box outlines
+  label?: string;
+}
+
+export interface CVResult {
+  accuracy: number;
+  detectedObjects: string[];
+  boundingBoxes: BoundingBox[];
+  confidence: number;
+  // Natural size of the analysed image. Older results lack it; their boxes
+  // are in the web app's LEGACY_BOX_FRAME stretched over the image.
+  imageWidth?: number;
+  imageHeight?: number;
+  // Average color of the drawn robot, when one was found
+  markerColor?: RGBColor;
+  // Where the robot appears to be in the drawn cube (0-255 per axis)
+  estimatedPosition?: RobotCoordinates;
+  // estimatedPosition minus the robot's real position, per axis; present when
+  // the analysis was given the real position
+  positionError?: RobotCoordinates;
+}
+
+export interface ChatContext {
+  coords: RobotCoordinates;
+  studentRgb: RGBColor;
+  aiRgb: RGBColor;
+}
+
+// A finished lesson as the backend keeps it
+export interface SessionResultPayload {
+  // Who the result belongs to: the student's profile id, or the name a guest
+  // typed. Stays the same when a profile is renamed.
+  studentId: string;
+  // Name shown to the teacher, as it was when the lesson was finished
+  studentName: string;
+  // ISO timestamp
+  date: string;
+  robotCoordinates: RobotCoordinates;
+  cvAccuracy: number;
+  studentRgb: RGBColor;
+  aiRgb: RGBColor;
+  rgbDelta: number;
+  // Hints the student revealed before predicting; each lowers the score.
+  // Hints on the compare step explain an answer already given and aren't counted.
+  predictHintsUsed: number;
+  // Where the student placed the robot in the coordinates step, if they did
+  studentCoordinates: RobotCoordinates | null;
+  // Messages the student sent to the tutor
+  chatMessages: number;
+  // Seconds spent on each step of the lesson plan, by step id
+  stepSeconds: Record<string, number>;
+  // The drawing the lesson finished with, as POST /upload/drawing returned it
+  imageUrl: string | null;
+}
+
+export const DASHBOARD_SORT_KEYS = ['studentName', 'date', 'cvAccuracy', 'colorDifference', 'predictHintsUsed'] as const;
+
+export type DashboardSortKey = typeof DASHBOARD_SORT_KEYS[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+// Which sessions the teacher dashboard asks for. Every field is optional;
+// see DEFAULT_DASHBOARD_QUERY in dashboardQuery.ts.
+export interface DashboardQuery {
+  // 1-based
+  page?: number;
+  pageSize?: number;
+  sort?: DashboardSortKey;
+  order?: SortOrder;
+  // Exact student id
+  student?: string;
+  // Matched, ignoring case, against the student's name and the YYYY-MM-DD date
+  search?: string;
+  // ISO timestamps, both inclusive
+  from?: string;
+  to?: string;
+  // CV accuracy band in percent: at least min and below max
+  minAccuracy?: number;
+  maxAccuracy?: number;
+  // Only sessions whose color difference is at least this
+  minDelta?: number;
+  // Color difference the colorDifference sort and minDelta go by; RGB
+  // distance if left out
+  metric?: ColorMetric;
+}
+
+// How close the predictions came under one color metric
+export interface MetricSummary {
+  avgDifference: number;
+  // Predictions graded excellent under this metric
+  excellent: number;
+}
+
+export interface DashboardSummary {
+  sessions: number;
+  students: number;
+  avgCvAccuracy: number;
+  avgRgbDelta: number;
+  // Every metric, so the dashboard follows the teacher's choice without asking again
+  byMetric: Record<ColorMetric, MetricSummary>;
+}
+
+export interface DashboardStudent {
+  id: string;
+  // From their latest result
+  name: string;
+}
+
+// One page of dashboard results
+export interface DashboardResultsPayload {
+  rows: SessionResultPayload[];
+  // Sessions matching the filters, on every page
+  total: number;
+  page: number;
+  pageSize: number;
+  // Every student with results, whatever the filters, by name
+  students: DashboardStudent[];
+  // Over all sessions matching the filters
+  summary: DashboardSummary;
+}
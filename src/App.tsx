@@ -1,10 +1,19 @@
+import type { ComponentType } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { ProfileProvider } from "@/context/ProfileContext";
 import { SessionProvider } from "@/context/SessionContext";
+import { TeacherPreviewProvider } from "@/context/TeacherPreviewContext";
+import { ColorMetricProvider } from "@/context/ColorMetricContext";
+import { ModerationProvider } from "@/context/ModerationContext";
+import { StepGuard } from "@/components/StepGuard";
+import { LessonPlanProvider, useLessonPlan } from "@/context/LessonPlanContext";
+import type { StepKind } from "@/lib/workflow";
 import Index from "./pages/Index";
+import ProfilesPage from "./pages/ProfilesPage";
 import PlacementPage from "./pages/PlacementPage";
 import UploadPage from "./pages/UploadPage";
 import VerifyPage from "./pages/VerifyPage";
@@ -13,32 +22,76 @@ import PredictPage from "./pages/PredictPage";
 import ComparePage from "./pages/ComparePage";
 import ChatPage from "./pages/ChatPage";
 import DashboardPage from "./pages/DashboardPage";
+import StudentDashboardPage from "./pages/StudentDashboardPage";
+import ProgressPage from "./pages/ProgressPage";
+import AttemptPage from "./pages/AttemptPage";
+import CompletionPage from "./pages/CompletionPage";
+import LessonPlansPage from "./pages/LessonPlansPage";
 import NotFound from "./pages/NotFound";
 
+// Page rendered for each kind of workflow step
+const STEP_PAGES: Record<StepKind, ComponentType> = {
+  placement: PlacementPage,
+  upload: UploadPage,
+  verify: VerifyPage,
+  coords: CoordsPage,
+  predict: PredictPage,
+  compare: ComparePage,
+  chat: ChatPage,
+};
+
 const queryClient = new QueryClient();
 
+// Workflow routes follow the active lesson plan
+const AppRoutes = () => {
+  const { steps } = useLessonPlan();
+
+  return (
+    <Routes>
+      <Route path="/" element={<Index />} />
+      <Route path="/profiles" element={<ProfilesPage />} />
+      {steps.map((step) => {
+        const StepPage = STEP_PAGES[step.kind];
+        return (
+          <Route
+            key={step.id}
+            path={step.path}
+            element={<StepGuard step={step}><StepPage /></StepGuard>}
+          />
+        );
+      })}
+      <Route path="/progress" element={<ProgressPage />} />
+      <Route path="/progress/:attemptId" element={<AttemptPage />} />
+      <Route path="/complete/:attemptId" element={<CompletionPage />} />
+      <Route path="/dashboard" element={<DashboardPage />} />
+      <Route path="/dashboard/student/:id" element={<StudentDashboardPage />} />
+      <Route path="/lesson-plans" element={<LessonPlansPage />} />
+      <Route path="*" element={<NotFound />} />
+    </Routes>
+  );
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <SessionProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/3d" element={<PlacementPage />} />
-            <Route path="/upload" element={<UploadPage />} />
-            <Route path="/verify" element={<VerifyPage />} />
-            <Route path="/coords" element={<CoordsPage />} />
-            <Route path="/predict" element={<PredictPage />} />
-            <Route path="/compare" element={<ComparePage />} />
-            <Route path="/chat" element={<ChatPage />} />
-            <Route path="/dashboard" element={<DashboardPage />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </SessionProvider>
+    <ProfileProvider>
+      <LessonPlanProvider>
+        <TeacherPreviewProvider>
+          <ColorMetricProvider>
+            <ModerationProvider>
+              <SessionProvider>
+                <TooltipProvider>
+                  <Toaster />
+                  <Sonner />
+                  <BrowserRouter>
+                    <AppRoutes />
+                  </BrowserRouter>
+                </TooltipProvider>
+              </SessionProvider>
+            </ModerationProvider>
+          </ColorMetricProvider>
+        </TeacherPreviewProvider>
+      </LessonPlanProvider>
+    </ProfileProvider>
   </QueryClientProvider>
 );
 
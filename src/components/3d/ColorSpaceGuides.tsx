@@ -0,0 +1,186 @@
+import { useMemo } from 'react';
+import { Text, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { hsvToRgb } from '@shared/color';
+
+// Axes and outlines for the non-RGB modes of the coordinate lab. Both share
+// the lab's 0-1 scene: the floor spans x and z, height runs up y.
+
+const CENTER = 0.5;
+const RADIUS = 0.5;
+const AXIS_TOP = 1.3;
+const RING_SEGMENTS = 64;
+
+function ringPoints(height: number, radius = RADIUS): [number, number, number][] {
+  return Array.from({ length: RING_SEGMENTS + 1 }, (_, i) => {
+    const angle = (i / RING_SEGMENTS) * Math.PI * 2;
+    return [CENTER + radius * Math.cos(angle), height, CENTER - radius * Math.sin(angle)];
+  });
+}
+
+function HeightAxis({ label, ticks }: { label: string; ticks: { at: number; text: string }[] }) {
+  return (
+    <group>
+      <Line
+        points={[[CENTER, 0, CENTER], [CENTER, AXIS_TOP, CENTER]]}
+        vertexColors={[[0, 0, 0], [1, 1, 1]]}
+        lineWidth={3}
+      />
+      <mesh position={[CENTER, AXIS_TOP + 0.05, CENTER]}>
+        <coneGeometry args={[0.02, 0.06, 8]} />
+        <meshBasicMaterial color="#e2e8f0" />
+      </mesh>
+      <Text position={[CENTER, AXIS_TOP + 0.15, CENTER]} fontSize={0.06} color="#e2e8f0" anchorX="center">
+        {label}
+      </Text>
+      {ticks.map(({ at, text }) => (
+        <group key={text}>
+          <Line points={[[CENTER - 0.02, at, CENTER], [CENTER + 0.02, at, CENTER]]} color="#94a3b8" lineWidth={1} />
+          <Text position={[CENTER - 0.04, at, CENTER]} fontSize={0.03} color="#94a3b8" anchorX="right">
+            {text}
+          </Text>
+        </group>
+      ))}
+    </group>
+  );
+}
+
+// ============================================
+// HSV / HSL CYLINDER
+// ============================================
+
+export function CylinderGuides({ heightSymbol, heightName }: { heightSymbol: string; heightName: string }) {
+  // Floor ring painted with the hue at each angle
+  const hueRing = useMemo(() => {
+    const points = ringPoints(0.001);
+    const colors = points.map((_, i) => {
+      const { r, g, b } = hsvToRgb({ h: (i / RING_SEGMENTS) * 360, s: 1, v: 1 });
+      return [r / 255, g / 255, b / 255] as [number, number, number];
+    });
+    return { points, colors };
+  }, []);
+  const topRing = useMemo(() => ringPoints(1), []);
+
+  return (
+    <group>
+      {/* Floor disc */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[CENTER, 0, CENTER]}>
+        <circleGeometry args={[RADIUS, RING_SEGMENTS]} />
+        <meshBasicMaterial color="#1e293b" transparent opacity={0.3} side={THREE.DoubleSide} />
+      </mesh>
+      <Line points={hueRing.points} vertexColors={hueRing.colors} lineWidth={4} />
+
+      {/* Cylinder outline */}
+      <Line points={topRing} color="#475569" lineWidth={1} transparent opacity={0.6} />
+      {[0, 90, 180, 270].map((degrees) => {
+        const angle = (degrees * Math.PI) / 180;
+        const x = CENTER + RADIUS * Math.cos(angle);
+        const z = CENTER - RADIUS * Math.sin(angle);
+        return (
+          <Line
+            key={degrees}
+            points={[[x, 0, z], [x, 1, z]]}
+            color="#475569"
+            lineWidth={1}
+            transparent
+            opacity={0.4}
+          />
+        );
+      })}
+
+      {/* Hue labels around the floor */}
+      {[
+        { degrees: 0, text: '0° Red', color: '#ef4444' },
+        { degrees: 60, text: '60° Yellow', color: '#eab308' },
+        { degrees: 120, text: '120° Green', color: '#22c55e' },
+        { degrees: 180, text: '180° Cyan', color: '#06b6d4' },
+        { degrees: 240, text: '240° Blue', color: '#3b82f6' },
+        { degrees: 300, text: '300° Magenta', color: '#d946ef' },
+      ].map(({ degrees, text, color }) => {
+        const angle = (degrees * Math.PI) / 180;
+        return (
+          <Text
+            key={degrees}
+            position={[CENTER + 0.6 * Math.cos(angle), 0.01, CENTER - 0.6 * Math.sin(angle)]}
+            fontSize={0.035}
+            color={color}
+            anchorX="center"
+          >
+            {text}
+          </Text>
+        );
+      })}
+
+      {/* Saturation runs out along the radius */}
+      <Line
+        points={[[CENTER, 0.002, CENTER], [CENTER + RADIUS, 0.002, CENTER]]}
+        color="#f59e0b"
+        lineWidth={2}
+        dashed
+        dashSize={0.02}
+        dashScale={5}
+      />
+      <Text position={[CENTER + RADIUS / 2, 0.03, CENTER]} fontSize={0.035} color="#f59e0b" anchorX="center">
+        S (Saturation)
+      </Text>
+
+      <HeightAxis
+        label={`${heightSymbol} (${heightName}/Height)`}
+        ticks={[0.25, 0.5, 0.75, 1].map((t) => ({ at: t, text: `${t * 100}%` }))}
+      />
+    </group>
+  );
+}
+
+// ============================================
+// CIELAB
+// ============================================
+
+export function LabGuides() {
+  const outline = (height: number): [number, number, number][] => [
+    [0, height, 0], [1, height, 0], [1, height, 1], [0, height, 1], [0, height, 0],
+  ];
+
+  return (
+    <group>
+      {/* Floor */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[CENTER, 0, CENTER]}>
+        <planeGeometry args={[1, 1]} />
+        <meshBasicMaterial color="#1e293b" transparent opacity={0.3} side={THREE.DoubleSide} />
+      </mesh>
+      <Line points={outline(0.001)} color="#64748b" lineWidth={2} />
+      <Line points={outline(1)} color="#475569" lineWidth={1} transparent opacity={0.4} />
+
+      {/* a* axis: green to red */}
+      <Line
+        points={[[0, 0.002, CENTER], [1, 0.002, CENTER]]}
+        vertexColors={[[0.13, 0.77, 0.37], [0.94, 0.27, 0.27]]}
+        lineWidth={3}
+      />
+      <Text position={[1.05, 0.01, CENTER]} fontSize={0.045} color="#ef4444" anchorX="left">
+        +a* (Red)
+      </Text>
+      <Text position={[-0.05, 0.01, CENTER]} fontSize={0.045} color="#22c55e" anchorX="right">
+        -a* (Green)
+      </Text>
+
+      {/* b* axis: blue at the front to yellow at the back */}
+      <Line
+        points={[[CENTER, 0.002, 1], [CENTER, 0.002, 0]]}
+        vertexColors={[[0.23, 0.51, 0.96], [0.92, 0.7, 0.03]]}
+        lineWidth={3}
+      />
+      <Text position={[CENTER, 0.01, -0.07]} fontSize={0.045} color="#eab308" anchorX="center">
+        +b* (Yellow)
+      </Text>
+      <Text position={[CENTER, 0.01, 1.07]} fontSize={0.045} color="#3b82f6" anchorX="center">
+        -b* (Blue)
+      </Text>
+
+      <HeightAxis
+        label="L* (Lightness/Height)"
+        ticks={[0.25, 0.5, 0.75, 1].map((t) => ({ at: t, text: `${t * 100}` }))}
+      />
+    </group>
+  );
+}
@@ -2,6 +2,10 @@ import { useRef, useState, useCallback, useMemo } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Text, Line } from '@react-three/drei';
 import * as THREE from 'three';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { COLOR_SPACES, type ColorSpace } from '@/lib/colorSpaces';
+import type { ColorSpaceId } from '@/lib/workflow';
+import { CylinderGuides, LabGuides } from './ColorSpaceGuides';
 
 // ============================================
 // TYPES & INTERFACES
@@ -15,6 +19,7 @@ export interface RGBPosition {
 
 interface HydrangeaPlantProps {
   position: RGBPosition;
+  space: ColorSpace;
   flowerColor?: THREE.Color | null; // null = white (neutral), undefined = computed from position
   scale?: number;
   label?: string;
@@ -22,6 +27,7 @@ interface HydrangeaPlantProps {
 
 interface OctopusProps {
   position: RGBPosition;
+  space: ColorSpace;
   label: string; // A-F
   colorOverride?: THREE.Color | null; // null = derive from position
 }
@@ -32,28 +38,19 @@ interface RGBCoordinateLabProps {
   initialPosition?: RGBPosition;
   showOctopuses?: boolean;
   octopusPositions?: { label: string; position: RGBPosition }[];
+  // Spaces the student can switch between; the first is shown initially
+  spaces?: ColorSpaceId[];
+  onSpaceChange?: (space: ColorSpaceId) => void;
 }
 
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
 
-// Convert RGB (0-255) to normalized coordinates (0-1 for rendering)
-function rgbToNormalized(rgb: RGBPosition): THREE.Vector3 {
-  return new THREE.Vector3(
-    rgb.r / 255, // X = Red
-    rgb.b / 255, // Y = Blue (height)
-    rgb.g / 255  // Z = Green
-  );
-}
-
-// Convert normalized coordinates back to RGB
-function normalizedToRgb(pos: THREE.Vector3): RGBPosition {
-  return {
-    r: Math.round(Math.max(0, Math.min(255, pos.x * 255))),
-    g: Math.round(Math.max(0, Math.min(255, pos.z * 255))),
-    b: Math.round(Math.max(0, Math.min(255, pos.y * 255))),
-  };
+// Where a color sits in the scene (0-1 on each axis) for the given space
+function rgbToNormalized(rgb: RGBPosition, space: ColorSpace): THREE.Vector3 {
+  const { x, y, z } = space.toScene(rgb);
+  return new THREE.Vector3(x, y, z);
 }
 
 // Compute RGB color from position
@@ -215,9 +212,9 @@ function RGGroundPlane() {
 // HYDRANGEA PLANT COMPONENT
 // ============================================
 
-function HydrangeaPlant({ position, flowerColor, scale = 1, label }: HydrangeaPlantProps) {
+function HydrangeaPlant({ position, space, flowerColor, scale = 1, label }: HydrangeaPlantProps) {
   const groupRef = useRef<THREE.Group>(null);
-  const normalized = rgbToNormalized(position);
+  const normalized = rgbToNormalized(position, space);
   
   // Compute flower color from position if not overridden
   const computedFlowerColor = useMemo(() => {
@@ -230,8 +227,8 @@ function HydrangeaPlant({ position, flowerColor, scale = 1, label }: HydrangeaPl
     return positionToColor(position);
   }, [position, flowerColor]);
 
-  // Plant height is determined by B (Blue) channel
-  const stemHeight = 0.05 + (position.b / 255) * 0.3;
+  // Plant height follows the space's height axis (Blue in RGB)
+  const stemHeight = 0.05 + normalized.y * 0.3;
 
   return (
     <group ref={groupRef} position={[normalized.x, 0, normalized.z]} scale={scale}>
@@ -350,9 +347,9 @@ function HydrangeaPlant({ position, flowerColor, scale = 1, label }: HydrangeaPl
 // OCTOPUS COMPONENT (Variables A-F)
 // ============================================
 
-function Octopus({ position, label, colorOverride }: OctopusProps) {
+function Octopus({ position, space, label, colorOverride }: OctopusProps) {
   const groupRef = useRef<THREE.Group>(null);
-  const normalized = rgbToNormalized(position);
+  const normalized = rgbToNormalized(position, space);
   
   // Derive color from position unless overridden
   const bodyColor = useMemo(() => {
@@ -457,7 +454,13 @@ function Octopus({ position, label, colorOverride }: OctopusProps) {
 // FINISH POND (Container for Octopuses)
 // ============================================
 
-function FinishPond({ octopuses }: { octopuses: { label: string; position: RGBPosition }[] }) {
+function FinishPond({
+  octopuses,
+  space,
+}: {
+  octopuses: { label: string; position: RGBPosition }[];
+  space: ColorSpace;
+}) {
   return (
     <group>
       {/* Pond boundary indicator */}
@@ -482,6 +485,7 @@ function FinishPond({ octopuses }: { octopuses: { label: string; position: RGBPo
           key={oct.label}
           label={oct.label}
           position={oct.position}
+          space={space}
           colorOverride={null} // Derive from position
         />
       ))}
@@ -495,9 +499,11 @@ function FinishPond({ octopuses }: { octopuses: { label: string; position: RGBPo
 
 function InteractiveMarker({
   position,
+  space,
   onPositionChange,
 }: {
   position: RGBPosition;
+  space: ColorSpace;
   onPositionChange: (pos: RGBPosition) => void;
 }) {
   const markerRef = useRef<THREE.Group>(null);
@@ -505,7 +511,7 @@ function InteractiveMarker({
   const { camera, raycaster, gl } = useThree();
   const plane = useMemo(() => new THREE.Plane(new THREE.Vector3(0, 1, 0), 0), []);
 
-  const normalized = rgbToNormalized(position);
+  const normalized = rgbToNormalized(position, space);
 
   const handlePointerDown = useCallback((e: { stopPropagation: () => void }) => {
     e.stopPropagation();
@@ -528,7 +534,7 @@ function InteractiveMarker({
       const newZ = Math.max(0, Math.min(1, intersection.z));
       
       // Keep current height
-      const newPos = normalizedToRgb(new THREE.Vector3(newX, normalized.y, newZ));
+      const newPos = space.fromFloor(newX, newZ, position);
       onPositionChange(newPos);
     }
   });
@@ -632,22 +638,26 @@ function RGBBoundingBox() {
 
 function HeightControls({ 
   position, 
+  space,
   onPositionChange 
 }: { 
   position: RGBPosition; 
+  space: ColorSpace;
   onPositionChange: (pos: RGBPosition) => void;
 }) {
+  const height = space.height(position);
+
   return (
     <div className="absolute bottom-4 left-4 bg-background/90 backdrop-blur-sm rounded-lg p-3 border border-border">
       <label className="text-sm font-medium text-foreground block mb-2">
-        Height (Blue): {position.b}
+        Height ({space.heightLabel}): {height}
       </label>
       <input
         type="range"
         min="0"
-        max="255"
-        value={position.b}
-        onChange={(e) => onPositionChange({ ...position, b: parseInt(e.target.value) })}
+        max={space.heightMax}
+        value={height}
+        onChange={(e) => onPositionChange(space.withHeight(position, parseInt(e.target.value)))}
         className="w-40 accent-blue-500"
       />
     </div>
@@ -658,13 +668,34 @@ function HeightControls({
 // MAIN SCENE COMPONENT
 // ============================================
 
+function SpaceGuides({ space }: { space: ColorSpace }) {
+  switch (space.shape) {
+    case 'cube':
+      return (
+        <>
+          <CartesianAxes />
+          <RGGroundPlane />
+          <RGBBoundingBox />
+        </>
+      );
+    case 'cylinder': {
+      const heightAxis = space.axes[space.axes.length - 1];
+      return <CylinderGuides heightSymbol={heightAxis.symbol} heightName={heightAxis.name} />;
+    }
+    case 'lab':
+      return <LabGuides />;
+  }
+}
+
 function RGBScene({
   position,
+  space,
   onPositionChange,
   showOctopuses,
   octopusPositions,
 }: {
   position: RGBPosition;
+  space: ColorSpace;
   onPositionChange: (pos: RGBPosition) => void;
   showOctopuses?: boolean;
   octopusPositions?: { label: string; position: RGBPosition }[];
@@ -696,25 +727,24 @@ function RGBScene({
       <pointLight position={[0.5, 1, 0.5]} intensity={0.3} color="#ffffff" />
 
       {/* Core visualization elements */}
-      <CartesianAxes />
-      <RGGroundPlane />
-      <RGBBoundingBox />
+      <SpaceGuides space={space} />
 
       {/* Sample hydrangea plants */}
       {samplePlants.map((plant, i) => (
         <HydrangeaPlant
           key={i}
           position={plant.position}
+          space={space}
           label={plant.label}
           flowerColor={null} // White/neutral for now
         />
       ))}
 
       {/* Interactive marker for user input */}
-      <InteractiveMarker position={position} onPositionChange={onPositionChange} />
+      <InteractiveMarker position={position} space={space} onPositionChange={onPositionChange} />
 
       {/* Octopus finish pond */}
-      {showOctopuses && <FinishPond octopuses={octopuses} />}
+      {showOctopuses && <FinishPond octopuses={octopuses} space={space} />}
 
       {/* Camera controls */}
       <OrbitControls
@@ -739,15 +769,27 @@ export function RGBCoordinateLab({
   initialPosition = { r: 128, g: 128, b: 128 },
   showOctopuses = true,
   octopusPositions,
+  spaces = ['rgb'],
+  onSpaceChange,
 }: RGBCoordinateLabProps) {
   const [position, setPosition] = useState<RGBPosition>(initialPosition);
+  const [spaceId, setSpaceId] = useState<ColorSpaceId>(spaces[0] ?? 'rgb');
+  const space = COLOR_SPACES[spaces.includes(spaceId) ? spaceId : spaces[0] ?? 'rgb'];
 
   const handlePositionChange = useCallback((newPos: RGBPosition) => {
     setPosition(newPos);
     onPositionChange?.(newPos);
   }, [onPositionChange]);
 
+  const handleSpaceChange = (value: string) => {
+    // Radix reports an empty value when the active item is clicked again
+    if (!value) return;
+    setSpaceId(value as ColorSpaceId);
+    onSpaceChange?.(value as ColorSpaceId);
+  };
+
   const rgbColor = `rgb(${position.r}, ${position.g}, ${position.b})`;
+  const coordinates = space.coordinates(position);
 
   return (
     <div className={`relative ${className}`}>
@@ -758,32 +800,46 @@ export function RGBCoordinateLab({
       >
         <RGBScene
           position={position}
+          space={space}
           onPositionChange={handlePositionChange}
           showOctopuses={showOctopuses}
           octopusPositions={octopusPositions}
         />
       </Canvas>
 
+      {/* Color space switcher */}
+      {spaces.length > 1 && (
+        <ToggleGroup
+          type="single"
+          value={space.id}
+          onValueChange={handleSpaceChange}
+          className="absolute top-4 left-1/2 -translate-x-1/2 bg-background/90 backdrop-blur-sm rounded-lg p-1 border border-border"
+          aria-label="Color space"
+        >
+          {spaces.map((id) => (
+            <ToggleGroupItem key={id} value={id} size="sm">
+              {COLOR_SPACES[id].name}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
       {/* Height control slider */}
-      <HeightControls position={position} onPositionChange={handlePositionChange} />
+      <HeightControls position={position} space={space} onPositionChange={handlePositionChange} />
 
-      {/* RGB readout panel */}
+      {/* Position readout panel */}
       <div className="absolute top-4 right-4 bg-background/90 backdrop-blur-sm rounded-lg p-4 border border-border min-w-[200px]">
-        <h3 className="text-sm font-semibold text-foreground mb-3">RGB Position</h3>
+        <h3 className="text-sm font-semibold text-foreground mb-3">{space.name} Position</h3>
         
         <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <span className="text-red-500 font-medium">R (X):</span>
-            <span className="text-foreground font-mono">{position.r}</span>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-green-500 font-medium">G (Z):</span>
-            <span className="text-foreground font-mono">{position.g}</span>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-blue-500 font-medium">B (Y):</span>
-            <span className="text-foreground font-mono">{position.b}</span>
-          </div>
+          {space.axes.map((axis, i) => (
+            <div key={axis.symbol} className="flex items-center justify-between">
+              <span className={`${axis.textClass} font-medium`}>
+                {axis.symbol} ({axis.direction}):
+              </span>
+              <span className="text-foreground font-mono">{coordinates[i]}</span>
+            </div>
+          ))}
         </div>
 
         <div className="mt-4 pt-3 border-t border-border">
@@ -803,18 +859,14 @@ export function RGBCoordinateLab({
       <div className="absolute top-4 left-4 bg-background/90 backdrop-blur-sm rounded-lg p-3 border border-border">
         <h4 className="text-xs font-semibold text-foreground mb-2">Axis Mapping</h4>
         <div className="space-y-1 text-xs">
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-red-500 rounded-sm" />
-            <span className="text-muted-foreground">X → Red (R)</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-green-500 rounded-sm" />
-            <span className="text-muted-foreground">Z → Green (G)</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-blue-500 rounded-sm" />
-            <span className="text-muted-foreground">Y → Blue (B)</span>
-          </div>
+          {space.axes.map((axis) => (
+            <div key={axis.symbol} className="flex items-center gap-2">
+              <div className={`w-3 h-3 rounded-sm ${axis.swatchClass}`} />
+              <span className="text-muted-foreground">
+                {axis.direction} → {axis.name} ({axis.symbol})
+              </span>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -822,7 +874,7 @@ export function RGBCoordinateLab({
       <div className="absolute bottom-4 right-4 bg-background/90 backdrop-blur-sm rounded-lg p-3 border border-border max-w-[180px]">
         <h4 className="text-xs font-semibold text-foreground mb-1">Controls</h4>
         <p className="text-xs text-muted-foreground">
-          Drag marker to move on R-G plane. Use slider to adjust height (B).
+          {space.controlsHint}
         </p>
       </div>
     </div>
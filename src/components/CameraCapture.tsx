@@ -0,0 +1,281 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Camera, Check, Loader2, RotateCcw, RotateCw, Scan, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  getCameraErrorMessage,
+  requestCameraStream,
+  stopCameraStream,
+  type CameraStreamSource,
+} from '@/lib/camera';
+import { correctedSize, warpPerspective, type Point, type Quad } from '@/lib/perspective';
+import { cn } from '@/lib/utils';
+
+// Longest side of the straightened photo sent for upload
+const MAX_OUTPUT_SIDE = 1600;
+
+// Starting corners, just inside the photo edges (fractions of width/height)
+const DEFAULT_CORNERS: Quad = [
+  { x: 0.05, y: 0.05 },
+  { x: 0.95, y: 0.05 },
+  { x: 0.95, y: 0.95 },
+  { x: 0.05, y: 0.95 },
+];
+
+const CORNER_LABELS = ['Top-left', 'Top-right', 'Bottom-right', 'Bottom-left'];
+
+type Stage = 'starting' | 'live' | 'adjust';
+
+interface CameraCaptureProps {
+  // Receives the straightened photo; a rejection is shown to the student
+  onCapture: (file: File) => Promise<void>;
+  onCancel: () => void;
+  // Called when the camera can't be used, with a message explaining why
+  onUnavailable: (message: string) => void;
+  // Swappable for a fake stream (e.g. canvas.captureStream()) in tests
+  getStream?: CameraStreamSource;
+  className?: string;
+}
+
+function rotateCanvas(source: HTMLCanvasElement, clockwise: boolean): HTMLCanvasElement {
+  const rotated = document.createElement('canvas');
+  rotated.width = source.height;
+  rotated.height = source.width;
+  const ctx = rotated.getContext('2d');
+  if (ctx) {
+    ctx.translate(rotated.width / 2, rotated.height / 2);
+    ctx.rotate(clockwise ? Math.PI / 2 : -Math.PI / 2);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  }
+  return rotated;
+}
+
+export function CameraCapture({
+  onCapture,
+  onCancel,
+  onUnavailable,
+  getStream = requestCameraStream,
+  className,
+}: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const photoRef = useRef<HTMLCanvasElement | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  const [stage, setStage] = useState<Stage>('starting');
+  const [attempt, setAttempt] = useState(0);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [corners, setCorners] = useState<Quad>(DEFAULT_CORNERS);
+  const [draggingCorner, setDraggingCorner] = useState<number | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start the camera; `attempt` restarts it after a retake
+  useEffect(() => {
+    let cancelled = false;
+    getStream()
+      .then((stream) => {
+        if (cancelled) {
+          stopCameraStream(stream);
+          return;
+        }
+        streamRef.current = stream;
+        setStage('live');
+      })
+      .catch((err) => {
+        if (!cancelled) onUnavailable(getCameraErrorMessage(err));
+      });
+
+    return () => {
+      cancelled = true;
+      if (streamRef.current) {
+        stopCameraStream(streamRef.current);
+        streamRef.current = null;
+      }
+    };
+  }, [getStream, onUnavailable, attempt]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (stage !== 'live' || !video || !streamRef.current) return;
+    video.srcObject = streamRef.current;
+    video.play().catch(() => {
+      // Autoplay can be refused until the user interacts; the preview stays on the first frame
+    });
+  }, [stage]);
+
+  const showPhoto = (canvas: HTMLCanvasElement) => {
+    photoRef.current = canvas;
+    setPhotoUrl(canvas.toDataURL('image/jpeg', 0.9));
+    setCorners(DEFAULT_CORNERS);
+  };
+
+  const handleTakePhoto = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) {
+      setError('The camera is still starting. Try again in a moment.');
+      return;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+
+    if (streamRef.current) {
+      stopCameraStream(streamRef.current);
+      streamRef.current = null;
+    }
+    setError(null);
+    showPhoto(canvas);
+    setStage('adjust');
+  };
+
+  const handleRetake = () => {
+    photoRef.current = null;
+    setPhotoUrl(null);
+    setError(null);
+    setStage('starting');
+    setAttempt((n) => n + 1);
+  };
+
+  const handleRotate = (clockwise: boolean) => {
+    if (photoRef.current) showPhoto(rotateCanvas(photoRef.current, clockwise));
+  };
+
+  const moveCorner = useCallback((index: number, clientX: number, clientY: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const point: Point = {
+      x: Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (clientY - rect.top) / rect.height)),
+    };
+    setCorners((prev) => prev.map((c, i) => (i === index ? point : c)) as Quad);
+  }, []);
+
+  const handleUsePhoto = async () => {
+    const photo = photoRef.current;
+    const ctx = photo?.getContext('2d');
+    if (!photo || !ctx) return;
+
+    setError(null);
+    setIsProcessing(true);
+    try {
+      const quad = corners.map(({ x, y }) => ({ x: x * photo.width, y: y * photo.height })) as Quad;
+      const { width, height } = correctedSize(quad, MAX_OUTPUT_SIDE);
+      const straightened = warpPerspective(ctx.getImageData(0, 0, photo.width, photo.height), quad, width, height);
+
+      const output = document.createElement('canvas');
+      output.width = width;
+      output.height = height;
+      output.getContext('2d')?.putImageData(straightened, 0, 0);
+      const blob = await new Promise<Blob | null>((resolve) => output.toBlob(resolve, 'image/jpeg', 0.92));
+      if (!blob) {
+        throw new Error('Could not save the photo. Please try again.');
+      }
+      await onCapture(new File([blob], `photo-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (stage === 'adjust' && photoUrl) {
+    const outline = corners.map(({ x, y }) => `${x},${y}`).join(' ');
+
+    return (
+      <div className={cn("space-y-3", className)}>
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Scan className="w-4 h-4 shrink-0" />
+          Drag the four handles onto the corners of your paper. The photo will be straightened to fit.
+        </p>
+
+        <div ref={frameRef} className="relative rounded-xl overflow-hidden border-2 border-border bg-muted touch-none select-none">
+          <img src={photoUrl} alt="Captured drawing" className="w-full block" draggable={false} />
+          <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            <polygon
+              points={outline}
+              fill="hsl(var(--primary) / 0.15)"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          {corners.map(({ x, y }, i) => (
+            <button
+              key={CORNER_LABELS[i]}
+              type="button"
+              aria-label={`${CORNER_LABELS[i]} corner`}
+              className={cn(
+                "absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-primary bg-background/80 cursor-grab",
+                draggingCorner === i && "cursor-grabbing scale-125"
+              )}
+              style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setDraggingCorner(i);
+              }}
+              onPointerMove={(e) => {
+                if (draggingCorner === i) moveCorner(i, e.clientX, e.clientY);
+              }}
+              onPointerUp={() => setDraggingCorner(null)}
+              onPointerCancel={() => setDraggingCorner(null)}
+            />
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => handleRotate(false)} aria-label="Rotate left">
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => handleRotate(true)} aria-label="Rotate right">
+            <RotateCw className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setCorners(DEFAULT_CORNERS)}>
+            Reset Corners
+          </Button>
+          <Button variant="outline" size="sm" className="ml-auto" onClick={handleRetake} disabled={isProcessing}>
+            <Camera className="w-4 h-4 mr-2" />
+            Retake
+          </Button>
+          <Button size="sm" onClick={handleUsePhoto} disabled={isProcessing}>
+            {isProcessing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Check className="w-4 h-4 mr-2" />
+            )}
+            Use Photo
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="relative rounded-xl overflow-hidden border-2 border-border bg-black aspect-video">
+        <video ref={videoRef} className="w-full h-full object-contain" playsInline muted />
+        {stage === 'starting' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-white/80">
+            <Loader2 className="w-10 h-10 animate-spin mb-3" />
+            <p className="text-sm">Starting camera...</p>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+        <Button className="ml-auto" onClick={handleTakePhoto} disabled={stage !== 'live'}>
+          <Camera className="w-4 h-4 mr-2" />
+          Take Photo
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2 } from 'lucide-react';
+import { Send, Bot, User, Loader2, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
@@ -7,20 +7,42 @@ import type { ChatMessage } from '@/lib/api';
 
 interface ChatTutorProps {
   messages: ChatMessage[];
-  onSendMessage: (message: string) => Promise<void>;
+  onSendMessage?: (message: string) => Promise<void>;
   isLoading?: boolean;
+  // The tutor's reply so far while it streams in
+  streamingReply?: string | null;
+  // Stops the reply in progress
+  onStop?: () => void;
+  // Show the transcript of a past attempt without the message box
+  readOnly?: boolean;
+  suggestedQuestions?: string[];
+  // Longest message the box accepts; a counter appears near the limit
+  maxMessageLength?: number;
   className?: string;
 }
 
+const DEFAULT_SUGGESTED_QUESTIONS = [
+  "How do coordinates map to RGB?",
+  "Why is X connected to Red?",
+  "Can you explain the color space?",
+  "How close was my prediction?",
+];
+
 export function ChatTutor({ 
   messages, 
   onSendMessage, 
   isLoading = false,
+  streamingReply = null,
+  onStop,
+  readOnly = false,
+  suggestedQuestions = DEFAULT_SUGGESTED_QUESTIONS,
+  maxMessageLength,
   className 
 }: ChatTutorProps) {
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const showCounter = maxMessageLength !== undefined && input.length >= maxMessageLength * 0.8;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -28,23 +50,17 @@ export function ChatTutor({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || !onSendMessage) return;
 
     const message = input.trim();
     setInput('');
     await onSendMessage(message);
   };
 
-  const suggestedQuestions = [
-    "How do coordinates map to RGB?",
-    "Why is X connected to Red?",
-    "Can you explain the color space?",
-  ];
-
   return (
     <div className={cn("flex flex-col h-[500px] rounded-xl border border-border bg-card overflow-hidden", className)}>
       {/* Header */}
@@ -54,13 +70,19 @@ export function ChatTutor({
         </div>
         <div>
           <h3 className="font-semibold text-foreground">AI Tutor</h3>
-          <p className="text-xs text-muted-foreground">Ask questions about your results</p>
+          <p className="text-xs text-muted-foreground">
+            {readOnly ? 'Conversation from this attempt' : 'Ask questions about your results'}
+          </p>
         </div>
       </div>
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 ? (
+        {messages.length === 0 && readOnly ? (
+          <p className="text-center text-muted-foreground py-8">
+            No questions were asked in this attempt.
+          </p>
+        ) : messages.length === 0 ? (
           <div className="text-center py-8">
             <Bot className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <p className="text-muted-foreground mb-4">
@@ -122,11 +144,18 @@ export function ChatTutor({
         
         {isLoading && (
           <div className="flex gap-3">
-            <div className="w-8 h-8 rounded-full bg-accent/10 flex items-center justify-center">
+            <div className="w-8 h-8 rounded-full bg-accent/10 flex items-center justify-center shrink-0">
               <Bot className="w-4 h-4 text-accent" />
             </div>
-            <div className="bg-secondary rounded-2xl rounded-bl-md px-4 py-3">
-              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            <div className="max-w-[80%] bg-secondary text-secondary-foreground rounded-2xl rounded-bl-md px-4 py-3">
+              {streamingReply ? (
+                <p className="text-sm whitespace-pre-wrap" aria-live="polite">
+                  {streamingReply}
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+                </p>
+              ) : (
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              )}
             </div>
           </div>
         )}
@@ -135,26 +164,40 @@ export function ChatTutor({
       </div>
 
       {/* Input */}
-      <form onSubmit={handleSubmit} className="p-4 border-t border-border bg-background">
-        <div className="flex gap-2">
-          <Input
-            ref={inputRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder="Ask a question..."
-            disabled={isLoading}
-            className="flex-1"
-            aria-label="Chat message input"
-          />
-          <Button 
-            type="submit" 
-            disabled={!input.trim() || isLoading}
-            size="icon"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
-        </div>
-      </form>
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="p-4 border-t border-border bg-background">
+          <div className="flex gap-2">
+            <Input
+              ref={inputRef}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Ask a question..."
+              disabled={isLoading}
+              maxLength={maxMessageLength}
+              className="flex-1"
+              aria-label="Chat message input"
+            />
+            {isLoading && onStop ? (
+              <Button type="button" variant="outline" size="icon" onClick={onStop} aria-label="Stop reply">
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button 
+                type="submit" 
+                disabled={!input.trim() || isLoading}
+                size="icon"
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          {showCounter && (
+            <p className="text-xs text-muted-foreground text-right mt-1" aria-live="polite">
+              {input.length}/{maxMessageLength}
+            </p>
+          )}
+        </form>
+      )}
     </div>
   );
 }
@@ -0,0 +1,33 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useColorMetric } from '@/context/ColorMetricContext';
+import { COLOR_METRICS, type ColorMetric } from '@shared/color';
+import { cn } from '@/lib/utils';
+
+interface ColorMetricSelectProps {
+  className?: string;
+}
+
+export function ColorMetricSelect({ className }: ColorMetricSelectProps) {
+  const { metric, setMetric } = useColorMetric();
+
+  return (
+    <Select value={metric} onValueChange={(value) => setMetric(value as ColorMetric)}>
+      <SelectTrigger className={cn("w-[180px]", className)} aria-label="Color scoring">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(COLOR_METRICS) as ColorMetric[]).map((key) => (
+          <SelectItem key={key} value={key} title={COLOR_METRICS[key].description}>
+            {COLOR_METRICS[key].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
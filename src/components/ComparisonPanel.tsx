@@ -1,20 +1,27 @@
 import { ArrowRight, Trophy, Target } from 'lucide-react';
 import { RgbSwatch } from '@/components/RgbSwatch';
 import { cn } from '@/lib/utils';
-import { calculateRgbDelta, type RGBColor } from '@/lib/api';
+import { useColorMetric } from '@/context/ColorMetricContext';
+import { COLOR_METRICS, colorAccuracy, colorDifference, gradeColorDifference } from '@shared/color';
+import { HINT_PENALTY, scoreWithHints } from '@/lib/hints';
+import type { RGBColor } from '@/lib/api';
 
 interface ComparisonPanelProps {
   studentRgb: RGBColor;
   aiRgb: RGBColor;
+  // Hints used before predicting; the score drops for each
+  predictHintsUsed?: number;
   className?: string;
 }
 
-export function ComparisonPanel({ studentRgb, aiRgb, className }: ComparisonPanelProps) {
-  const delta = calculateRgbDelta(studentRgb, aiRgb);
-  const accuracy = Math.max(0, 100 - (delta / 4.42)); // 442 is max possible delta (sqrt(3*255^2))
-  
-  const isExcellent = delta < 30;
-  const isGood = delta < 60;
+export function ComparisonPanel({ studentRgb, aiRgb, predictHintsUsed = 0, className }: ComparisonPanelProps) {
+  const { metric } = useColorMetric();
+  const delta = colorDifference(studentRgb, aiRgb, metric);
+  const accuracy = colorAccuracy(delta, metric);
+  const grade = gradeColorDifference(delta, metric);
+
+  const isExcellent = grade === 'excellent';
+  const isGood = grade !== 'off';
 
   return (
     <div className={cn("rounded-xl border border-border bg-card p-6", className)}>
@@ -51,11 +58,11 @@ export function ComparisonPanel({ studentRgb, aiRgb, className }: ComparisonPane
           ) : (
             <Target className="w-7 h-7" />
           )}
-          <span>Δ = {delta.toFixed(1)}</span>
+          <span>{COLOR_METRICS[metric].symbol} = {delta.toFixed(1)}</span>
         </div>
         
         <p className="text-muted-foreground">
-          Color distance (lower is better)
+          {COLOR_METRICS[metric].label}: how different the colors look (lower is better)
         </p>
       </div>
 
@@ -84,6 +91,17 @@ export function ComparisonPanel({ studentRgb, aiRgb, className }: ComparisonPane
             style={{ width: `${accuracy}%` }}
           />
         </div>
+
+        {predictHintsUsed > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              Score with {predictHintsUsed} hint{predictHintsUsed === 1 ? '' : 's'} (−{predictHintsUsed * HINT_PENALTY})
+            </span>
+            <span className="font-bold text-lg text-foreground">
+              {scoreWithHints(accuracy, predictHintsUsed).toFixed(1)}%
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Feedback Message */}
@@ -0,0 +1,24 @@
+import type { RobotCoordinates } from '@/lib/api';
+
+interface CoordinateRowProps {
+  label: string;
+  coords: RobotCoordinates | null;
+}
+
+// One labelled X/Y/Z reading, or "Not recorded"
+export function CoordinateRow({ label, coords }: CoordinateRowProps) {
+  return (
+    <div className="flex items-center justify-between py-2">
+      <span className="text-sm text-muted-foreground">{label}</span>
+      {coords ? (
+        <div className="flex gap-3 text-sm font-mono">
+          <span className="text-destructive">X:{coords.x}</span>
+          <span className="text-accent">Y:{coords.y}</span>
+          <span className="text-primary">Z:{coords.z}</span>
+        </div>
+      ) : (
+        <span className="text-sm text-muted-foreground">Not recorded</span>
+      )}
+    </div>
+  );
+}
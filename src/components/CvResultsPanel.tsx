@@ -1,43 +1,115 @@
-import { Check, AlertCircle, Eye } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, AlertCircle, Eye, ImageOff, Maximize2 } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
+import { DetectionBoxes } from '@/components/DetectionBoxes';
+import { DrawingZoomDialog } from '@/components/DrawingZoomDialog';
+import { PositionComparison } from '@/components/PositionComparison';
+import { useDrawingUrl } from '@/hooks/use-drawing-url';
+import { containRect, getBoxLabel, type Size } from '@/lib/imageBoxes';
 import { cn } from '@/lib/utils';
 import type { CVResult } from '@/lib/api';
 
 interface CvResultsPanelProps {
   result: CVResult;
+  // URL or stored drawing reference
   imageUrl: string;
+  // Accuracy the teacher requires to continue, if any
+  requiredAccuracy?: number;
   className?: string;
 }
 
-export function CvResultsPanel({ result, imageUrl, className }: CvResultsPanelProps) {
-  const isGoodAccuracy = result.accuracy >= 80;
+function getStatusMessage(isGoodAccuracy: boolean, requiredAccuracy?: number): string {
+  if (requiredAccuracy) {
+    return isGoodAccuracy
+      ? `Your drawing reaches the ${requiredAccuracy}% accuracy your teacher asked for. You can proceed to the next step.`
+      : `Your teacher asks for at least ${requiredAccuracy}% accuracy. Redraw the scene and try again.`;
+  }
+  return isGoodAccuracy
+    ? "Your drawing accurately represents the 3D scene. You can proceed to the next step."
+    : "Try to include all elements of the 3D scene clearly. You can continue or redraw it.";
+}
+
+export function CvResultsPanel({ result, imageUrl, requiredAccuracy, className }: CvResultsPanelProps) {
+  const isGoodAccuracy = result.accuracy >= (requiredAccuracy || 80);
   const isGoodConfidence = result.confidence >= 75;
+  const { estimatedPosition, positionError } = result;
+  const drawing = useDrawingUrl(imageUrl);
+
+  const imageAreaRef = useRef<HTMLDivElement>(null);
+  const [areaSize, setAreaSize] = useState<Size | null>(null);
+  // Natural size from the image itself, for results that don't carry it
+  const [loadedSize, setLoadedSize] = useState<Size | null>(null);
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [isZoomOpen, setIsZoomOpen] = useState(false);
+
+  const imageSize = useMemo<Size | null>(
+    () => result.imageWidth && result.imageHeight
+      ? { width: result.imageWidth, height: result.imageHeight }
+      : loadedSize,
+    [result.imageWidth, result.imageHeight, loadedSize]
+  );
+
+  // The image is letterboxed, so boxes follow its displayed area rather than the container
+  useEffect(() => {
+    const area = imageAreaRef.current;
+    if (!area) return;
+    const measure = () => setAreaSize({ width: area.clientWidth, height: area.clientHeight });
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(area);
+    return () => observer.disconnect();
+  }, []);
+
+  const imageRect = imageSize && areaSize ? containRect(imageSize, areaSize) : null;
 
   return (
     <div className={cn("rounded-xl border border-border bg-card overflow-hidden", className)}>
       {/* Image with overlay */}
-      <div className="relative">
-        <img
-          src={imageUrl}
-          alt="Analyzed drawing"
-          className="w-full h-48 object-contain bg-muted/50"
-        />
-        
-        {/* Bounding box overlay (simplified visualization) */}
-        <div className="absolute inset-0 pointer-events-none">
-          {result.boundingBoxes.map((box, i) => (
-            <div
-              key={i}
-              className="absolute border-2 border-primary rounded"
-              style={{
-                left: `${(box.x / 400) * 100}%`,
-                top: `${(box.y / 300) * 100}%`,
-                width: `${(box.width / 400) * 100}%`,
-                height: `${(box.height / 300) * 100}%`,
-              }}
-            />
-          ))}
-        </div>
+      <div ref={imageAreaRef} className="relative h-48 bg-muted/50">
+        {drawing.src && (
+          <img
+            src={drawing.src}
+            alt="Analyzed drawing"
+            className="w-full h-full object-contain"
+            onLoad={(e) => setLoadedSize({
+              width: e.currentTarget.naturalWidth,
+              height: e.currentTarget.naturalHeight,
+            })}
+          />
+        )}
+        {drawing.status === 'missing' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-sm text-muted-foreground">
+            <ImageOff className="w-6 h-6" />
+            This drawing is no longer stored
+          </div>
+        )}
+
+        {drawing.src && imageRect && (
+          <DetectionBoxes
+            result={result}
+            highlighted={highlighted}
+            onHighlight={setHighlighted}
+            className="overflow-hidden"
+            style={{
+              left: imageRect.left,
+              top: imageRect.top,
+              width: imageRect.width,
+              height: imageRect.height,
+            }}
+          />
+        )}
+
+        {drawing.src && (
+          <button
+            type="button"
+            className="absolute bottom-3 right-3 flex items-center gap-1.5 px-2.5 py-1.5 rounded-md bg-background/90 border border-border text-xs font-medium text-foreground hover:bg-background"
+            onClick={() => setIsZoomOpen(true)}
+          >
+            <Maximize2 className="w-3.5 h-3.5" />
+            View Full Size
+          </button>
+        )}
 
         {/* Status badge */}
         <div className={cn(
@@ -91,18 +163,53 @@ export function CvResultsPanel({ result, imageUrl, className }: CvResultsPanelPr
         <div>
           <span className="text-sm font-medium text-foreground block mb-3">Detected Objects</span>
           <div className="flex flex-wrap gap-2">
-            {result.detectedObjects.map((obj, i) => (
-              <span
-                key={i}
-                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-secondary text-secondary-foreground text-sm font-medium"
-              >
-                <Check className="w-3.5 h-3.5 text-accent" />
-                {obj}
+            {result.detectedObjects.map((obj, i) => {
+              const boxIndex = result.boundingBoxes.findIndex((_, b) => getBoxLabel(result, b) === obj);
+              return (
+                <span
+                  key={i}
+                  className={cn(
+                    "inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-secondary text-secondary-foreground text-sm font-medium transition-shadow",
+                    boxIndex >= 0 && highlighted === boxIndex && "ring-2 ring-primary"
+                  )}
+                  onMouseEnter={() => boxIndex >= 0 && setHighlighted(boxIndex)}
+                  onMouseLeave={() => setHighlighted(null)}
+                >
+                  <Check className="w-3.5 h-3.5 text-accent" />
+                  {obj}
+                  {obj === 'robot' && result.markerColor && (
+                    <span
+                      className="w-3.5 h-3.5 rounded-full border border-border"
+                      style={{ backgroundColor: `rgb(${result.markerColor.r}, ${result.markerColor.g}, ${result.markerColor.b})` }}
+                      title="Color of the drawn robot"
+                    />
+                  )}
+                </span>
+              );
+            })}
+            {result.detectedObjects.length === 0 && (
+              <span className="text-sm text-muted-foreground">
+                No cube or robot found. Draw the cube with dark lines and the robot in color.
               </span>
-            ))}
+            )}
           </div>
         </div>
 
+        {/* Drawn vs. real robot position */}
+        {estimatedPosition && positionError && (
+          <div>
+            <span className="text-sm font-medium text-foreground block mb-3">Robot Position in Your Drawing</span>
+            <PositionComparison
+              actual={{
+                x: estimatedPosition.x - positionError.x,
+                y: estimatedPosition.y - positionError.y,
+                z: estimatedPosition.z - positionError.z,
+              }}
+              sketch={estimatedPosition}
+            />
+          </div>
+        )}
+
         {/* Status message */}
         <div className={cn(
           "flex items-start gap-3 p-4 rounded-lg",
@@ -121,13 +228,21 @@ export function CvResultsPanel({ result, imageUrl, className }: CvResultsPanelPr
               {isGoodAccuracy ? "Great drawing!" : "Drawing needs improvement"}
             </p>
             <p className="text-sm text-muted-foreground mt-1">
-              {isGoodAccuracy 
-                ? "Your drawing accurately represents the 3D scene. You can proceed to the next step."
-                : "Try to include all elements of the 3D scene clearly. You can continue or try again."}
+              {getStatusMessage(isGoodAccuracy, requiredAccuracy)}
             </p>
           </div>
         </div>
       </div>
+
+      <DrawingZoomDialog
+        open={isZoomOpen}
+        onOpenChange={setIsZoomOpen}
+        result={result}
+        imageUrl={drawing.src ?? ''}
+        imageSize={imageSize}
+        highlighted={highlighted}
+        onHighlight={setHighlighted}
+      />
     </div>
   );
 }
@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useColorMetric } from '@/context/ColorMetricContext';
+import { COLOR_METRICS } from '@shared/color';
+import {
+  ACCURACY_BANDS,
+  EMPTY_DASHBOARD_FILTERS,
+  type AccuracyBand,
+  type DashboardFilters as Filters,
+} from '@/lib/dashboardQuery';
+import type { DashboardStudent } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+// Typing waits this long before the results are fetched again
+const TYPING_DELAY_MS = 300;
+
+// Select items can't have an empty value
+const ALL_STUDENTS = '__all__';
+
+interface DashboardFiltersProps {
+  filters: Filters;
+  students: DashboardStudent[];
+  onChange: (filters: Filters) => void;
+  className?: string;
+}
+
+export function DashboardFilters({ filters, students, onChange, className }: DashboardFiltersProps) {
+  const { metric } = useColorMetric();
+  const [search, setSearch] = useState(filters.search);
+  const [minDelta, setMinDelta] = useState(filters.minDelta);
+
+  // Follow outside changes, e.g. clearing the filters
+  useEffect(() => setSearch(filters.search), [filters.search]);
+  useEffect(() => setMinDelta(filters.minDelta), [filters.minDelta]);
+
+  useEffect(() => {
+    if (search === filters.search && minDelta === filters.minDelta) return;
+    const timer = setTimeout(() => onChange({ ...filters, search, minDelta }), TYPING_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search, minDelta, filters, onChange]);
+
+  const update = (changes: Partial<Filters>) => onChange({ ...filters, search, minDelta, ...changes });
+  const isFiltered = JSON.stringify({ ...filters, search, minDelta }) !== JSON.stringify(EMPTY_DASHBOARD_FILTERS);
+
+  return (
+    <div className={cn("rounded-xl border border-border bg-card p-4", className)}>
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6 items-end">
+        <div className="space-y-2 lg:col-span-2">
+          <Label htmlFor="dashboard-search">Search</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              id="dashboard-search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Student name or date (2024-09-30)"
+              className="pl-9"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Student</Label>
+          <Select
+            value={filters.student || ALL_STUDENTS}
+            onValueChange={(value) => update({ student: value === ALL_STUDENTS ? '' : value })}
+          >
+            <SelectTrigger aria-label="Student">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STUDENTS}>All students</SelectItem>
+              {students.map((student) => (
+                <SelectItem key={student.id} value={student.id}>
+                  {student.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>CV accuracy</Label>
+          <Select
+            value={filters.accuracyBand}
+            onValueChange={(value) => update({ accuracyBand: value as AccuracyBand })}
+          >
+            <SelectTrigger aria-label="CV accuracy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACCURACY_BANDS) as AccuracyBand[]).map((band) => (
+                <SelectItem key={band} value={band}>
+                  {ACCURACY_BANDS[band].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2 lg:col-span-2">
+          <Label htmlFor="dashboard-from">Date range</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="dashboard-from"
+              type="date"
+              value={filters.fromDate}
+              max={filters.toDate || undefined}
+              onChange={(e) => update({ fromDate: e.target.value })}
+              aria-label="From date"
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={filters.toDate}
+              min={filters.fromDate || undefined}
+              onChange={(e) => update({ toDate: e.target.value })}
+              aria-label="To date"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dashboard-delta">{COLOR_METRICS[metric].label} at least</Label>
+          <Input
+            id="dashboard-delta"
+            type="number"
+            min={0}
+            step={metric === 'rgb' ? 5 : 1}
+            value={minDelta}
+            onChange={(e) => setMinDelta(e.target.value)}
+            placeholder="Any"
+          />
+        </div>
+
+        <div className="lg:col-span-5 flex justify-end">
+          {isFiltered && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSearch('');
+                setMinDelta('');
+                onChange(EMPTY_DASHBOARD_FILTERS);
+              }}
+            >
+              <X className="w-4 h-4 mr-2" />
+              Clear Filters
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,14 @@
-import { Download, ArrowUpDown } from 'lucide-react';
+import { useState, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { Download, ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -9,19 +18,97 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { RgbSwatch } from '@/components/RgbSwatch';
+import { toast } from '@/components/ui/sonner';
+import { useColorMetric } from '@/context/ColorMetricContext';
+import { COLOR_METRICS, colorAccuracy, colorDifference, gradeColorDifference, type ColorMetric } from '@shared/color';
+import { scoreWithHints } from '@/lib/hints';
 import { cn } from '@/lib/utils';
-import type { SessionResult } from '@/lib/api';
+import { getApiErrorMessage, type DashboardSortKey, type SessionResult, type SortOrder } from '@/lib/api';
+
+const PAGE_SIZES = [10, 20, 50];
 
 interface DashboardTableProps {
-  data: SessionResult[];
+  // One page of the matching sessions
+  rows: SessionResult[];
+  // Matching sessions on every page
+  total: number;
+  page: number;
+  pageSize: number;
+  sort: DashboardSortKey;
+  order: SortOrder;
+  onSort: (sort: DashboardSortKey) => void;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+  // Every matching session, for the CSV export
+  loadAllRows: () => Promise<SessionResult[]>;
+  isLoading?: boolean;
+  className?: string;
+}
+
+interface SortableHeadProps {
+  column: DashboardSortKey;
+  sort: DashboardSortKey;
+  order: SortOrder;
+  onSort: (sort: DashboardSortKey) => void;
   className?: string;
+  children: ReactNode;
+}
+
+function SortableHead({ column, sort, order, onSort, className, children }: SortableHeadProps) {
+  const active = column === sort;
+  const Icon = !active ? ArrowUpDown : order === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead
+      className={className}
+      aria-sort={active ? (order === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(column)}
+        className={cn(
+          "inline-flex items-center gap-1 hover:text-foreground transition-colors",
+          active && "text-foreground",
+        )}
+      >
+        {children}
+        <Icon className={cn("w-3 h-3", !active && "opacity-50")} />
+      </button>
+    </TableHead>
+  );
 }
 
-export function DashboardTable({ data, className }: DashboardTableProps) {
-  const exportToCsv = () => {
+export function DashboardTable({
+  rows,
+  total,
+  page,
+  pageSize,
+  sort,
+  order,
+  onSort,
+  onPageChange,
+  onPageSizeChange,
+  loadAllRows,
+  isLoading = false,
+  className,
+}: DashboardTableProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { metric } = useColorMetric();
+  const metricInfo = COLOR_METRICS[metric];
+  const differenceOf = (row: SessionResult) => colorDifference(row.studentRgb, row.aiRgb, metric);
+  // Prediction accuracy less the points lost to hints
+  const scoreOf = (row: SessionResult) => scoreWithHints(colorAccuracy(differenceOf(row), metric), row.predictHintsUsed);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(total, page * pageSize);
+  const sortProps = { sort, order, onSort };
+
+  const downloadCsv = (data: SessionResult[]) => {
     const headers = ['Student', 'Date', 'Robot X', 'Robot Y', 'Robot Z', 'CV Accuracy', 'Student RGB', 'AI RGB', 'RGB Delta'];
+    if (metric !== 'rgb') headers.push(metricInfo.label);
+    headers.push('Predict Hints', 'Score');
     const rows = data.map(row => [
-      row.studentId,
+      row.studentName,
       row.date.toLocaleDateString(),
       row.robotCoordinates.x,
       row.robotCoordinates.y,
@@ -30,6 +117,9 @@ export function DashboardTable({ data, className }: DashboardTableProps) {
       `${row.studentRgb.r},${row.studentRgb.g},${row.studentRgb.b}`,
       `${row.aiRgb.r},${row.aiRgb.g},${row.aiRgb.b}`,
       row.rgbDelta.toFixed(1),
+      ...(metric !== 'rgb' ? [differenceOf(row).toFixed(1)] : []),
+      row.predictHintsUsed,
+      scoreOf(row).toFixed(1),
     ]);
 
     const csv = [headers, ...rows].map(row => row.join(',')).join('\n');
@@ -42,15 +132,28 @@ export function DashboardTable({ data, className }: DashboardTableProps) {
     URL.revokeObjectURL(url);
   };
 
+  // Exports every session that matches the filters, not just this page
+  const exportToCsv = async () => {
+    setIsExporting(true);
+    try {
+      downloadCsv(await loadAllRows());
+    } catch (error) {
+      toast.error('Could not export the results', { description: getApiErrorMessage(error) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const getAccuracyColor = (value: number) => {
     if (value >= 90) return 'text-accent';
     if (value >= 75) return 'text-warning';
     return 'text-destructive';
   };
 
-  const getDeltaColor = (value: number) => {
-    if (value < 30) return 'text-accent';
-    if (value < 60) return 'text-warning';
+  const getDeltaColor = (value: number, scale: ColorMetric) => {
+    const grade = gradeColorDifference(value, scale);
+    if (grade === 'excellent') return 'text-accent';
+    if (grade === 'good') return 'text-warning';
     return 'text-destructive';
   };
 
@@ -59,9 +162,11 @@ export function DashboardTable({ data, className }: DashboardTableProps) {
       <div className="flex items-center justify-between p-4 border-b border-border">
         <div>
           <h3 className="font-semibold text-foreground">Student Results</h3>
-          <p className="text-sm text-muted-foreground">{data.length} sessions recorded</p>
+          <p className="text-sm text-muted-foreground">
+            {total} {total === 1 ? 'session matches' : 'sessions match'}
+          </p>
         </div>
-        <Button variant="outline" onClick={exportToCsv}>
+        <Button variant="outline" onClick={exportToCsv} disabled={isExporting || total === 0}>
           <Download className="w-4 h-4 mr-2" />
           Export CSV
         </Button>
@@ -71,24 +176,39 @@ export function DashboardTable({ data, className }: DashboardTableProps) {
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead className="w-[120px]">
-                <button className="flex items-center gap-1 hover:text-foreground transition-colors">
-                  Student
-                  <ArrowUpDown className="w-3 h-3" />
-                </button>
-              </TableHead>
-              <TableHead>Date</TableHead>
+              <SortableHead column="studentName" className="w-[120px]" {...sortProps}>
+                Student
+              </SortableHead>
+              <SortableHead column="date" {...sortProps}>
+                Date
+              </SortableHead>
               <TableHead>Robot Position</TableHead>
-              <TableHead className="text-center">CV Accuracy</TableHead>
+              <SortableHead column="cvAccuracy" className="text-center" {...sortProps}>
+                CV Accuracy
+              </SortableHead>
               <TableHead className="text-center">Student Color</TableHead>
               <TableHead className="text-center">AI Color</TableHead>
-              <TableHead className="text-center">RGB Delta</TableHead>
+              {metric !== 'rgb' && <TableHead className="text-center">RGB Delta</TableHead>}
+              <SortableHead column="colorDifference" className="text-center" {...sortProps}>
+                {metricInfo.label}
+              </SortableHead>
+              <SortableHead column="predictHintsUsed" className="text-center" {...sortProps}>
+                Predict Hints
+              </SortableHead>
+              <TableHead className="text-center">Score</TableHead>
             </TableRow>
           </TableHeader>
-          <TableBody>
-            {data.map((row, i) => (
-              <TableRow key={i}>
-                <TableCell className="font-medium">{row.studentId}</TableCell>
+          <TableBody className={cn(isLoading && "opacity-50")}>
+            {rows.map((row) => (
+              <TableRow key={`${row.studentId}-${row.date.toISOString()}`}>
+                <TableCell className="font-medium">
+                  <Link
+                    to={`/dashboard/student/${encodeURIComponent(row.studentId)}`}
+                    className="hover:text-primary hover:underline"
+                  >
+                    {row.studentName}
+                  </Link>
+                </TableCell>
                 <TableCell className="text-muted-foreground">
                   {row.date.toLocaleDateString()}
                 </TableCell>
@@ -114,9 +234,22 @@ export function DashboardTable({ data, className }: DashboardTableProps) {
                     <RgbSwatch rgb={row.aiRgb} showValues={false} size="sm" />
                   </div>
                 </TableCell>
-                <TableCell className="text-center">
-                  <span className={cn("font-semibold font-mono", getDeltaColor(row.rgbDelta))}>
+                {metric !== 'rgb' && (
+                  <TableCell className="text-center font-mono text-muted-foreground">
                     {row.rgbDelta.toFixed(1)}
+                  </TableCell>
+                )}
+                <TableCell className="text-center">
+                  <span className={cn("font-semibold font-mono", getDeltaColor(differenceOf(row), metric))}>
+                    {differenceOf(row).toFixed(1)}
+                  </span>
+                </TableCell>
+                <TableCell className="text-center font-mono text-muted-foreground">
+                  {row.predictHintsUsed}
+                </TableCell>
+                <TableCell className="text-center">
+                  <span className={cn("font-semibold", getAccuracyColor(scoreOf(row)))}>
+                    {scoreOf(row).toFixed(1)}%
                   </span>
                 </TableCell>
               </TableRow>
@@ -124,6 +257,51 @@ export function DashboardTable({ data, className }: DashboardTableProps) {
           </TableBody>
         </Table>
       </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 p-4 border-t border-border text-sm">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <span>Rows per page</span>
+          <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+            <SelectTrigger className="w-[72px] h-8" aria-label="Rows per page">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-muted-foreground">
+            {first}–{last} of {total} · Page {page} of {pageCount}
+          </span>
+          <div className="flex gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onPageChange(page - 1)}
+              disabled={isLoading || page <= 1}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onPageChange(page + 1)}
+              disabled={isLoading || page >= pageCount}
+              aria-label="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,67 @@
+import type { CSSProperties } from 'react';
+import type { CVResult } from '@/lib/api';
+import { boxToPercent, getBoxFrame, getBoxLabel } from '@/lib/imageBoxes';
+import { cn } from '@/lib/utils';
+
+const LABEL_COLORS: Record<string, { border: string; tag: string }> = {
+  cube: { border: 'border-primary', tag: 'bg-primary text-primary-foreground' },
+  robot: { border: 'border-destructive', tag: 'bg-destructive text-destructive-foreground' },
+};
+
+const DEFAULT_COLORS = { border: 'border-accent', tag: 'bg-accent text-accent-foreground' };
+
+interface DetectionBoxesProps {
+  result: CVResult;
+  // Index of the box to emphasise, if any
+  highlighted: number | null;
+  onHighlight: (index: number | null) => void;
+  className?: string;
+  style?: CSSProperties;
+}
+
+// Labelled boxes for a CV result. Place it so it exactly covers the displayed
+// image; boxes are positioned as percentages of that area.
+export function DetectionBoxes({ result, highlighted, onHighlight, className, style }: DetectionBoxesProps) {
+  const frame = getBoxFrame(result);
+
+  return (
+    <div className={cn("absolute pointer-events-none", className)} style={style}>
+      {result.boundingBoxes.map((box, i) => {
+        const label = getBoxLabel(result, i);
+        const colors = LABEL_COLORS[label] ?? DEFAULT_COLORS;
+        const rect = boxToPercent(box, frame);
+        const isHighlighted = highlighted === i;
+        const isDimmed = highlighted !== null && !isHighlighted;
+
+        return (
+          <div
+            key={i}
+            className={cn(
+              "absolute border-2 rounded pointer-events-auto transition-all",
+              colors.border,
+              isHighlighted && "border-[3px] bg-foreground/10 z-10",
+              isDimmed && "opacity-40"
+            )}
+            style={{
+              left: `${rect.left}%`,
+              top: `${rect.top}%`,
+              width: `${rect.width}%`,
+              height: `${rect.height}%`,
+            }}
+            onMouseEnter={() => onHighlight(i)}
+            onMouseLeave={() => onHighlight(null)}
+          >
+            <span
+              className={cn(
+                "absolute left-0 top-0 px-1.5 py-0.5 rounded-br text-[10px] font-medium leading-none whitespace-nowrap",
+                colors.tag
+              )}
+            >
+              {label}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { ImageOff, Star } from 'lucide-react';
+import type { DrawingAttempt } from '@/context/SessionContext';
+import { useDrawingUrl } from '@/hooks/use-drawing-url';
+import { cn } from '@/lib/utils';
+
+interface DrawingAttemptHistoryProps {
+  attempts: DrawingAttempt[];
+  // Accuracy needed to pass, marked on each attempt when set
+  requiredAccuracy?: number;
+  className?: string;
+}
+
+function AttemptThumbnail({ imageUrl, number }: { imageUrl: string; number: number }) {
+  const thumbnail = useDrawingUrl(imageUrl, 'thumbnail');
+  // Drawings from before they were stored on the device can't be shown
+  const [failed, setFailed] = useState(false);
+  const frame = "w-12 h-9 rounded border border-border bg-muted/50";
+
+  if (thumbnail.status === 'missing' || failed) {
+    return (
+      <span className={cn(frame, "flex items-center justify-center text-muted-foreground")} title="Drawing not stored">
+        <ImageOff className="w-4 h-4" />
+      </span>
+    );
+  }
+  return thumbnail.src ? (
+    <img
+      src={thumbnail.src}
+      alt={`Drawing for attempt ${number}`}
+      className={cn(frame, "object-contain")}
+      onError={() => setFailed(true)}
+    />
+  ) : (
+    <span className={frame} />
+  );
+}
+
+// Every drawing the student had analysed, newest first, with the best marked
+export function DrawingAttemptHistory({ attempts, requiredAccuracy, className }: DrawingAttemptHistoryProps) {
+  if (attempts.length === 0) return null;
+
+  const best = attempts.reduce((top, attempt) => (attempt.accuracy > top.accuracy ? attempt : top));
+  const newestFirst = attempts.map((attempt, i) => ({ attempt, number: i + 1 })).reverse();
+
+  return (
+    <div className={cn("rounded-xl border border-border bg-card p-4", className)}>
+      <h2 className="font-display font-semibold text-foreground mb-3">
+        Your Attempts
+      </h2>
+      <ol className="space-y-2">
+        {newestFirst.map(({ attempt, number }) => {
+          const passed = requiredAccuracy ? attempt.accuracy >= requiredAccuracy : null;
+          return (
+            <li key={number} className="flex items-center gap-3">
+              <AttemptThumbnail imageUrl={attempt.imageUrl} number={number} />
+              <span className="text-sm font-medium text-foreground">Attempt {number}</span>
+              {attempt === best && attempts.length > 1 && (
+                <span className="inline-flex items-center gap-1 text-xs text-primary">
+                  <Star className="w-3 h-3" />
+                  Best
+                </span>
+              )}
+              <span className="text-xs text-muted-foreground hidden sm:inline">
+                {attempt.analyzedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <span
+                className={cn(
+                  "ml-auto font-mono text-sm font-semibold",
+                  passed === false ? "text-warning" : "text-accent"
+                )}
+              >
+                {attempt.accuracy.toFixed(1)}%
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+      {requiredAccuracy ? (
+        <p className="text-xs text-muted-foreground mt-3">
+          Your teacher asks for at least {requiredAccuracy}% accuracy.
+        </p>
+      ) : null}
+    </div>
+  );
+}
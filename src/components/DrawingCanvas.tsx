@@ -0,0 +1,344 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Eraser, Grid3x3, Loader2, Pen, Redo2, Send, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+
+// Drawing surface size in canvas pixels; the element scales it to fit
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+
+const PEN_COLORS = [
+  { name: 'Black', value: '#0f172a' },
+  { name: 'Red', value: '#ef4444' },
+  { name: 'Green', value: '#22c55e' },
+  { name: 'Blue', value: '#3b82f6' },
+  { name: 'Orange', value: '#f97316' },
+  { name: 'Purple', value: '#a855f7' },
+];
+
+const BRUSH_SIZES = [
+  { name: 'Thin', value: 3 },
+  { name: 'Medium', value: 6 },
+  { name: 'Thick', value: 12 },
+];
+
+type Tool = 'pen' | 'eraser';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Stroke {
+  tool: Tool;
+  color: string;
+  size: number;
+  points: Point[];
+}
+
+interface DrawingCanvasProps {
+  // Receives the finished drawing as a PNG, like a file picked from disk
+  onSubmit: (file: File) => Promise<void>;
+  className?: string;
+}
+
+function drawStroke(ctx: CanvasRenderingContext2D, stroke: Stroke) {
+  const [first, ...rest] = stroke.points;
+  if (!first) return;
+
+  ctx.save();
+  ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+  ctx.strokeStyle = stroke.color;
+  ctx.fillStyle = stroke.color;
+  ctx.lineWidth = stroke.tool === 'eraser' ? stroke.size * 3 : stroke.size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (rest.length === 0) {
+    // A tap leaves a dot
+    ctx.beginPath();
+    ctx.arc(first.x, first.y, ctx.lineWidth / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    ctx.beginPath();
+    ctx.moveTo(first.x, first.y);
+    rest.forEach((p) => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+// Squared paper with a 3D axis guide from the lower-left corner. It sits under
+// the drawing and is not part of the exported image.
+function drawUnderlay(ctx: CanvasRenderingContext2D) {
+  const cell = 40;
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.strokeStyle = '#e2e8f0';
+  ctx.lineWidth = 1;
+  for (let x = cell; x < CANVAS_WIDTH; x += cell) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, CANVAS_HEIGHT);
+    ctx.stroke();
+  }
+  for (let y = cell; y < CANVAS_HEIGHT; y += cell) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(CANVAS_WIDTH, y);
+    ctx.stroke();
+  }
+
+  const origin = { x: 160, y: 480 };
+  const axes = [
+    { label: 'X', color: '#fca5a5', to: { x: 600, y: 480 } },
+    { label: 'Y', color: '#86efac', to: { x: 160, y: 80 } },
+    { label: 'Z', color: '#93c5fd', to: { x: 40, y: 580 } },
+  ];
+  ctx.lineWidth = 2;
+  ctx.font = 'bold 20px sans-serif';
+  axes.forEach(({ label, color, to }) => {
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    ctx.moveTo(origin.x, origin.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.fillText(label, to.x + 8, to.y + (label === 'Y' ? 0 : -8));
+  });
+}
+
+export function DrawingCanvas({ onSubmit, className }: DrawingCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const underlayRef = useRef<HTMLCanvasElement>(null);
+  const currentStroke = useRef<Stroke | null>(null);
+
+  const [tool, setTool] = useState<Tool>('pen');
+  const [color, setColor] = useState(PEN_COLORS[0].value);
+  const [size, setSize] = useState(BRUSH_SIZES[1].value);
+  const [showGrid, setShowGrid] = useState(true);
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [undone, setUndone] = useState<Stroke[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Redraw everything whenever the stroke history changes (draw, undo, redo, clear)
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    strokes.forEach((stroke) => drawStroke(ctx, stroke));
+  }, [strokes]);
+
+  useEffect(() => {
+    const ctx = underlayRef.current?.getContext('2d');
+    if (ctx) drawUnderlay(ctx);
+  }, []);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    currentStroke.current = { tool, color, size, points: [toCanvasPoint(e)] };
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawStroke(ctx, currentStroke.current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStroke.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!stroke || !ctx) return;
+
+    // Draw only the new segment; the full redraw happens when the stroke ends
+    const previous = stroke.points[stroke.points.length - 1];
+    const point = toCanvasPoint(e);
+    stroke.points.push(point);
+    drawStroke(ctx, { ...stroke, points: [previous, point] });
+  };
+
+  const handlePointerUp = () => {
+    const stroke = currentStroke.current;
+    if (!stroke) return;
+    currentStroke.current = null;
+    setStrokes((prev) => [...prev, stroke]);
+    setUndone([]);
+    setError(null);
+  };
+
+  const handleUndo = useCallback(() => {
+    if (strokes.length === 0) return;
+    setUndone((prev) => [...prev, strokes[strokes.length - 1]]);
+    setStrokes(strokes.slice(0, -1));
+  }, [strokes]);
+
+  const handleRedo = useCallback(() => {
+    if (undone.length === 0) return;
+    setStrokes((prev) => [...prev, undone[undone.length - 1]]);
+    setUndone(undone.slice(0, -1));
+  }, [undone]);
+
+  const handleClear = () => {
+    setStrokes([]);
+    setUndone([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+    e.preventDefault();
+    if (e.shiftKey) handleRedo();
+    else handleUndo();
+  };
+
+  // Flatten the strokes onto white paper and hand them over as a PNG file
+  const handleSubmit = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const paper = document.createElement('canvas');
+    paper.width = CANVAS_WIDTH;
+    paper.height = CANVAS_HEIGHT;
+    const ctx = paper.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.drawImage(canvas, 0, 0);
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const blob = await new Promise<Blob | null>((resolve) => paper.toBlob(resolve, 'image/png'));
+      if (!blob) {
+        throw new Error('Could not save the drawing. Please try again.');
+      }
+      await onSubmit(new File([blob], `drawing-${Date.now()}.png`, { type: 'image/png' }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={cn("space-y-3", className)} onKeyDown={handleKeyDown}>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup
+          type="single"
+          value={tool}
+          onValueChange={(value) => value && setTool(value as Tool)}
+          aria-label="Drawing tool"
+        >
+          <ToggleGroupItem value="pen" size="sm" aria-label="Pen">
+            <Pen className="w-4 h-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="eraser" size="sm" aria-label="Eraser">
+            <Eraser className="w-4 h-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        <div className="flex items-center gap-1" role="radiogroup" aria-label="Pen color">
+          {PEN_COLORS.map(({ name, value }) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={color === value}
+              aria-label={name}
+              title={name}
+              onClick={() => {
+                setColor(value);
+                setTool('pen');
+              }}
+              className={cn(
+                "w-6 h-6 rounded-full border-2 transition-transform",
+                color === value && tool === 'pen' ? "border-primary scale-110" : "border-border"
+              )}
+              style={{ backgroundColor: value }}
+            />
+          ))}
+        </div>
+
+        <ToggleGroup
+          type="single"
+          value={String(size)}
+          onValueChange={(value) => value && setSize(Number(value))}
+          aria-label="Brush size"
+        >
+          {BRUSH_SIZES.map(({ name, value }) => (
+            <ToggleGroupItem key={value} value={String(value)} size="sm" aria-label={name} title={name}>
+              <span className="rounded-full bg-foreground" style={{ width: value, height: value }} />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <div className="flex items-center gap-1 ml-auto">
+          <Button
+            variant={showGrid ? 'secondary' : 'ghost'}
+            size="icon"
+            onClick={() => setShowGrid(!showGrid)}
+            aria-label={showGrid ? 'Hide grid' : 'Show grid'}
+            aria-pressed={showGrid}
+          >
+            <Grid3x3 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleUndo} disabled={strokes.length === 0} aria-label="Undo">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleRedo} disabled={undone.length === 0} aria-label="Redo">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleClear} disabled={strokes.length === 0} aria-label="Clear drawing">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Paper */}
+      <div className="relative rounded-xl overflow-hidden border-2 border-border bg-white aspect-[4/3]">
+        <canvas
+          ref={underlayRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className={cn("absolute inset-0 w-full h-full", !showGrid && "invisible")}
+          aria-hidden="true"
+        />
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className={cn("absolute inset-0 w-full h-full touch-none", tool === 'eraser' ? "cursor-cell" : "cursor-crosshair")}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          tabIndex={0}
+          aria-label="Drawing area"
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button className="w-full" onClick={handleSubmit} disabled={strokes.length === 0 || isSubmitting}>
+        {isSubmitting ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Uploading...
+          </>
+        ) : (
+          <>
+            <Send className="w-4 h-4 mr-2" />
+            Use This Drawing
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DetectionBoxes } from '@/components/DetectionBoxes';
+import type { CVResult } from '@/lib/api';
+import type { Size } from '@/lib/imageBoxes';
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.5;
+
+interface DrawingZoomDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  result: CVResult;
+  imageUrl: string;
+  // Natural size of the image; the view waits for it before sizing
+  imageSize: Size | null;
+  highlighted: number | null;
+  onHighlight: (index: number | null) => void;
+}
+
+export function DrawingZoomDialog({
+  open,
+  onOpenChange,
+  result,
+  imageUrl,
+  imageSize,
+  highlighted,
+  onHighlight,
+}: DrawingZoomDialogProps) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState(1);
+
+  // Zoom so the whole image fits, never enlarging small images
+  const fitZoom = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !imageSize) return 1;
+    const fit = Math.min(viewport.clientWidth / imageSize.width, viewport.clientHeight / imageSize.height);
+    return Math.max(MIN_ZOOM, Math.min(1, fit));
+  }, [imageSize]);
+
+  // Start each opening fitted to the window. The dialog content mounts after
+  // `open` flips, so measure on the next frame.
+  useEffect(() => {
+    if (!open || !imageSize) return;
+    const frame = requestAnimationFrame(() => setZoom(fitZoom()));
+    return () => cancelAnimationFrame(frame);
+  }, [open, imageSize, fitZoom]);
+
+  const changeZoom = (factor: number) => {
+    setZoom((current) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, current * factor)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Analyzed Drawing</DialogTitle>
+          <DialogDescription>
+            Hover a box to see what was found. Zoom in to check the details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => changeZoom(1 / ZOOM_STEP)}
+            disabled={zoom <= MIN_ZOOM}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="w-14 text-center text-sm font-mono text-muted-foreground">
+            {Math.round(zoom * 100)}%
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => changeZoom(ZOOM_STEP)}
+            disabled={zoom >= MAX_ZOOM}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setZoom(fitZoom())}>
+            <Maximize className="w-4 h-4 mr-2" />
+            Fit
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setZoom(1)}>
+            Full Size
+          </Button>
+        </div>
+
+        <div ref={viewportRef} className="h-[65vh] overflow-auto rounded-lg border border-border bg-muted/50">
+          {imageSize && (
+            <div
+              className="relative mx-auto"
+              style={{ width: imageSize.width * zoom, height: imageSize.height * zoom }}
+            >
+              <img src={imageUrl} alt="Analyzed drawing, full size" className="w-full h-full block" draggable={false} />
+              <DetectionBoxes
+                result={result}
+                highlighted={highlighted}
+                onHighlight={onHighlight}
+                className="inset-0"
+              />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
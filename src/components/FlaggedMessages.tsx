@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Bot, Flag, RefreshCw, Trash2, User, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/components/ui/sonner';
+import { dismissModerationFlags, fetchModerationFlags, getApiErrorMessage } from '@/lib/api';
+import { MODERATION_REASONS, type ModerationFlag } from '@/lib/moderation';
+import { cn } from '@/lib/utils';
+
+interface FlaggedMessagesProps {
+  className?: string;
+}
+
+// Chat messages the safety checks caught on any device, newest first
+export function FlaggedMessages({ className }: FlaggedMessagesProps) {
+  // Oldest first
+  const [flags, setFlags] = useState<ModerationFlag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const controllerRef = useRef<AbortController | null>(null);
+  const newestFirst = [...flags].reverse();
+
+  const loadFlags = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    try {
+      setFlags(await fetchModerationFlags({ signal: controller.signal }));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to load flagged messages:', error);
+      toast.error('Could not load flagged messages', { description: getApiErrorMessage(error) });
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFlags();
+    return () => controllerRef.current?.abort();
+  }, [loadFlags]);
+
+  // Removed from the list straight away; the dismissal waits in the outbox if
+  // the backend is away
+  const dismiss = async (ids: string[]) => {
+    setFlags((prev) => prev.filter((f) => !ids.includes(f.id)));
+    try {
+      await dismissModerationFlags(ids);
+    } catch (error) {
+      toast.error('Could not dismiss flagged messages', { description: getApiErrorMessage(error) });
+      loadFlags();
+    }
+  };
+
+  return (
+    <div className={cn("rounded-xl border border-border bg-card p-6", className)}>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Flag className="w-5 h-5 text-warning" />
+          <h2 className="font-display font-semibold text-lg text-foreground">
+            Flagged Messages
+            {flags.length > 0 && <span className="text-muted-foreground font-normal"> ({flags.length})</span>}
+          </h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={loadFlags} disabled={isLoading}>
+            <RefreshCw className={cn("w-4 h-4 mr-2", isLoading && "animate-spin")} />
+            Refresh
+          </Button>
+          {flags.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => dismiss(flags.map((f) => f.id))}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear All
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading && flags.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">Loading flagged messages...</p>
+      ) : flags.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">
+          Nothing has been flagged. Messages caught by the chat safety settings will appear here.
+        </p>
+      ) : (
+        <ul className="space-y-3 max-h-[420px] overflow-y-auto pr-1">
+          {newestFirst.map((flag) => {
+            const SourceIcon = flag.source === 'student' ? User : Bot;
+            return (
+              <li key={flag.id} className="rounded-lg border border-border p-3">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <SourceIcon className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-sm font-medium text-foreground">
+                    {flag.source === 'student' ? flag.studentName : `Tutor reply to ${flag.studentName}`}
+                  </span>
+                  {flag.reasons.map((reason) => (
+                    <Badge key={reason} variant="secondary">
+                      {MODERATION_REASONS[reason].label}
+                    </Badge>
+                  ))}
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {flag.flaggedAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => dismiss([flag.id])}
+                    aria-label="Dismiss flag"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{flag.text}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <p className="text-xs text-muted-foreground mt-4">
+        Personal details are removed before a message is saved, so they never appear here.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Lightbulb } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { Hint } from '@/lib/hints';
+
+interface HintLadderProps {
+  hints: Hint[];
+  // How many hints have been revealed
+  revealed: number;
+  onReveal: () => void;
+  // Points each hint costs, mentioned before the first one is taken
+  penalty?: number;
+  className?: string;
+}
+
+// Hints shown one at a time, each more specific than the last
+export function HintLadder({ hints, revealed, onReveal, penalty, className }: HintLadderProps) {
+  const shown = hints.slice(0, revealed);
+  const hasMore = revealed < hints.length;
+
+  return (
+    <div className={cn("p-6 rounded-xl bg-accent/10 border border-accent/20", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-semibold text-foreground flex items-center gap-2">
+          <Lightbulb className="w-4 h-4 text-accent" />
+          Need a Hint?
+        </h3>
+        <Button variant="outline" size="sm" onClick={onReveal} disabled={!hasMore}>
+          {hasMore ? `Show Hint ${revealed + 1} of ${hints.length}` : 'No More Hints'}
+        </Button>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-muted-foreground mt-2">
+          Try it on your own first. Each hint tells you a little more.
+          {penalty ? ` Every hint takes ${penalty} points off your score.` : ''}
+        </p>
+      ) : (
+        <ol className="mt-4 space-y-3">
+          {shown.map((hint, i) => (
+            <li key={i} className="text-sm animate-fade-in">
+              <p className="font-medium text-foreground">
+                {i + 1}. {hint.title}
+              </p>
+              <p className="text-muted-foreground">{hint.text}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
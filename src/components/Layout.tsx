@@ -1,9 +1,16 @@
 import { ReactNode } from 'react';
-import { Link, useLocation } from 'react-router-dom';
-import { Bot, Home, GraduationCap, BarChart3 } from 'lucide-react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Bot, Home, GraduationCap, BarChart3, UserCircle, History, Lock, Presentation, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { StepProgressBar } from '@/components/StepProgressBar';
+import { ProfileAvatar } from '@/components/ProfileAvatar';
+import { SyncStatus } from '@/components/SyncStatus';
+import type { StepRedirectState } from '@/components/StepGuard';
+import { useProfiles } from '@/context/ProfileContext';
+import { useTeacherPreview } from '@/context/TeacherPreviewContext';
+import { useLessonPlan } from '@/context/LessonPlanContext';
 import { cn } from '@/lib/utils';
-import { WORKFLOW_STEPS } from '@/lib/workflow';
 
 interface LayoutProps {
   children: ReactNode;
@@ -12,9 +19,16 @@ interface LayoutProps {
 
 export function Layout({ children, showProgress = false }: LayoutProps) {
   const location = useLocation();
-  const isWorkflowPage = WORKFLOW_STEPS.some(s => s.path === location.pathname);
+  const navigate = useNavigate();
+  const { activeProfile } = useProfiles();
+  const { isPreviewing, stopPreview } = useTeacherPreview();
+  const { steps } = useLessonPlan();
+  const redirect = location.state as StepRedirectState | null;
+  const isWorkflowPage = steps.some(s => s.path === location.pathname);
   const isDashboard = location.pathname === '/dashboard';
   const isLanding = location.pathname === '/';
+  const isProfiles = location.pathname === '/profiles';
+  const isProgress = location.pathname.startsWith('/progress');
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
@@ -49,7 +63,7 @@ export function Layout({ children, showProgress = false }: LayoutProps) {
             
             {isWorkflowPage && (
               <Link
-                to="/3d"
+                to={steps[0].path}
                 className={cn(
                   "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors",
                   "bg-accent text-accent-foreground"
@@ -60,6 +74,19 @@ export function Layout({ children, showProgress = false }: LayoutProps) {
               </Link>
             )}
             
+            <Link
+              to="/progress"
+              className={cn(
+                "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+                isProgress
+                  ? "bg-primary text-primary-foreground"
+                  : "text-muted-foreground hover:text-foreground hover:bg-secondary"
+              )}
+            >
+              <History className="w-4 h-4" />
+              <span className="hidden sm:inline">Progress</span>
+            </Link>
+
             <Link
               to="/dashboard"
               className={cn(
@@ -72,6 +99,31 @@ export function Layout({ children, showProgress = false }: LayoutProps) {
               <BarChart3 className="w-4 h-4" />
               <span className="hidden sm:inline">Dashboard</span>
             </Link>
+
+            <SyncStatus />
+
+            <Link
+              to="/profiles"
+              className={cn(
+                "flex items-center gap-2 pl-2 pr-4 py-1.5 rounded-full border text-sm font-medium transition-colors",
+                isProfiles
+                  ? "border-primary bg-primary/10 text-primary"
+                  : "border-border text-muted-foreground hover:text-foreground hover:bg-secondary"
+              )}
+              aria-label={activeProfile ? `Signed in as ${activeProfile.name}. Switch student` : 'Choose student'}
+            >
+              {activeProfile ? (
+                <>
+                  <ProfileAvatar profile={activeProfile} size="sm" />
+                  <span className="hidden md:inline max-w-[120px] truncate">{activeProfile.name}</span>
+                </>
+              ) : (
+                <>
+                  <UserCircle className="w-5 h-5" />
+                  <span className="hidden md:inline">Guest</span>
+                </>
+              )}
+            </Link>
           </nav>
         </div>
 
@@ -85,6 +137,43 @@ export function Layout({ children, showProgress = false }: LayoutProps) {
         )}
       </header>
 
+      {/* Teacher Preview */}
+      {isPreviewing && (
+        <div className="bg-warning/15 border-b border-warning/30">
+          <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-4 text-sm">
+            <span className="flex items-center gap-2 text-foreground">
+              <Presentation className="w-4 h-4" />
+              Teacher preview: every step is unlocked
+            </span>
+            <Button variant="ghost" size="sm" onClick={stopPreview}>
+              Exit preview
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Step Redirect Notice */}
+      {redirect?.blockedStep && redirect.missingStep && (
+        <div className="container mx-auto px-4 pt-6">
+          <Alert className="max-w-3xl mx-auto pr-12">
+            <Lock className="h-4 w-4" />
+            <AlertTitle>{redirect.blockedStep.title} isn't unlocked yet</AlertTitle>
+            <AlertDescription>
+              Finish "{redirect.missingStep.title}" first. We've brought you to that step.
+            </AlertDescription>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute right-2 top-2 h-8 w-8"
+              onClick={() => navigate(location.pathname, { replace: true, state: null })}
+              aria-label="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </Alert>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1">
         {children}
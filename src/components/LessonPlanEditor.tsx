@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { MAX_PLAN_NAME_LENGTH, MAX_PLAN_STEPS, type LessonPlan } from '@/lib/lessonPlans';
+import { COLOR_SPACES } from '@/lib/colorSpaces';
+import {
+  COLOR_SPACE_IDS,
+  STEP_DEFINITIONS,
+  STEP_KINDS,
+  resolveSteps,
+  type ColorSpaceId,
+  type StepConfig,
+  type StepKind,
+} from '@/lib/workflow';
+
+interface LessonPlanEditorProps {
+  plan: LessonPlan;
+  onChange: (plan: LessonPlan) => void;
+  readOnly?: boolean;
+  className?: string;
+}
+
+export function LessonPlanEditor({ plan, onChange, readOnly = false, className }: LessonPlanEditorProps) {
+  const [newKind, setNewKind] = useState<StepKind>('predict');
+  const resolved = resolveSteps(plan.steps);
+
+  const updateSteps = (steps: StepConfig[]) => onChange({ ...plan, steps });
+
+  const updateStep = (index: number, changes: Partial<StepConfig>) => {
+    updateSteps(plan.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...plan.steps];
+    const [moved] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, moved);
+    updateSteps(steps);
+  };
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      {/* Details */}
+      <div className="grid gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="plan-name">Name</Label>
+          <Input
+            id="plan-name"
+            value={plan.name}
+            onChange={(e) => onChange({ ...plan, name: e.target.value })}
+            maxLength={MAX_PLAN_NAME_LENGTH}
+            disabled={readOnly}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="plan-description">Description</Label>
+          <Textarea
+            id="plan-description"
+            value={plan.description}
+            onChange={(e) => onChange({ ...plan, description: e.target.value })}
+            rows={2}
+            disabled={readOnly}
+          />
+        </div>
+      </div>
+
+      {/* Steps */}
+      <ol className="space-y-3">
+        {plan.steps.map((config, index) => {
+          const step = resolved[index];
+          const definition = STEP_DEFINITIONS[config.kind];
+
+          return (
+            <li key={index} className="rounded-lg border border-border bg-background p-4">
+              <div className="flex items-center gap-3 mb-3">
+                <span className="w-7 h-7 rounded-full bg-primary/10 text-primary text-sm font-bold flex items-center justify-center shrink-0">
+                  {index + 1}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground truncate">{step.title}</p>
+                  <p className="text-xs text-muted-foreground">{definition.title} · {step.path}</p>
+                </div>
+                {!readOnly && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move step up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === plan.steps.length - 1}
+                      aria-label="Move step down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateSteps(plan.steps.filter((_, i) => i !== index))}
+                      aria-label="Remove step"
+                    >
+                      <Trash2 className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {!readOnly && (
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <Input
+                    value={config.title ?? ''}
+                    onChange={(e) => updateStep(index, { title: e.target.value || undefined })}
+                    placeholder={definition.title}
+                    aria-label="Step title"
+                  />
+                  <Input
+                    value={config.description ?? ''}
+                    onChange={(e) => updateStep(index, { description: e.target.value || undefined })}
+                    placeholder={definition.description}
+                    aria-label="Step description"
+                  />
+
+                  {(config.kind === 'coords' || config.kind === 'predict' || config.kind === 'compare') && (
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Switch
+                        checked={config.params?.showHints !== false}
+                        onCheckedChange={(showHints) =>
+                          updateStep(index, { params: { ...config.params, showHints } })
+                        }
+                      />
+                      Show hint card
+                    </label>
+                  )}
+
+                  {config.kind === 'placement' && (
+                    <div className="sm:col-span-2 flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                      <span>Color spaces:</span>
+                      {COLOR_SPACE_IDS.map((id) => {
+                        const selected = config.params?.colorSpaces ?? ['rgb'];
+                        const toggle = (checked: boolean) => {
+                          const next = COLOR_SPACE_IDS.filter((s) => (s === id ? checked : selected.includes(s)));
+                          // RGB alone is the default, so leave the param unset for it
+                          const colorSpaces: ColorSpaceId[] | undefined =
+                            next.length === 0 || (next.length === 1 && next[0] === 'rgb') ? undefined : next;
+                          updateStep(index, { params: { ...config.params, colorSpaces } });
+                        };
+                        return (
+                          <label key={id} className="flex items-center gap-2">
+                            <Checkbox checked={selected.includes(id)} onCheckedChange={(c) => toggle(c === true)} />
+                            {COLOR_SPACES[id].name}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {config.kind === 'verify' && (
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        className="w-20"
+                        value={config.params?.minAccuracy ?? ''}
+                        onChange={(e) => {
+                          const value = e.target.valueAsNumber;
+                          // Empty (or 0) means any score is accepted
+                          const minAccuracy = Number.isNaN(value) || value <= 0
+                            ? undefined
+                            : Math.min(100, Math.round(value));
+                          updateStep(index, { params: { ...config.params, minAccuracy } });
+                        }}
+                        placeholder="0"
+                        aria-label="Minimum accuracy"
+                      />
+                      % accuracy needed to continue
+                    </label>
+                  )}
+
+                  {config.kind === 'chat' && (
+                    <Textarea
+                      className="sm:col-span-2"
+                      value={(config.params?.suggestedQuestions ?? []).join('\n')}
+                      onChange={(e) => {
+                        const questions = e.target.value.split('\n');
+                        const suggestedQuestions = questions.some((q) => q.trim()) ? questions : undefined;
+                        updateStep(index, { params: { ...config.params, suggestedQuestions } });
+                      }}
+                      placeholder="Suggested questions, one per line (leave empty for the defaults)"
+                      rows={3}
+                      aria-label="Suggested questions"
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Add Step */}
+      {!readOnly && (
+        <div className="flex gap-2">
+          <Select value={newKind} onValueChange={(kind) => setNewKind(kind as StepKind)}>
+            <SelectTrigger className="flex-1" aria-label="Step to add">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STEP_KINDS.map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {STEP_DEFINITIONS[kind].title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => updateSteps([...plan.steps, { kind: newKind }])}
+            disabled={plan.steps.length >= MAX_PLAN_STEPS}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Step
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
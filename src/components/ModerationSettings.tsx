@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useModeration } from '@/context/ModerationContext';
+import { MAX_MESSAGE_LENGTH_LIMIT, MIN_MESSAGE_LENGTH_LIMIT, type ModerationPolicy } from '@/lib/moderation';
+import { cn } from '@/lib/utils';
+
+type PolicySwitch = keyof Pick<ModerationPolicy, 'filterProfanity' | 'filterPersonalInfo' | 'redirectOffTopic'>;
+
+const SWITCHES: { key: PolicySwitch; label: string; description: string }[] = [
+  {
+    key: 'filterProfanity',
+    label: 'Block bad language',
+    description: 'Hold back messages with swearing and mask it in tutor replies.',
+  },
+  {
+    key: 'filterPersonalInfo',
+    label: 'Remove personal information',
+    description: 'Take out names, addresses, phone numbers and emails before anything is sent.',
+  },
+  {
+    key: 'redirectOffTopic',
+    label: 'Keep the chat on the lesson',
+    description: 'Steer questions about other things back to coordinates and colors.',
+  },
+];
+
+interface ModerationSettingsProps {
+  className?: string;
+}
+
+// The teacher's chat policy for this device
+export function ModerationSettings({ className }: ModerationSettingsProps) {
+  const { policy, updatePolicy } = useModeration();
+  // Typed freely and applied on blur, so partial numbers aren't clamped
+  const [lengthDraft, setLengthDraft] = useState(String(policy.maxMessageLength));
+
+  useEffect(() => {
+    setLengthDraft(String(policy.maxMessageLength));
+  }, [policy.maxMessageLength]);
+
+  const applyLength = () => {
+    const value = Number(lengthDraft);
+    if (Number.isFinite(value) && lengthDraft.trim()) {
+      updatePolicy({ maxMessageLength: value });
+    }
+    setLengthDraft(String(policy.maxMessageLength));
+  };
+
+  return (
+    <div className={cn("rounded-xl border border-border bg-card p-6 space-y-5", className)}>
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="w-5 h-5 text-primary" />
+        <h2 className="font-display font-semibold text-lg text-foreground">Chat Safety</h2>
+      </div>
+
+      {SWITCHES.map(({ key, label, description }) => (
+        <label key={key} className="flex items-start gap-3 cursor-pointer">
+          <Switch
+            checked={policy[key]}
+            onCheckedChange={(checked) => updatePolicy({ [key]: checked })}
+            className="mt-0.5"
+          />
+          <span>
+            <span className="block text-sm font-medium text-foreground">{label}</span>
+            <span className="block text-xs text-muted-foreground">{description}</span>
+          </span>
+        </label>
+      ))}
+
+      <label className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Input
+          type="number"
+          min={MIN_MESSAGE_LENGTH_LIMIT}
+          max={MAX_MESSAGE_LENGTH_LIMIT}
+          className="w-24"
+          value={lengthDraft}
+          onChange={(e) => setLengthDraft(e.target.value)}
+          onBlur={applyLength}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') applyLength();
+          }}
+          aria-label="Longest message"
+        />
+        characters per message at most
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">Other blocked words</p>
+        <Textarea
+          value={policy.blockedWords.join('\n')}
+          onChange={(e) => {
+            const words = e.target.value.split('\n');
+            updatePolicy({ blockedWords: words.some((w) => w.trim()) ? words : [] });
+          }}
+          placeholder="One word or phrase per line"
+          rows={3}
+          aria-label="Other blocked words"
+        />
+        <p className="text-xs text-muted-foreground">
+          These are blocked even when bad language filtering is off.
+        </p>
+      </div>
+    </div>
+  );
+}
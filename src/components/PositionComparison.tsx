@@ -0,0 +1,70 @@
+import { calculateAxisErrors, type RobotCoordinates } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface PositionComparisonProps {
+  actual: RobotCoordinates;
+  // Position read from the student's drawing by the CV check
+  sketch?: RobotCoordinates | null;
+  // Position the student typed in
+  typed?: RobotCoordinates | null;
+  className?: string;
+}
+
+const AXES = [
+  { key: 'x' as const, label: 'X', color: 'text-destructive' },
+  { key: 'y' as const, label: 'Y', color: 'text-accent' },
+  { key: 'z' as const, label: 'Z', color: 'text-primary' },
+];
+
+// Within 16 (about 6% of the axis) counts as spot on, within 48 as close
+function errorClass(error: number): string {
+  const size = Math.abs(error);
+  if (size <= 16) return 'text-accent';
+  if (size <= 48) return 'text-foreground';
+  return 'text-warning';
+}
+
+function EstimateCell({ value, error }: { value: number; error: number }) {
+  return (
+    <td className="py-2 px-3 text-right font-mono">
+      <span className="text-foreground">{value}</span>
+      <span className={cn("ml-2 text-xs", errorClass(error))}>
+        ({error > 0 ? '+' : ''}{error})
+      </span>
+    </td>
+  );
+}
+
+export function PositionComparison({ actual, sketch, typed, className }: PositionComparisonProps) {
+  const sketchErrors = sketch ? calculateAxisErrors(sketch, actual) : null;
+  const typedErrors = typed ? calculateAxisErrors(typed, actual) : null;
+
+  return (
+    <div className={cn("overflow-x-auto", className)}>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-muted-foreground">
+            <th className="py-2 px-3 text-left font-medium">Axis</th>
+            <th className="py-2 px-3 text-right font-medium">Real position</th>
+            {sketch && <th className="py-2 px-3 text-right font-medium">Your drawing</th>}
+            {typed && <th className="py-2 px-3 text-right font-medium">Your estimate</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {AXES.map(({ key, label, color }) => (
+            <tr key={key} className="border-b border-border last:border-0">
+              <td className={cn("py-2 px-3 font-semibold", color)}>{label}</td>
+              <td className="py-2 px-3 text-right font-mono text-foreground">{actual[key]}</td>
+              {sketch && <EstimateCell value={sketch[key]} error={sketchErrors[key]} />}
+              {typed && <EstimateCell value={typed[key]} error={typedErrors[key]} />}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground mt-2">
+        Numbers in brackets show how far off each value is.
+        {sketch && " A flat drawing can't show depth exactly, so the drawing's Z is the most likely value for where the robot appears."}
+      </p>
+    </div>
+  );
+}
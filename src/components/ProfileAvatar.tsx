@@ -0,0 +1,30 @@
+import { cn } from '@/lib/utils';
+import type { StudentProfile } from '@/lib/profiles';
+
+interface ProfileAvatarProps {
+  profile: Pick<StudentProfile, 'name' | 'color'>;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+export function ProfileAvatar({ profile, size = 'md', className }: ProfileAvatarProps) {
+  const sizeClasses = {
+    sm: 'w-7 h-7 text-xs',
+    md: 'w-10 h-10 text-sm',
+    lg: 'w-16 h-16 text-2xl',
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-full flex items-center justify-center font-display font-bold text-white shrink-0",
+        sizeClasses[size],
+        className
+      )}
+      style={{ backgroundColor: profile.color }}
+      aria-hidden="true"
+    >
+      {profile.name.charAt(0).toUpperCase()}
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { rgbToHex, hexToRgb, type RGBColor } from '@/lib/api';
 interface RgbPredictFormProps {
   initialValues?: RGBColor;
   onSubmit: (rgb: RGBColor) => void;
+  // Called with the values as the student adjusts them
+  onChange?: (rgb: RGBColor) => void;
   isLoading?: boolean;
   className?: string;
 }
@@ -17,6 +19,7 @@ interface RgbPredictFormProps {
 export function RgbPredictForm({
   initialValues = { r: 128, g: 128, b: 128 },
   onSubmit,
+  onChange,
   isLoading = false,
   className,
 }: RgbPredictFormProps) {
@@ -27,15 +30,20 @@ export function RgbPredictForm({
     setHexValue(rgbToHex(rgb));
   }, [rgb]);
 
+  const updateRgb = (next: RGBColor) => {
+    setRgb(next);
+    onChange?.(next);
+  };
+
   const handleRgbChange = (channel: keyof RGBColor, value: string) => {
     const numValue = Math.max(0, Math.min(255, parseInt(value) || 0));
-    setRgb(prev => ({ ...prev, [channel]: numValue }));
+    updateRgb({ ...rgb, [channel]: numValue });
   };
 
   const handleHexChange = (value: string) => {
     setHexValue(value);
     if (/^#[0-9A-Fa-f]{6}$/.test(value)) {
-      setRgb(hexToRgb(value));
+      updateRgb(hexToRgb(value));
     }
   };
 
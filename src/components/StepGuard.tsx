@@ -0,0 +1,36 @@
+import { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import { useSession } from '@/context/SessionContext';
+import { useTeacherPreview } from '@/context/TeacherPreviewContext';
+import { WorkflowStepProvider } from '@/context/WorkflowStepContext';
+import { getMissingPrerequisite, type WorkflowStep } from '@/lib/workflow';
+
+// Passed as router location state so the page we land on can explain the redirect
+export interface StepRedirectState {
+  blockedStep: Pick<WorkflowStep, 'id' | 'title'>;
+  missingStep: Pick<WorkflowStep, 'id' | 'title'>;
+}
+
+interface StepGuardProps {
+  step: WorkflowStep;
+  children: ReactNode;
+}
+
+export function StepGuard({ step, children }: StepGuardProps) {
+  const { state } = useSession();
+  const { steps } = useLessonPlan();
+  const { isPreviewing } = useTeacherPreview();
+  const missing = getMissingPrerequisite(step.id, state.completedSteps, steps);
+
+  if (!missing || isPreviewing) {
+    return <WorkflowStepProvider step={step}>{children}</WorkflowStepProvider>;
+  }
+
+  const redirectState: StepRedirectState = {
+    blockedStep: { id: step.id, title: step.title },
+    missingStep: { id: missing.id, title: missing.title },
+  };
+
+  return <Navigate to={missing.path} replace state={redirectState} />;
+}
@@ -1,7 +1,20 @@
+import { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
 import { Check } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { WORKFLOW_STEPS, getStepIndex } from '@/lib/workflow';
+import { getStepIndex } from '@/lib/workflow';
+import { useLessonPlan } from '@/context/LessonPlanContext';
 import { useSession } from '@/context/SessionContext';
+import { useTeacherPreview } from '@/context/TeacherPreviewContext';
+
+function StepLink({ to, children }: { to: string | null; children: ReactNode }) {
+  const className = "flex flex-col items-center";
+  return to ? (
+    <Link to={to} className={cn(className, "hover:opacity-80")}>{children}</Link>
+  ) : (
+    <div className={className}>{children}</div>
+  );
+}
 
 interface StepProgressBarProps {
   className?: string;
@@ -9,20 +22,22 @@ interface StepProgressBarProps {
 
 export function StepProgressBar({ className }: StepProgressBarProps) {
   const { state } = useSession();
-  const currentIndex = getStepIndex(state.currentStep);
+  const { isPreviewing } = useTeacherPreview();
+  const { steps } = useLessonPlan();
+  const currentIndex = getStepIndex(state.currentStep, steps);
 
   return (
     <div className={cn("w-full py-4", className)}>
       <div className="flex items-center justify-between max-w-4xl mx-auto px-4">
-        {WORKFLOW_STEPS.map((step, index) => {
+        {steps.map((step, index) => {
           const isCompleted = state.completedSteps.includes(step.id);
           const isCurrent = state.currentStep === step.id;
           const isPast = index < currentIndex;
 
           return (
             <div key={step.id} className="flex items-center flex-1 last:flex-none">
-              {/* Step circle */}
-              <div className="flex flex-col items-center">
+              {/* Step circle (teachers previewing can jump to any step) */}
+              <StepLink to={isPreviewing ? step.path : null}>
                 <div
                   className={cn(
                     "w-10 h-10 rounded-full flex items-center justify-center font-semibold text-sm transition-all duration-300",
@@ -47,10 +62,10 @@ export function StepProgressBar({ className }: StepProgressBarProps) {
                 >
                   {step.title}
                 </span>
-              </div>
+              </StepLink>
 
               {/* Connector line */}
-              {index < WORKFLOW_STEPS.length - 1 && (
+              {index < steps.length - 1 && (
                 <div className="flex-1 h-1 mx-2 rounded-full bg-secondary overflow-hidden">
                   <div
                     className={cn(
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDrawingUrl } from '@/hooks/use-drawing-url';
+import type { SessionResult } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+const dateOf = (result: SessionResult) => result.date.toLocaleDateString([], { dateStyle: 'medium' });
+
+// Drawings kept on another device, or removed since, can't be shown
+function NotStored({ className }: { className?: string }) {
+  return (
+    <span className={cn("flex items-center justify-center text-muted-foreground", className)} title="Drawing not stored">
+      <ImageOff className="w-5 h-5" />
+    </span>
+  );
+}
+
+function DrawingThumbnail({ result, onOpen }: { result: SessionResult; onOpen: () => void }) {
+  const thumbnail = useDrawingUrl(result.imageUrl, 'thumbnail');
+  const [failed, setFailed] = useState(false);
+  const frame = "w-full aspect-[4/3] rounded-lg border border-border bg-muted/50";
+
+  return (
+    <li>
+      {thumbnail.status === 'missing' || failed ? (
+        <NotStored className={frame} />
+      ) : (
+        <button type="button" onClick={onOpen} className="block w-full hover:opacity-80 transition-opacity">
+          {thumbnail.src ? (
+            <img
+              src={thumbnail.src}
+              alt={`Drawing from ${dateOf(result)}`}
+              className={cn(frame, "object-contain")}
+              onError={() => setFailed(true)}
+            />
+          ) : (
+            <span className={cn(frame, "block")} />
+          )}
+        </button>
+      )}
+      <div className="flex items-center justify-between mt-1 text-xs">
+        <span className="text-muted-foreground">{dateOf(result)}</span>
+        <span className="font-mono text-foreground">{result.cvAccuracy.toFixed(1)}%</span>
+      </div>
+    </li>
+  );
+}
+
+function DrawingDialog({ result, onClose }: { result: SessionResult | null; onClose: () => void }) {
+  const drawing = useDrawingUrl(result?.imageUrl ?? null);
+
+  return (
+    <Dialog open={result !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Drawing from {result ? dateOf(result) : ''}</DialogTitle>
+          <DialogDescription>
+            CV accuracy {result?.cvAccuracy.toFixed(1)}%, RGB delta {result?.rgbDelta.toFixed(1)}
+          </DialogDescription>
+        </DialogHeader>
+        {drawing.status === 'missing' ? (
+          <NotStored className="h-64 rounded-lg border border-border bg-muted/50" />
+        ) : drawing.src ? (
+          <img src={drawing.src} alt="Drawing, full size" className="max-h-[65vh] mx-auto object-contain" />
+        ) : (
+          <div className="h-64 rounded-lg bg-muted/50 animate-pulse" />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface StudentDrawingsProps {
+  results: SessionResult[];
+  className?: string;
+}
+
+// The drawing each lesson finished with, newest first
+export function StudentDrawings({ results, className }: StudentDrawingsProps) {
+  const [open, setOpen] = useState<SessionResult | null>(null);
+  const withDrawings = results.filter((r) => r.imageUrl).reverse();
+
+  return (
+    <div className={cn("rounded-xl border border-border bg-card p-4", className)}>
+      <h3 className="font-semibold text-foreground">Drawings</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        {withDrawings.length > 0
+          ? 'The drawing each lesson was checked against. Click one to see it full size.'
+          : 'No drawings were saved with these lessons.'}
+      </p>
+      {withDrawings.length > 0 && (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+          {withDrawings.map((result) => (
+            <DrawingThumbnail
+              key={`${result.date.toISOString()}-${result.imageUrl}`}
+              result={result}
+              onOpen={() => setOpen(result)}
+            />
+          ))}
+        </ul>
+      )}
+      <DrawingDialog result={open} onClose={() => setOpen(null)} />
+    </div>
+  );
+}
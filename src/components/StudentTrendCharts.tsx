@@ -0,0 +1,134 @@
+import type { ReactNode } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import type { SessionResult } from '@/lib/api';
+import { COLOR_METRICS, colorDifference, type ColorMetric } from '@shared/color';
+import { cn } from '@/lib/utils';
+
+const accuracyConfig = {
+  cvAccuracy: { label: 'CV accuracy', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const channelConfig = {
+  red: { label: 'Red', color: 'hsl(0 84% 60%)' },
+  green: { label: 'Green', color: 'hsl(142 71% 40%)' },
+  blue: { label: 'Blue', color: 'hsl(217 91% 55%)' },
+} satisfies ChartConfig;
+
+interface StudentTrendChartsProps {
+  // Oldest first
+  results: SessionResult[];
+  // How the distance between the predicted and the AI's color is measured
+  metric: ColorMetric;
+  className?: string;
+}
+
+function ChartCard({ title, description, children }: { title: string; description: string; children: ReactNode }) {
+  return (
+    <div className="rounded-xl border border-border bg-card p-4">
+      <h3 className="font-semibold text-foreground">{title}</h3>
+      <p className="text-sm text-muted-foreground mb-4">{description}</p>
+      {children}
+    </div>
+  );
+}
+
+// A student's lessons over time: how close their predictions came, how well
+// their drawings were read, and which color channel they miss by most
+export function StudentTrendCharts({ results, metric, className }: StudentTrendChartsProps) {
+  const metricInfo = COLOR_METRICS[metric];
+  const differenceConfig = {
+    difference: { label: metricInfo.label, color: 'hsl(var(--warning))' },
+  } satisfies ChartConfig;
+
+  const data = results.map((r, i) => ({
+    lesson: i + 1,
+    date: r.date.toLocaleDateString([], { month: 'short', day: 'numeric' }),
+    difference: Number(colorDifference(r.studentRgb, r.aiRgb, metric).toFixed(1)),
+    cvAccuracy: Number(r.cvAccuracy.toFixed(1)),
+    red: Math.abs(r.studentRgb.r - r.aiRgb.r),
+    green: Math.abs(r.studentRgb.g - r.aiRgb.g),
+    blue: Math.abs(r.studentRgb.b - r.aiRgb.b),
+  }));
+
+  // Lessons on the same day share a date, so the axis counts lessons and the
+  // tooltip names the day
+  const xAxis = <XAxis dataKey="lesson" tickLine={false} axisLine={false} tickMargin={8} />;
+  const tooltip = (
+    <ChartTooltip
+      content={
+        <ChartTooltipContent
+          labelFormatter={(_, payload) => {
+            const point = payload?.[0]?.payload as (typeof data)[number] | undefined;
+            return point ? `Lesson ${point.lesson} · ${point.date}` : null;
+          }}
+        />
+      }
+    />
+  );
+
+  return (
+    <div className={cn("grid lg:grid-cols-2 gap-4", className)}>
+      <ChartCard
+        title={metricInfo.label}
+        description="Difference between the predicted and the AI's color. Lower is better."
+      >
+        <ChartContainer config={differenceConfig} className="aspect-auto h-56 w-full">
+          <LineChart data={data} margin={{ left: -16, right: 8, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            {xAxis}
+            <YAxis tickLine={false} axisLine={false} width={48} />
+            {tooltip}
+            <Line dataKey="difference" type="monotone" stroke="var(--color-difference)" strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="CV Accuracy" description="How well the drawing matched the robot's position.">
+        <ChartContainer config={accuracyConfig} className="aspect-auto h-56 w-full">
+          <LineChart data={data} margin={{ left: -16, right: 8, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            {xAxis}
+            <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={48} unit="%" />
+            {tooltip}
+            <Line dataKey="cvAccuracy" type="monotone" stroke="var(--color-cvAccuracy)" strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <div className="lg:col-span-2">
+        <ChartCard
+          title="Error per Channel"
+          description="How far each channel of the prediction was off. A line that stays high shows which axis needs practice."
+        >
+          <ChartContainer config={channelConfig} className="aspect-auto h-64 w-full">
+            <LineChart data={data} margin={{ left: -16, right: 8, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis domain={[0, 'auto']} tickLine={false} axisLine={false} width={48} />
+              {tooltip}
+              <ChartLegend content={<ChartLegendContent />} />
+              {(Object.keys(channelConfig) as (keyof typeof channelConfig)[]).map((channel) => (
+                <Line
+                  key={channel}
+                  dataKey={channel}
+                  type="monotone"
+                  stroke={`var(--color-${channel})`}
+                  strokeWidth={2}
+                  dot={{ r: 2 }}
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { CloudAlert, CloudOff, CloudUpload, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useOutboxStatus } from '@/hooks/use-outbox';
+import {
+  describeOutboxEntry,
+  discardFailedWrites,
+  getOutboxEntries,
+  retryOutbox,
+} from '@/lib/outbox';
+import { cn } from '@/lib/utils';
+
+const timeOf = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Header indicator for writes kept on this device until the backend is back.
+// Hidden while everything is sent.
+export function SyncStatus() {
+  const status = useOutboxStatus();
+  const [open, setOpen] = useState(false);
+  const { pending, failed, syncing, online } = status;
+
+  if (pending === 0 && failed === 0 && online) return null;
+
+  const { Icon, label, tone } = failed > 0
+    ? { Icon: CloudAlert, label: `${failed} not sent`, tone: 'text-destructive border-destructive/40' }
+    : syncing
+      ? { Icon: RefreshCw, label: 'Syncing…', tone: 'text-primary border-primary/40' }
+      : pending > 0
+        ? { Icon: CloudUpload, label: `${pending} waiting`, tone: 'text-warning border-warning/40' }
+        : { Icon: CloudOff, label: 'Offline', tone: 'text-muted-foreground border-border' };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm font-medium hover:bg-secondary transition-colors",
+            tone,
+          )}
+          aria-label={`Sync status: ${label}`}
+        >
+          <Icon className={cn("w-4 h-4", syncing && failed === 0 && "animate-spin")} />
+          <span className="hidden md:inline">{label}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <h3 className="font-semibold text-foreground mb-1">
+          {online ? 'Saved on this device' : 'You are offline'}
+        </h3>
+        <p className="text-sm text-muted-foreground mb-3">
+          {pending > 0
+            ? 'Your work is kept here and will be sent when the server can be reached. You can keep going.'
+            : failed > 0
+              ? 'The server turned these down. Try again, or discard them.'
+              : 'Anything you do will be kept here and sent once you are back online.'}
+        </p>
+
+        {(pending > 0 || failed > 0) && (
+          <ul className="space-y-2 max-h-48 overflow-y-auto mb-3">
+            {getOutboxEntries().map((entry) => (
+              <li key={entry.id} className="text-sm rounded-md border border-border px-3 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-foreground">{describeOutboxEntry(entry)}</span>
+                  <span className="text-xs text-muted-foreground">{timeOf(entry.createdAt)}</span>
+                </div>
+                {entry.lastError && (
+                  <p className={cn("text-xs mt-1", entry.failed ? "text-destructive" : "text-muted-foreground")}>
+                    {entry.failed ? 'Not accepted: ' : `Tried ${entry.attempts}×: `}
+                    {entry.lastError}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {status.nextAttemptAt && !syncing && (
+          <p className="text-xs text-muted-foreground mb-3">
+            Next try at {timeOf(status.nextAttemptAt)}.
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="flex-1"
+            onClick={() => void retryOutbox()}
+            disabled={syncing || (pending === 0 && failed === 0)}
+          >
+            <RefreshCw className={cn("w-4 h-4 mr-2", syncing && "animate-spin")} />
+            Retry Now
+          </Button>
+          {failed > 0 && (
+            <Button size="sm" variant="outline" onClick={discardFailedWrites}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Discard Failed
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
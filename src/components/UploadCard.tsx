@@ -1,6 +1,8 @@
 import { useState, useCallback, useRef } from 'react';
-import { Upload, Image as ImageIcon, X, Loader2 } from 'lucide-react';
+import { Upload, Image as ImageIcon, X, Loader2, Camera } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { CameraCapture } from '@/components/CameraCapture';
+import { hasCameraSupport, type CameraStreamSource } from '@/lib/camera';
 import { cn } from '@/lib/utils';
 
 interface UploadCardProps {
@@ -10,6 +12,9 @@ interface UploadCardProps {
   className?: string;
   accept?: string;
   maxSize?: number; // in MB
+  // Offer taking a photo with the webcam (falls back to the file picker without one)
+  allowCamera?: boolean;
+  getCameraStream?: CameraStreamSource;
 }
 
 export function UploadCard({
@@ -19,7 +24,10 @@ export function UploadCard({
   className,
   accept = "image/*",
   maxSize = 10,
+  allowCamera = true,
+  getCameraStream,
 }: UploadCardProps) {
+  const [isCapturing, setIsCapturing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -47,7 +55,7 @@ export function UploadCard({
     try {
       await onUpload(file);
     } catch (err) {
-      setError('Upload failed. Please try again.');
+      setError(err instanceof Error ? err.message : 'Upload failed. Please try again.');
     } finally {
       setIsUploading(false);
     }
@@ -84,6 +92,16 @@ export function UploadCard({
     }
   };
 
+  const handleCameraCapture = useCallback(async (file: File) => {
+    await onUpload(file);
+    setIsCapturing(false);
+  }, [onUpload]);
+
+  const handleCameraUnavailable = useCallback((message: string) => {
+    setIsCapturing(false);
+    setError(message);
+  }, []);
+
   if (previewUrl) {
     return (
       <div className={cn("relative rounded-xl overflow-hidden border-2 border-border bg-card", className)}>
@@ -113,6 +131,18 @@ export function UploadCard({
     );
   }
 
+  if (isCapturing) {
+    return (
+      <CameraCapture
+        className={className}
+        onCapture={handleCameraCapture}
+        onCancel={() => setIsCapturing(false)}
+        onUnavailable={handleCameraUnavailable}
+        getStream={getCameraStream}
+      />
+    );
+  }
+
   return (
     <div
       className={cn(
@@ -161,6 +191,21 @@ export function UploadCard({
             <p className="text-sm text-muted-foreground">
               PNG, JPG, or GIF up to {maxSize}MB
             </p>
+            {allowCamera && hasCameraSupport() && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-4"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setError(null);
+                  setIsCapturing(true);
+                }}
+              >
+                <Camera className="w-4 h-4 mr-2" />
+                Take a Photo
+              </Button>
+            )}
             {error && (
               <p className="text-sm text-destructive mt-2">{error}</p>
             )}
@@ -0,0 +1,43 @@
+import { createContext, useContext, useEffect, useState, useMemo, ReactNode } from 'react';
+import { createVersionedStore } from '@/lib/persistence';
+import { COLOR_METRICS, DEFAULT_COLOR_METRIC, type ColorMetric } from '@shared/color';
+
+// How prediction accuracy is scored; chosen by the teacher for this device
+const metricStore = createVersionedStore('tangible-ai-color-metric', 1, []);
+
+function loadColorMetric(): ColorMetric {
+  const loaded = metricStore.load();
+  const metric = loaded.status === 'loaded' ? loaded.data : null;
+  return typeof metric === 'string' && metric in COLOR_METRICS ? (metric as ColorMetric) : DEFAULT_COLOR_METRIC;
+}
+
+interface ColorMetricContextType {
+  metric: ColorMetric;
+  setMetric: (metric: ColorMetric) => void;
+}
+
+const ColorMetricContext = createContext<ColorMetricContextType | undefined>(undefined);
+
+export function ColorMetricProvider({ children }: { children: ReactNode }) {
+  const [metric, setMetric] = useState<ColorMetric>(loadColorMetric);
+
+  useEffect(() => {
+    metricStore.save(metric);
+  }, [metric]);
+
+  const contextValue = useMemo(() => ({ metric, setMetric }), [metric]);
+
+  return (
+    <ColorMetricContext.Provider value={contextValue}>
+      {children}
+    </ColorMetricContext.Provider>
+  );
+}
+
+export function useColorMetric() {
+  const context = useContext(ColorMetricContext);
+  if (!context) {
+    throw new Error('useColorMetric must be used within a ColorMetricProvider');
+  }
+  return context;
+}
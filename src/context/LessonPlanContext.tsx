@@ -0,0 +1,87 @@
+import { createContext, useContext, useEffect, useState, useCallback, useMemo, ReactNode } from 'react';
+import {
+  BUILT_IN_PLANS,
+  isBuiltInPlan,
+  loadLessonPlanLibrary,
+  saveLessonPlanLibrary,
+  validateLessonPlan,
+  type LessonPlan,
+  type LessonPlanLibrary,
+} from '@/lib/lessonPlans';
+import { resolveSteps, type WorkflowStep } from '@/lib/workflow';
+
+interface LessonPlanContextType {
+  // Built-in plans first, then the teacher's own
+  plans: LessonPlan[];
+  activePlan: LessonPlan;
+  // Steps of the active plan, in order
+  steps: WorkflowStep[];
+  setActivePlan: (planId: string) => void;
+  savePlan: (plan: LessonPlan) => void;
+  deletePlan: (planId: string) => void;
+}
+
+const LessonPlanContext = createContext<LessonPlanContextType | undefined>(undefined);
+
+export function LessonPlanProvider({ children }: { children: ReactNode }) {
+  const [library, setLibrary] = useState<LessonPlanLibrary>(loadLessonPlanLibrary);
+
+  useEffect(() => {
+    saveLessonPlanLibrary(library);
+  }, [library]);
+
+  const setActivePlan = useCallback((planId: string) => {
+    setLibrary((prev) => {
+      const exists = isBuiltInPlan(planId) || prev.plans.some((p) => p.id === planId);
+      return exists ? { ...prev, activePlanId: planId } : prev;
+    });
+  }, []);
+
+  // Adds the plan, or replaces the saved plan with the same id
+  const savePlan = useCallback((plan: LessonPlan) => {
+    if (isBuiltInPlan(plan.id)) throw new Error('Built-in lesson plans cannot be changed');
+    const errors = validateLessonPlan(plan);
+    if (errors.length > 0) throw new Error(errors[0]);
+    const saved = { ...plan, name: plan.name.trim() };
+    setLibrary((prev) => ({
+      ...prev,
+      plans: prev.plans.some((p) => p.id === plan.id)
+        ? prev.plans.map((p) => (p.id === plan.id ? saved : p))
+        : [...prev.plans, saved],
+    }));
+  }, []);
+
+  const deletePlan = useCallback((planId: string) => {
+    setLibrary((prev) => ({
+      plans: prev.plans.filter((p) => p.id !== planId),
+      activePlanId: prev.activePlanId === planId ? BUILT_IN_PLANS[0].id : prev.activePlanId,
+    }));
+  }, []);
+
+  const contextValue = useMemo<LessonPlanContextType>(() => {
+    const plans = [...BUILT_IN_PLANS, ...library.plans];
+    const activePlan = plans.find((p) => p.id === library.activePlanId) ?? BUILT_IN_PLANS[0];
+    return {
+      plans,
+      activePlan,
+      steps: resolveSteps(activePlan.steps),
+      setActivePlan,
+      savePlan,
+      deletePlan,
+    };
+  }, [library, setActivePlan, savePlan, deletePlan]);
+
+  return (
+    <LessonPlanContext.Provider value={contextValue}>
+      {children}
+    </LessonPlanContext.Provider>
+  );
+}
+
+export function useLessonPlan() {
+  const context = useContext(LessonPlanContext);
+  if (!context) {
+    throw new Error('useLessonPlan must be used within a LessonPlanProvider');
+  }
+  return context;
+}
@@ -0,0 +1,82 @@
+import { createContext, useContext, useEffect, useState, useMemo, useCallback, ReactNode } from 'react';
+import { createVersionedStore } from '@/lib/persistence';
+import { getApiErrorMessage, reportModerationFlag } from '@/lib/api';
+import {
+  DEFAULT_MODERATION_POLICY,
+  MAX_MESSAGE_LENGTH_LIMIT,
+  MIN_MESSAGE_LENGTH_LIMIT,
+  type ModerationFlag,
+  type ModerationPolicy,
+} from '@/lib/moderation';
+import { moderationPolicySchemas, recoverFields } from '@/lib/schemas';
+
+// The chat policy is chosen by the teacher for this device. Flagged messages
+// go to the backend, so the dashboard lists them on any device.
+const policyStore = createVersionedStore('tangible-ai-moderation-policy', 1, []);
+
+function loadPolicy(): ModerationPolicy {
+  const loaded = policyStore.load();
+  if (loaded.status !== 'loaded') return DEFAULT_MODERATION_POLICY;
+  const { value, invalidFields } = recoverFields<ModerationPolicy>(
+    moderationPolicySchemas,
+    loaded.data,
+    DEFAULT_MODERATION_POLICY,
+  );
+  if (invalidFields.length > 0) {
+    console.warn('Moderation: reset invalid policy settings', invalidFields);
+  }
+  return value;
+}
+
+// Queued in the outbox when the backend is away, so a flag is only lost if
+// the server refuses it
+function sendFlag(flag: ModerationFlag) {
+  reportModerationFlag(flag).catch((error) => {
+    console.warn('Moderation: could not report a flagged message:', getApiErrorMessage(error));
+  });
+}
+
+const clampLength = (length: number) =>
+  Math.round(Math.min(MAX_MESSAGE_LENGTH_LIMIT, Math.max(MIN_MESSAGE_LENGTH_LIMIT, length)));
+
+interface ModerationContextType {
+  policy: ModerationPolicy;
+  updatePolicy: (changes: Partial<ModerationPolicy>) => void;
+  logFlag: (flag: ModerationFlag) => void;
+}
+
+const ModerationContext = createContext<ModerationContextType | undefined>(undefined);
+
+export function ModerationProvider({ children }: { children: ReactNode }) {
+  const [policy, setPolicy] = useState<ModerationPolicy>(loadPolicy);
+
+  useEffect(() => {
+    policyStore.save(policy);
+  }, [policy]);
+
+  const updatePolicy = useCallback((changes: Partial<ModerationPolicy>) => {
+    setPolicy((prev) => {
+      const next = { ...prev, ...changes };
+      return { ...next, maxMessageLength: clampLength(next.maxMessageLength) };
+    });
+  }, []);
+
+  const contextValue = useMemo(
+    () => ({ policy, updatePolicy, logFlag: sendFlag }),
+    [policy, updatePolicy],
+  );
+
+  return (
+    <ModerationContext.Provider value={contextValue}>
+      {children}
+    </ModerationContext.Provider>
+  );
+}
+
+export function useModeration() {
+  const context = useContext(ModerationContext);
+  if (!context) {
+    throw new Error('useModeration must be used within a ModerationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,90 @@
+import { createContext, useContext, useEffect, useState, useCallback, useMemo, ReactNode } from 'react';
+import {
+  clearProfileData,
+  createProfileRecord,
+  loadProfileRegistry,
+  saveProfileRegistry,
+  validateProfileName,
+  type ProfileRegistry,
+  type StudentProfile,
+} from '@/lib/profiles';
+
+interface ProfileContextType {
+  profiles: StudentProfile[];
+  activeProfile: StudentProfile | null;
+  createProfile: (name: string) => StudentProfile;
+  selectProfile: (profileId: string) => void;
+  renameProfile: (profileId: string, name: string) => void;
+  deleteProfile: (profileId: string) => void;
+  signOut: () => void;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export function ProfileProvider({ children }: { children: ReactNode }) {
+  const [registry, setRegistry] = useState<ProfileRegistry>(loadProfileRegistry);
+
+  useEffect(() => {
+    saveProfileRegistry(registry);
+  }, [registry]);
+
+  const createProfile = useCallback((name: string) => {
+    const error = validateProfileName(name, registry.profiles);
+    if (error) throw new Error(error);
+    const profile = createProfileRecord(name, registry.profiles);
+    setRegistry((prev) => ({ profiles: [...prev.profiles, profile], activeProfileId: profile.id }));
+    return profile;
+  }, [registry.profiles]);
+
+  const selectProfile = useCallback((profileId: string) => {
+    setRegistry((prev) => ({
+      profiles: prev.profiles.map((p) => (p.id === profileId ? { ...p, lastActiveAt: new Date() } : p)),
+      activeProfileId: prev.profiles.some((p) => p.id === profileId) ? profileId : prev.activeProfileId,
+    }));
+  }, []);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    const error = validateProfileName(name, registry.profiles, profileId);
+    if (error) throw new Error(error);
+    setRegistry((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((p) => (p.id === profileId ? { ...p, name: name.trim() } : p)),
+    }));
+  }, [registry.profiles]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    clearProfileData(profileId);
+    setRegistry((prev) => ({
+      profiles: prev.profiles.filter((p) => p.id !== profileId),
+      activeProfileId: prev.activeProfileId === profileId ? null : prev.activeProfileId,
+    }));
+  }, []);
+
+  const signOut = useCallback(() => {
+    setRegistry((prev) => ({ ...prev, activeProfileId: null }));
+  }, []);
+
+  const contextValue = useMemo<ProfileContextType>(() => ({
+    profiles: registry.profiles,
+    activeProfile: registry.profiles.find((p) => p.id === registry.activeProfileId) ?? null,
+    createProfile,
+    selectProfile,
+    renameProfile,
+    deleteProfile,
+    signOut,
+  }), [registry, createProfile, selectProfile, renameProfile, deleteProfile, signOut]);
+
+  return (
+    <ProfileContext.Provider value={contextValue}>
+      {children}
+    </ProfileContext.Provider>
+  );
+}
+
+export function useProfiles() {
+  const context = useContext(ProfileContext);
+  if (!context) {
+    throw new Error('useProfiles must be used within a ProfileProvider');
+  }
+  return context;
+}
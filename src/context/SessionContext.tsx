@@ -1,55 +1,117 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useMemo, useRef, useState, useCallback, ReactNode } from 'react';
+import { toast } from '@/components/ui/sonner';
 import type { RobotCoordinates, RGBColor, CVResult, ChatMessage } from '@/lib/api';
+import { recoverFields, sessionStateSchemas } from '@/lib/schemas';
+import { createVersionedStore, type VersionedStore } from '@/lib/persistence';
+import { SESSION_MIGRATIONS, SESSION_STORAGE_VERSION } from '@/lib/sessionMigrations';
+import { sessionStorageKeyFor, type StudentProfile } from '@/lib/profiles';
+import { useProfiles } from '@/context/ProfileContext';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import { NO_HINTS, type HintLadderId, type HintLevels } from '@/lib/hints';
+import {
+  appendAttempt,
+  createAttempt,
+  findAttempt,
+  isArchivable,
+  loadHistory,
+  reportAttempt,
+  type SessionAttempt,
+} from '@/lib/history';
+import { deleteDrawings, drawingOwnerFor, keepThumbnailsOnly, sweepDrawings } from '@/lib/drawingStore';
+
+// One analysed drawing from the verification step
+export interface DrawingAttempt {
+  imageUrl: string;
+  accuracy: number;
+  confidence: number;
+  analyzedAt: Date;
+}
 
 export interface SessionState {
-  studentId: string;
+  studentName: string;
   robotCoordinates: RobotCoordinates;
   uploadedImage: string | null;
   cvResult: CVResult | null;
+  // Every drawing analysed this session, oldest first
+  drawingAttempts: DrawingAttempt[];
   studentCoordinates: RobotCoordinates | null;
   studentRgb: RGBColor;
   aiRgb: RGBColor | null;
   chatHistory: ChatMessage[];
   completedSteps: string[];
   currentStep: string;
+  // Set once the finished session has been saved to the student's history
+  archivedAttemptId: string | null;
+  // Hints revealed so far on each hint ladder
+  hintLevels: HintLevels;
+  // Seconds spent on each step, by step id
+  stepSeconds: Record<string, number>;
 }
 
 type SessionAction =
-  | { type: 'SET_STUDENT_ID'; payload: string }
+  | { type: 'SET_STUDENT_NAME'; payload: string }
   | { type: 'SET_ROBOT_COORDINATES'; payload: RobotCoordinates }
   | { type: 'SET_UPLOADED_IMAGE'; payload: string }
   | { type: 'SET_CV_RESULT'; payload: CVResult }
+  | { type: 'RESTART_DRAWING'; payload: string[] }
   | { type: 'SET_STUDENT_COORDINATES'; payload: RobotCoordinates }
   | { type: 'SET_STUDENT_RGB'; payload: RGBColor }
   | { type: 'SET_AI_RGB'; payload: RGBColor }
   | { type: 'ADD_CHAT_MESSAGE'; payload: ChatMessage }
+  | { type: 'REVEAL_HINT'; payload: HintLadderId }
+  | { type: 'ADD_STEP_TIME'; payload: { stepId: string; seconds: number } }
   | { type: 'COMPLETE_STEP'; payload: string }
   | { type: 'SET_CURRENT_STEP'; payload: string }
-  | { type: 'RESET_SESSION' };
+  | { type: 'RESET_SESSION' }
+  | { type: 'LOAD_SESSION'; payload: SessionState }
+  | { type: 'MARK_ARCHIVED'; payload: string };
 
-const initialState: SessionState = {
-  studentId: `student_${Date.now()}`,
+const createInitialState = (studentName: string): SessionState => ({
+  studentName,
   robotCoordinates: { x: 128, y: 128, z: 128 },
   uploadedImage: null,
   cvResult: null,
+  drawingAttempts: [],
   studentCoordinates: null,
   studentRgb: { r: 128, g: 128, b: 128 },
   aiRgb: null,
   chatHistory: [],
   completedSteps: [],
   currentStep: 'placement',
-};
+  archivedAttemptId: null,
+  hintLevels: NO_HINTS,
+  stepSeconds: {},
+});
 
 function sessionReducer(state: SessionState, action: SessionAction): SessionState {
   switch (action.type) {
-    case 'SET_STUDENT_ID':
-      return { ...state, studentId: action.payload };
+    case 'SET_STUDENT_NAME':
+      return { ...state, studentName: action.payload };
     case 'SET_ROBOT_COORDINATES':
       return { ...state, robotCoordinates: action.payload };
     case 'SET_UPLOADED_IMAGE':
-      return { ...state, uploadedImage: action.payload };
-    case 'SET_CV_RESULT':
-      return { ...state, cvResult: action.payload };
+      // A new upload always needs a fresh analysis, even if the URL is reused
+      return { ...state, uploadedImage: action.payload, cvResult: null };
+    case 'SET_CV_RESULT': {
+      if (!state.uploadedImage) {
+        return { ...state, cvResult: action.payload };
+      }
+      const attempt: DrawingAttempt = {
+        imageUrl: state.uploadedImage,
+        accuracy: action.payload.accuracy,
+        confidence: action.payload.confidence,
+        analyzedAt: new Date(),
+      };
+      return { ...state, cvResult: action.payload, drawingAttempts: [...state.drawingAttempts, attempt] };
+    }
+    case 'RESTART_DRAWING':
+      // Payload: the drawing and verification steps to do again
+      return {
+        ...state,
+        uploadedImage: null,
+        cvResult: null,
+        completedSteps: state.completedSteps.filter((id) => !action.payload.includes(id)),
+      };
     case 'SET_STUDENT_COORDINATES':
       return { ...state, studentCoordinates: action.payload };
     case 'SET_STUDENT_RGB':
@@ -58,6 +120,15 @@ function sessionReducer(state: SessionState, action: SessionAction): SessionStat
       return { ...state, aiRgb: action.payload };
     case 'ADD_CHAT_MESSAGE':
       return { ...state, chatHistory: [...state.chatHistory, action.payload] };
+    case 'REVEAL_HINT':
+      return {
+        ...state,
+        hintLevels: { ...state.hintLevels, [action.payload]: state.hintLevels[action.payload] + 1 },
+      };
+    case 'ADD_STEP_TIME': {
+      const { stepId, seconds } = action.payload;
+      return { ...state, stepSeconds: { ...state.stepSeconds, [stepId]: (state.stepSeconds[stepId] ?? 0) + seconds } };
+    }
     case 'COMPLETE_STEP':
       if (state.completedSteps.includes(action.payload)) {
         return state;
@@ -66,7 +137,11 @@ function sessionReducer(state: SessionState, action: SessionAction): SessionStat
     case 'SET_CURRENT_STEP':
       return { ...state, currentStep: action.payload };
     case 'RESET_SESSION':
-      return { ...initialState, studentId: `student_${Date.now()}` };
+      return createInitialState(state.studentName);
+    case 'LOAD_SESSION':
+      return action.payload;
+    case 'MARK_ARCHIVED':
+      return { ...state, archivedAttemptId: action.payload };
     default:
       return state;
   }
@@ -78,59 +153,251 @@ interface SessionContextType {
   setRobotCoordinates: (coords: RobotCoordinates) => void;
   setUploadedImage: (url: string) => void;
   setCvResult: (result: CVResult) => void;
+  restartDrawing: (stepIds: string[]) => void;
   setStudentCoordinates: (coords: RobotCoordinates) => void;
   setStudentRgb: (rgb: RGBColor) => void;
   setAiRgb: (rgb: RGBColor) => void;
   addChatMessage: (message: ChatMessage) => void;
+  revealHint: (ladder: HintLadderId) => void;
   completeStep: (stepId: string) => void;
   setCurrentStep: (stepId: string) => void;
+  // Time on a step counts from startStepTimer until stopStepTimer, the page
+  // being hidden, or the session being archived
+  startStepTimer: (stepId: string) => void;
+  stopStepTimer: (stepId: string) => void;
+  archiveSession: () => SessionAttempt | null;
   resetSession: () => void;
 }
 
 const SessionContext = createContext<SessionContextType | undefined>(undefined);
 
-const STORAGE_KEY = 'tangible-ai-session';
+// Every drawing a session refers to, the current one first
+function drawingsOf(state: SessionState): string[] {
+  const urls = [state.uploadedImage, ...state.drawingAttempts.map((a) => a.imageUrl)];
+  return [...new Set(urls.filter((url): url is string => !!url))];
+}
+
+function archivedDrawings(profileId: string | null): Set<string> {
+  return new Set(loadHistory(profileId).flatMap((attempt) => drawingsOf(attempt.session)));
+}
+
+const warnDrawingCleanup = (error: unknown) => console.warn('Drawings: clean-up failed:', error);
+
+// A single visit to a step counts for at most this long, so a tab left open
+// overnight doesn't swamp the real times
+const MAX_STEP_VISIT_SECONDS = 30 * 60;
+
+// A stretch of time on a step
+interface StepVisit {
+  stepId: string;
+  since: number;
+}
+
+// Adds the time since the visit began to its step, or null if none has passed
+function stepTimeAction(visit: StepVisit): SessionAction | null {
+  const seconds = Math.min(MAX_STEP_VISIT_SECONDS, Math.round((Date.now() - visit.since) / 1000));
+  return seconds > 0 ? { type: 'ADD_STEP_TIME', payload: { stepId: visit.stepId, seconds } } : null;
+}
+
+const createSessionStore = (profileId: string | null): VersionedStore =>
+  createVersionedStore(sessionStorageKeyFor(profileId), SESSION_STORAGE_VERSION, SESSION_MIGRATIONS);
+
+interface RestoredSession {
+  state: SessionState;
+  invalidFields: string[];
+}
+
+function restoreSession(store: VersionedStore, initial: SessionState): RestoredSession {
+  const loaded = store.load();
+  if (loaded.status === 'empty') return { state: initial, invalidFields: [] };
+  if (loaded.status === 'error') {
+    console.warn('Session: could not load saved session:', loaded.reason);
+    return { state: initial, invalidFields: ['(root)'] };
+  }
+  if (loaded.migrated) {
+    console.info(`Session: upgraded saved session from version ${loaded.fromVersion} to ${SESSION_STORAGE_VERSION}`);
+  }
+
+  const { value, invalidFields } = recoverFields(sessionStateSchemas, loaded.data, initial);
+  return { state: value, invalidFields };
+}
+
+// Saved in-progress session of a profile, without mounting it
+export function peekSavedSession(profileId: string): SessionState | null {
+  const restored = restoreSession(createSessionStore(profileId), createInitialState(profileId));
+  return restored.invalidFields.includes('(root)') ? null : restored.state;
+}
+
+interface LoadedSession extends RestoredSession {
+  profileId: string | null;
+}
+
+function loadSessionFor(profile: StudentProfile | null): LoadedSession {
+  const profileId = profile?.id ?? null;
+  const initial = createInitialState(profile?.name ?? `student_${Date.now()}`);
+  return { profileId, ...restoreSession(createSessionStore(profileId), initial) };
+}
 
 export function SessionProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(sessionReducer, initialState, (initial) => {
-    if (typeof window === 'undefined') return initial;
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        // Restore dates for chat messages
-        if (parsed.chatHistory) {
-          parsed.chatHistory = parsed.chatHistory.map((msg: ChatMessage) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp),
-          }));
-        }
-        return { ...initial, ...parsed };
-      } catch {
-        return initial;
-      }
+  const { activeProfile } = useProfiles();
+  const { steps } = useLessonPlan();
+  const profileId = activeProfile?.id ?? null;
+  const store = useMemo(() => createSessionStore(profileId), [profileId]);
+  const [loaded, setLoaded] = useState(() => loadSessionFor(activeProfile));
+  const [state, dispatch] = useReducer(sessionReducer, loaded.state);
+
+  // The step being timed and when the current stretch on it began
+  const stepVisitRef = useRef<StepVisit | null>(null);
+
+  // Switching students swaps in the new student's saved session. The old
+  // one was already persisted by the effect below, all but the time on the
+  // step it was left on, which is saved to it here rather than charged to the
+  // next student. The step is still open, so its timer starts over for them.
+  if (loaded.profileId !== profileId) {
+    const visit = stepVisitRef.current;
+    if (visit) {
+      const action = stepTimeAction(visit);
+      if (action) createSessionStore(loaded.profileId).save(sessionReducer(state, action));
+      stepVisitRef.current = { stepId: visit.stepId, since: Date.now() };
     }
-    return initial;
-  });
+    const next = loadSessionFor(activeProfile);
+    setLoaded(next);
+    dispatch({ type: 'LOAD_SESSION', payload: next.state });
+  }
+
+  // Results are recorded under the profile's current name
+  const profileName = activeProfile?.name;
+  useEffect(() => {
+    if (profileName && profileName !== state.studentName) {
+      dispatch({ type: 'SET_STUDENT_NAME', payload: profileName });
+    }
+  }, [profileName, state.studentName]);
+
+  // Tell the student when part of their saved progress could not be restored
+  useEffect(() => {
+    if (loaded.invalidFields.length === 0) return;
+    console.warn('Session: dropped invalid saved fields', loaded.invalidFields);
+    toast.warning('Some saved progress could not be restored', {
+      description: 'Those steps have been reset. Everything else was kept.',
+    });
+  }, [loaded]);
+
+  // Archiving reads the latest state outside of render
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
   // Persist to localStorage
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  }, [state]);
+    store.save(state);
+  }, [store, state]);
+
+  // Drawings of this student that neither the session nor an archived
+  // attempt refers to (e.g. replaced before they were analysed) are removed
+  useEffect(() => {
+    const inUse = [...drawingsOf(stateRef.current), ...archivedDrawings(profileId)];
+    sweepDrawings(drawingOwnerFor(profileId), inUse).catch(warnDrawingCleanup);
+  }, [profileId]);
+
+  // dispatch never changes, so the action helpers can be created once
+  const actions = useMemo(() => ({
+    setRobotCoordinates: (coords: RobotCoordinates) => dispatch({ type: 'SET_ROBOT_COORDINATES', payload: coords }),
+    setUploadedImage: (url: string) => dispatch({ type: 'SET_UPLOADED_IMAGE', payload: url }),
+    setCvResult: (result: CVResult) => dispatch({ type: 'SET_CV_RESULT', payload: result }),
+    restartDrawing: (stepIds: string[]) => dispatch({ type: 'RESTART_DRAWING', payload: stepIds }),
+    setStudentCoordinates: (coords: RobotCoordinates) => dispatch({ type: 'SET_STUDENT_COORDINATES', payload: coords }),
+    setStudentRgb: (rgb: RGBColor) => dispatch({ type: 'SET_STUDENT_RGB', payload: rgb }),
+    setAiRgb: (rgb: RGBColor) => dispatch({ type: 'SET_AI_RGB', payload: rgb }),
+    addChatMessage: (message: ChatMessage) => dispatch({ type: 'ADD_CHAT_MESSAGE', payload: message }),
+    revealHint: (ladder: HintLadderId) => dispatch({ type: 'REVEAL_HINT', payload: ladder }),
+    // The ref is updated too, as finishing the lesson archives straight away
+    completeStep: (stepId: string) => {
+      const action: SessionAction = { type: 'COMPLETE_STEP', payload: stepId };
+      stateRef.current = sessionReducer(stateRef.current, action);
+      dispatch(action);
+    },
+    setCurrentStep: (stepId: string) => dispatch({ type: 'SET_CURRENT_STEP', payload: stepId }),
+  }), []);
+
+  // Adds the time since the visit began to its step. The ref is updated too,
+  // as archiving may follow straight away.
+  const closeStepVisit = useCallback(() => {
+    const visit = stepVisitRef.current;
+    if (!visit) return;
+    stepVisitRef.current = null;
+    const action = stepTimeAction(visit);
+    if (!action) return;
+    stateRef.current = sessionReducer(stateRef.current, action);
+    dispatch(action);
+  }, []);
+
+  const startStepTimer = useCallback((stepId: string) => {
+    closeStepVisit();
+    stepVisitRef.current = { stepId, since: Date.now() };
+  }, [closeStepVisit]);
+
+  const stopStepTimer = useCallback((stepId: string) => {
+    if (stepVisitRef.current?.stepId === stepId) closeStepVisit();
+  }, [closeStepVisit]);
+
+  // Time with the page hidden doesn't count
+  useEffect(() => {
+    let pausedStepId: string | null = null;
+    const handleVisibility = () => {
+      if (document.hidden) {
+        pausedStepId = stepVisitRef.current?.stepId ?? null;
+        closeStepVisit();
+      } else if (pausedStepId) {
+        stepVisitRef.current = { stepId: pausedStepId, since: Date.now() };
+        pausedStepId = null;
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [closeStepVisit]);
+
+  // Save a finished session to the student's history (once); returns the
+  // attempt, or null if the session hasn't reached the end of the lesson yet
+  const archiveSession = useCallback((): SessionAttempt | null => {
+    if (stateRef.current.archivedAttemptId) {
+      return findAttempt(profileId, stateRef.current.archivedAttemptId);
+    }
+    // The time on the step the student finished from counts too, so it is
+    // added before the snapshot is taken
+    closeStepVisit();
+    if (!isArchivable(stateRef.current, steps)) return null;
+
+    const current = stateRef.current;
+    const attempt = createAttempt(current, profileId);
+    appendAttempt(profileId, attempt);
+    // The attempt shows its final drawing in full and the earlier ones as thumbnails
+    keepThumbnailsOnly(drawingsOf(current).filter((url) => url !== current.uploadedImage)).catch(warnDrawingCleanup);
+    stateRef.current = { ...current, archivedAttemptId: attempt.id };
+    dispatch({ type: 'MARK_ARCHIVED', payload: attempt.id });
+    return attempt;
+  }, [profileId, steps, closeStepVisit]);
+
+  // Starting over keeps the finished run in the history instead of dropping
+  // it, and reports it to the teacher if finishing the lesson didn't
+  const resetSession = useCallback(() => {
+    const finished = stateRef.current;
+    const attempt = archiveSession();
+    if (attempt && !attempt.reportedAt) {
+      reportAttempt(profileId, attempt).catch((error) => console.warn('Session: could not report the attempt:', error));
+    }
+    dispatch({ type: 'RESET_SESSION' });
+    // Drawings that didn't make it into the history go with the session
+    const archived = archivedDrawings(profileId);
+    deleteDrawings(drawingsOf(finished).filter((url) => !archived.has(url))).catch(warnDrawingCleanup);
+  }, [archiveSession, profileId]);
 
   const contextValue: SessionContextType = {
     state,
     dispatch,
-    setRobotCoordinates: (coords) => dispatch({ type: 'SET_ROBOT_COORDINATES', payload: coords }),
-    setUploadedImage: (url) => dispatch({ type: 'SET_UPLOADED_IMAGE', payload: url }),
-    setCvResult: (result) => dispatch({ type: 'SET_CV_RESULT', payload: result }),
-    setStudentCoordinates: (coords) => dispatch({ type: 'SET_STUDENT_COORDINATES', payload: coords }),
-    setStudentRgb: (rgb) => dispatch({ type: 'SET_STUDENT_RGB', payload: rgb }),
-    setAiRgb: (rgb) => dispatch({ type: 'SET_AI_RGB', payload: rgb }),
-    addChatMessage: (message) => dispatch({ type: 'ADD_CHAT_MESSAGE', payload: message }),
-    completeStep: (stepId) => dispatch({ type: 'COMPLETE_STEP', payload: stepId }),
-    setCurrentStep: (stepId) => dispatch({ type: 'SET_CURRENT_STEP', payload: stepId }),
-    resetSession: () => dispatch({ type: 'RESET_SESSION' }),
+    ...actions,
+    startStepTimer,
+    stopStepTimer,
+    archiveSession,
+    resetSession,
   };
 
   return (
@@ -0,0 +1,66 @@
+import { createContext, useContext, useState, useCallback, useMemo, ReactNode } from 'react';
+
+// Teacher preview unlocks every workflow step so a lesson can be walked
+// through out of order. It only lasts for the browser tab.
+const PREVIEW_STORAGE_KEY = 'tangible-ai-teacher-preview';
+
+interface TeacherPreviewContextType {
+  isPreviewing: boolean;
+  startPreview: () => void;
+  stopPreview: () => void;
+}
+
+const TeacherPreviewContext = createContext<TeacherPreviewContextType | undefined>(undefined);
+
+function readPreviewFlag(): boolean {
+  try {
+    return sessionStorage.getItem(PREVIEW_STORAGE_KEY) === 'on';
+  } catch {
+    return false;
+  }
+}
+
+function writePreviewFlag(on: boolean) {
+  try {
+    if (on) {
+      sessionStorage.setItem(PREVIEW_STORAGE_KEY, 'on');
+    } else {
+      sessionStorage.removeItem(PREVIEW_STORAGE_KEY);
+    }
+  } catch {
+    // Preview still works for this page load without storage
+  }
+}
+
+export function TeacherPreviewProvider({ children }: { children: ReactNode }) {
+  const [isPreviewing, setIsPreviewing] = useState(readPreviewFlag);
+
+  const startPreview = useCallback(() => {
+    writePreviewFlag(true);
+    setIsPreviewing(true);
+  }, []);
+
+  const stopPreview = useCallback(() => {
+    writePreviewFlag(false);
+    setIsPreviewing(false);
+  }, []);
+
+  const contextValue = useMemo<TeacherPreviewContextType>(
+    () => ({ isPreviewing, startPreview, stopPreview }),
+    [isPreviewing, startPreview, stopPreview],
+  );
+
+  return (
+    <TeacherPreviewContext.Provider value={contextValue}>
+      {children}
+    </TeacherPreviewContext.Provider>
+  );
+}
+
+export function useTeacherPreview() {
+  const context = useContext(TeacherPreviewContext);
+  if (!context) {
+    throw new Error('useTeacherPreview must be used within a TeacherPreviewProvider');
+  }
+  return context;
+}
@@ -0,0 +1,86 @@
+import { createContext, useContext, useEffect, useCallback, ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from '@/components/ui/sonner';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import { useProfiles } from '@/context/ProfileContext';
+import { useSession } from '@/context/SessionContext';
+import { getApiErrorMessage } from '@/lib/api';
+import { reportAttempt, type SessionAttempt } from '@/lib/history';
+import { getNextStep, getPrevStep, getStepIndex, type WorkflowStep } from '@/lib/workflow';
+
+// The lesson-plan step a workflow page is rendering. Pages are shared between
+// repeats of a step kind, so they read their step from here instead of
+// hard-coding ids and paths.
+const WorkflowStepContext = createContext<WorkflowStep | undefined>(undefined);
+
+export function WorkflowStepProvider({ step, children }: { step: WorkflowStep; children: ReactNode }) {
+  return (
+    <WorkflowStepContext.Provider value={step}>
+      {children}
+    </WorkflowStepContext.Provider>
+  );
+}
+
+export function useWorkflowStep() {
+  const step = useContext(WorkflowStepContext);
+  if (!step) {
+    throw new Error('useWorkflowStep must be used within a WorkflowStepProvider');
+  }
+
+  const navigate = useNavigate();
+  const { steps } = useLessonPlan();
+  const { setCurrentStep, startStepTimer, stopStepTimer, completeStep, archiveSession } = useSession();
+  const { activeProfile } = useProfiles();
+  const profileId = activeProfile?.id ?? null;
+  const nextStep = getNextStep(step.id, steps);
+  const prevStep = getPrevStep(step.id, steps);
+
+  useEffect(() => {
+    setCurrentStep(step.id);
+    startStepTimer(step.id);
+    return () => stopStepTimer(step.id);
+  }, [step.id, setCurrentStep, startStepTimer, stopStepTimer]);
+
+  // Archive the lesson and report it to the teacher. The attempt stays in the
+  // student's history even if the report fails; the completion page can
+  // try it again.
+  const finishLesson = useCallback(async (): Promise<SessionAttempt | null> => {
+    const attempt = archiveSession();
+    if (!attempt) return null;
+    try {
+      await reportAttempt(profileId, attempt);
+    } catch (error) {
+      console.error('Failed to save session:', error);
+      toast.error('Could not save your results', { description: getApiErrorMessage(error) });
+    }
+    return attempt;
+  }, [archiveSession, profileId]);
+
+  // Mark this step done and move on; the last step finishes the lesson and
+  // shows its summary
+  const goNext = useCallback(async () => {
+    completeStep(step.id);
+    if (nextStep) {
+      navigate(nextStep.path);
+      return;
+    }
+    const attempt = await finishLesson();
+    navigate(attempt ? `/complete/${attempt.id}` : '/progress');
+  }, [step.id, nextStep, completeStep, finishLesson, navigate]);
+
+  const goBack = useCallback(() => {
+    navigate(prevStep?.path ?? '/');
+  }, [prevStep, navigate]);
+
+  return {
+    step,
+    stepNumber: getStepIndex(step.id, steps) + 1,
+    totalSteps: steps.length,
+    nextStep,
+    prevStep,
+    continueLabel: nextStep ? `Continue to ${nextStep.title}` : 'Finish Lesson',
+    goNext,
+    goBack,
+    finishLesson,
+  };
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { loadDrawing, parseDrawingRef, type DrawingVariant } from '@/lib/drawingStore';
+
+export type DrawingUrlStatus = 'loading' | 'ready' | 'missing';
+
+// Something an <img> can show for a drawing: stored drawings ("drawing:<id>")
+// are read from the device, other URLs are used as they are
+export function useDrawingUrl(
+  url: string | null,
+  variant: DrawingVariant = 'image',
+): { src: string | null; status: DrawingUrlStatus } {
+  const isStored = parseDrawingRef(url) !== null;
+  const [objectUrl, setObjectUrl] = useState<{ ref: string; src: string | null } | null>(null);
+
+  useEffect(() => {
+    if (!url || !isStored) return;
+    let cancelled = false;
+    let created: string | null = null;
+
+    loadDrawing(url, variant)
+      .catch((error) => {
+        console.warn('Drawings: could not read a stored drawing:', error);
+        return null;
+      })
+      .then((blob) => {
+        if (cancelled) return;
+        created = blob ? URL.createObjectURL(blob) : null;
+        setObjectUrl({ ref: url, src: created });
+      });
+
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [url, isStored, variant]);
+
+  if (!url) return { src: null, status: 'missing' };
+  if (!isStored) return { src: url, status: 'ready' };
+  if (objectUrl?.ref !== url) return { src: null, status: 'loading' };
+  return objectUrl.src ? { src: objectUrl.src, status: 'ready' } : { src: null, status: 'missing' };
+}
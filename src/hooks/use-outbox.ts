@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getOutboxStatus, subscribeOutbox, type OutboxStatus } from '@/lib/outbox';
+
+// Live state of the offline outbox, for showing whether writes are synced
+export function useOutboxStatus(): OutboxStatus {
+  return useSyncExternalStore(subscribeOutbox, getOutboxStatus);
+}
@@ -1,26 +1,79 @@
-// API Integration Stubs
-// Replace these with actual backend URLs when available
+// API client
+// Typed wrappers around the backend routes. Requests go through a swappable
+// transport: the HTTP transport in production, or the in-memory mock when no
+// backend is available (VITE_API_TRANSPORT=mock, the default).
 
-const API_BASE = 'http://localhost:3001/api';
+import {
+  ApiError,
+  createHttpTransport,
+  createMockTransport,
+  isApiError,
+  type ApiRequest,
+  type ApiTransport,
+  type HttpMethod,
+} from '@/lib/transport';
+import { mockRoutes } from '@/lib/mockApi';
+import { MAX_PAGE_SIZE } from '@shared/dashboardQuery';
+import { colorDifference } from '@shared/color';
+import type { ModerationFlag } from '@/lib/moderation';
+import type {
+  BoundingBox,
+  ChatContext,
+  CVResult,
+  DashboardQuery,
+  DashboardResultsPayload,
+  DashboardSortKey,
+  DashboardStudent,
+  DashboardSummary,
+  MetricSummary,
+  RGBColor,
+  RobotCoordinates,
+  SessionResultPayload,
+  SortOrder,
+} from '@shared/types';
+import {
+  connectOutbox,
+  createIdempotencyKey,
+  enqueueWrite,
+  hasPendingWrites,
+  isRetryableError,
+  type QueueableRoute,
+} from '@/lib/outbox';
+import {
+  chatResponseSchema,
+  cvResultSchema,
+  dashboardResultsPayloadSchema,
+  describeIssues,
+  moderationFlagsPayloadSchema,
+  rgbColorSchema,
+  successResponseSchema,
+  uploadDrawingResponseSchema,
+  type SchemaOf,
+} from '@/lib/schemas';
 
-export interface RobotCoordinates {
-  x: number;
-  y: number;
-  z: number;
-}
+export { ApiError, isApiError };
+export { DASHBOARD_SORT_KEYS } from '@shared/types';
+export type {
+  BoundingBox,
+  ChatContext,
+  CVResult,
+  DashboardQuery,
+  DashboardResultsPayload,
+  DashboardSortKey,
+  DashboardStudent,
+  DashboardSummary,
+  MetricSummary,
+  RGBColor,
+  RobotCoordinates,
+  SessionResultPayload,
+  SortOrder,
+};
 
-export interface CVResult {
-  accuracy: number;
-  detectedObjects: string[];
-  boundingBoxes: { x: number; y: number; width: number; height: number }[];
-  confidence: number;
-}
+export const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+const API_TRANSPORT = import.meta.env.VITE_API_TRANSPORT || 'mock';
 
-export interface RGBColor {
-  r: number;
-  g: number;
-  b: number;
-}
+// Frame that boxes were expressed in before results carried the image size
+export const LEGACY_BOX_FRAME = { width: 400, height: 300 };
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
@@ -28,151 +81,282 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
-export interface SessionResult {
-  studentId: string;
+export interface SessionResult extends Omit<SessionResultPayload, 'date'> {
   date: Date;
-  robotCoordinates: RobotCoordinates;
-  cvAccuracy: number;
-  studentRgb: RGBColor;
-  aiRgb: RGBColor;
-  rgbDelta: number;
-}
-
-// Mock delay to simulate network
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-export async function sendRobotCoordinates(coords: RobotCoordinates): Promise<{ success: boolean }> {
-  await delay(500);
-  console.log('API: Sending robot coordinates', coords);
-  // TODO: Replace with actual API call
-  // return fetch(`${API_BASE}/robot/coordinates`, {
-  //   method: 'POST',
-  //   headers: { 'Content-Type': 'application/json' },
-  //   body: JSON.stringify(coords),
-  // }).then(res => res.json());
-  return { success: true };
-}
-
-export async function uploadDrawing(file: File): Promise<{ success: boolean; imageUrl: string }> {
-  await delay(1000);
-  console.log('API: Uploading drawing', file.name);
-  // TODO: Replace with actual API call
-  // const formData = new FormData();
-  // formData.append('drawing', file);
-  // return fetch(`${API_BASE}/upload/drawing`, {
-  //   method: 'POST',
-  //   body: formData,
-  // }).then(res => res.json());
-  return { 
-    success: true, 
-    imageUrl: URL.createObjectURL(file) 
-  };
 }
 
-export async function fetchCvResult(imageUrl: string): Promise<CVResult> {
-  await delay(1500);
-  console.log('API: Fetching CV result for', imageUrl);
-  // TODO: Replace with actual API call
-  // return fetch(`${API_BASE}/cv/analyze`, {
-  //   method: 'POST',
-  //   headers: { 'Content-Type': 'application/json' },
-  //   body: JSON.stringify({ imageUrl }),
-  // }).then(res => res.json());
-  return {
-    accuracy: Math.random() * 30 + 70, // 70-100%
-    detectedObjects: ['robot', 'cube', 'grid'],
-    boundingBoxes: [
-      { x: 100, y: 100, width: 200, height: 200 },
-    ],
-    confidence: Math.random() * 20 + 80,
-  };
+export interface SuccessResponse {
+  success: boolean;
+}
+
+// Result of a write that may have been queued in the outbox instead of sent
+export interface WriteResponse extends SuccessResponse {
+  // Kept on this device until the backend can be reached
+  queued?: boolean;
+}
+
+export interface UploadDrawingResponse extends SuccessResponse {
+  imageUrl: string;
+}
+
+export interface ChatRequest {
+  message: string;
+  context: ChatContext;
+}
+
+export interface ChatResponse {
+  reply: string;
+}
+
+export interface CvAnalyzeRequest {
+  imageUrl: string;
+  // The robot's real position, to score the drawn position against
+  robotCoordinates?: RobotCoordinates;
+}
+
+export type ModerationFlagPayload = Omit<ModerationFlag, 'flaggedAt'> & { flaggedAt: string };
+
+export interface ModerationFlagsPayload {
+  // Flags not dismissed yet, oldest first
+  flags: ModerationFlagPayload[];
+}
+
+export interface DismissFlagsRequest {
+  ids: string[];
+}
+
+export interface DashboardResults extends Omit<DashboardResultsPayload, 'rows'> {
+  rows: SessionResult[];
+}
+
+// Request/response shape of every backend route, keyed by "METHOD /path"
+export interface ApiRoutes {
+  'POST /robot/coordinates': { body: RobotCoordinates; response: SuccessResponse };
+  'POST /upload/drawing': { body: FormData; response: UploadDrawingResponse };
+  'POST /cv/analyze': { body: CvAnalyzeRequest; response: CVResult };
+  'POST /student/coordinates': { body: RobotCoordinates; response: SuccessResponse };
+  'POST /student/rgb': { body: RGBColor; response: SuccessResponse };
+  'POST /ai/rgb': { body: RobotCoordinates; response: RGBColor };
+  'POST /chat/message': { body: ChatRequest; response: ChatResponse };
+  'POST /sessions': { body: SessionResultPayload; response: SuccessResponse };
+  'GET /sessions': { body: undefined; response: DashboardResultsPayload };
+  'POST /moderation/flags': { body: ModerationFlagPayload; response: SuccessResponse };
+  'POST /moderation/flags/dismiss': { body: DismissFlagsRequest; response: SuccessResponse };
+  'GET /moderation/flags': { body: undefined; response: ModerationFlagsPayload };
+}
+
+export type ApiRoute = keyof ApiRoutes;
+
+// Every response is checked against its schema before it reaches the app
+const RESPONSE_SCHEMAS: { [R in ApiRoute]: SchemaOf<ApiRoutes[R]['response']> } = {
+  'POST /robot/coordinates': successResponseSchema,
+  'POST /upload/drawing': uploadDrawingResponseSchema,
+  'POST /cv/analyze': cvResultSchema,
+  'POST /student/coordinates': successResponseSchema,
+  'POST /student/rgb': successResponseSchema,
+  'POST /ai/rgb': rgbColorSchema,
+  'POST /chat/message': chatResponseSchema,
+  'POST /sessions': successResponseSchema,
+  'GET /sessions': dashboardResultsPayloadSchema,
+  'POST /moderation/flags': successResponseSchema,
+  'POST /moderation/flags/dismiss': successResponseSchema,
+  'GET /moderation/flags': moderationFlagsPayloadSchema,
+};
+
+function createDefaultTransport(): ApiTransport {
+  if (API_TRANSPORT === 'http') {
+    return createHttpTransport({ baseUrl: API_BASE });
+  }
+  return createMockTransport(mockRoutes, { debug: import.meta.env.VITE_API_DEBUG === 'true' });
+}
+
+let transport: ApiTransport = createDefaultTransport();
+
+export function getTransport(): ApiTransport {
+  return transport;
+}
+
+// Swap the transport at runtime (e.g. to force the mock in a demo)
+export function setTransport(next: ApiTransport) {
+  transport = next;
+}
+
+async function request<R extends ApiRoute>(
+  route: R,
+  body?: ApiRoutes[R]['body'],
+  options: { signal?: AbortSignal; idempotencyKey?: string; query?: ApiRequest['query'] } = {},
+): Promise<ApiRoutes[R]['response']> {
+  const [method, path] = route.split(' ') as [HttpMethod, string];
+  const raw = await transport.send<unknown>({
+    method,
+    path,
+    query: options.query,
+    body,
+    signal: options.signal,
+    idempotencyKey: options.idempotencyKey,
+  });
+
+  const parsed = RESPONSE_SCHEMAS[route].safeParse(raw);
+  if (!parsed.success) {
+    console.warn(`API: invalid response from ${route}:`, describeIssues(parsed.error));
+    throw new ApiError('The server sent data in an unexpected format.', {
+      kind: 'parse',
+      route,
+      details: parsed.error.issues,
+    });
+  }
+  return parsed.data;
+}
+
+// Sends a write the lesson can go on without. If the backend can't be
+// reached it's queued in the outbox (see outbox.ts) and resolves as queued;
+// while earlier writes are still waiting, new ones queue behind them.
+async function requestOrQueue<R extends QueueableRoute>(
+  route: R,
+  body: ApiRoutes[R]['body'],
+  idempotencyKey = createIdempotencyKey(),
+): Promise<WriteResponse> {
+  if (hasPendingWrites()) {
+    enqueueWrite(route, body, idempotencyKey);
+    return { success: true, queued: true };
+  }
+  try {
+    return await request(route, body, { idempotencyKey });
+  } catch (error) {
+    if (!isRetryableError(error)) throw error;
+    console.warn(`API: ${route} queued until the backend is back:`, getApiErrorMessage(error));
+    enqueueWrite(route, body, idempotencyKey, error);
+    return { success: true, queued: true };
+  }
+}
+
+connectOutbox((entry) =>
+  request(entry.route, entry.body as ApiRoutes[QueueableRoute]['body'], { idempotencyKey: entry.id }));
+
+// User-facing description of a failed API call
+export function getApiErrorMessage(error: unknown): string {
+  if (isApiError(error)) {
+    switch (error.kind) {
+      case 'network':
+        return 'Could not reach the server. Check your connection and try again.';
+      case 'timeout':
+        return 'The server took too long to respond. Please try again.';
+      case 'aborted':
+        return 'The request was cancelled.';
+      case 'rate_limited':
+        // Limits applied in the app explain themselves; a server's 429 may not
+        return error.status === null
+          ? error.message
+          : 'Too many requests right now. Please wait a moment and try again.';
+      default:
+        return error.message;
+    }
+  }
+  return error instanceof Error ? error.message : 'Something went wrong. Please try again.';
 }
 
-export async function submitCoordinates(coords: RobotCoordinates): Promise<{ success: boolean }> {
-  await delay(500);
-  console.log('API: Submitting student coordinates', coords);
-  // TODO: Replace with actual API call
-  return { success: true };
+export function sendRobotCoordinates(coords: RobotCoordinates): Promise<WriteResponse> {
+  return requestOrQueue('POST /robot/coordinates', coords);
 }
 
-export async function submitStudentRgb(rgb: RGBColor): Promise<{ success: boolean }> {
-  await delay(500);
-  console.log('API: Submitting student RGB', rgb);
-  // TODO: Replace with actual API call
-  return { success: true };
+// `owner` says whose drawing it is (see drawingOwnerFor); the mock backend
+// files it under that student on this device
+export function uploadDrawing(file: File, { owner }: { owner?: string } = {}): Promise<UploadDrawingResponse> {
+  const formData = new FormData();
+  formData.append('drawing', file);
+  if (owner) formData.append('owner', owner);
+  return request('POST /upload/drawing', formData);
 }
 
+export function fetchCvResult(imageUrl: string, robotCoordinates?: RobotCoordinates): Promise<CVResult> {
+  return request('POST /cv/analyze', { imageUrl, robotCoordinates });
+}
+
+export function submitCoordinates(coords: RobotCoordinates): Promise<WriteResponse> {
+  return requestOrQueue('POST /student/coordinates', coords);
+}
+
+export function submitStudentRgb(rgb: RGBColor): Promise<WriteResponse> {
+  return requestOrQueue('POST /student/rgb', rgb);
+}
+
+// The AI predicts RGB based on position in the 3D space. Without a backend
+// the same rule is applied here, so the lesson can go on offline.
 export async function fetchAiRgb(coords: RobotCoordinates): Promise<RGBColor> {
-  await delay(800);
-  console.log('API: Fetching AI RGB for coordinates', coords);
-  // TODO: Replace with actual API call
-  // The AI predicts RGB based on position in the 3D space
-  return {
-    r: Math.round(coords.x),
-    g: Math.round(coords.y),
-    b: Math.round(coords.z),
-  };
+  try {
+    return await request('POST /ai/rgb', coords);
+  } catch (error) {
+    if (!isRetryableError(error)) throw error;
+    console.warn('API: using the built-in AI color while the backend is away:', getApiErrorMessage(error));
+    return { r: Math.round(coords.x), g: Math.round(coords.y), b: Math.round(coords.z) };
+  }
 }
 
 export async function sendChatMessage(
-  message: string, 
-  context: { coords: RobotCoordinates; studentRgb: RGBColor; aiRgb: RGBColor }
+  message: string,
+  context: ChatContext,
+  options: { signal?: AbortSignal } = {},
 ): Promise<string> {
-  await delay(1200);
-  console.log('API: Sending chat message', message);
-  // TODO: Replace with actual API call
-  // Simulated tutor responses
-  const responses = [
-    "Great question! The RGB values correspond to the robot's position in 3D space, where X maps to Red, Y to Green, and Z to Blue.",
-    "You're on the right track! Remember, each axis (X, Y, Z) can have values from 0-255, just like RGB color components.",
-    "Excellent thinking! The Cartesian coordinate system directly maps to the RGB color space in this exercise.",
-    "Let me explain further. When the robot is at position (128, 64, 255), it would correspond to RGB color (128, 64, 255) - a bright purple!",
-    "That's a thoughtful observation. The relationship between spatial position and color helps visualize abstract coordinate concepts.",
-  ];
-  return responses[Math.floor(Math.random() * responses.length)];
-}
-
-export async function saveSessionResults(result: SessionResult): Promise<{ success: boolean }> {
-  await delay(500);
-  console.log('API: Saving session results', result);
-  // TODO: Replace with actual API call
-  return { success: true };
-}
-
-export async function fetchDashboardData(): Promise<SessionResult[]> {
-  await delay(800);
-  console.log('API: Fetching dashboard data');
-  // TODO: Replace with actual API call
-  // Mock data for teacher dashboard
-  const mockStudents = ['Alice', 'Bob', 'Charlie', 'Diana', 'Edward'];
-  return mockStudents.map((name, i) => ({
-    studentId: name,
-    date: new Date(Date.now() - i * 86400000),
-    robotCoordinates: { 
-      x: Math.round(Math.random() * 255), 
-      y: Math.round(Math.random() * 255), 
-      z: Math.round(Math.random() * 255) 
-    },
-    cvAccuracy: Math.random() * 30 + 70,
-    studentRgb: { 
-      r: Math.round(Math.random() * 255), 
-      g: Math.round(Math.random() * 255), 
-      b: Math.round(Math.random() * 255) 
-    },
-    aiRgb: { 
-      r: Math.round(Math.random() * 255), 
-      g: Math.round(Math.random() * 255), 
-      b: Math.round(Math.random() * 255) 
-    },
-    rgbDelta: Math.random() * 50,
-  }));
+  const { reply } = await request('POST /chat/message', { message, context }, options);
+  return reply;
+}
+
+// Pass the same `idempotencyKey` when saving a result again, so the backend
+// keeps it once (see reportAttempt in history.ts)
+export function saveSessionResults(
+  result: SessionResult,
+  { idempotencyKey }: { idempotencyKey?: string } = {},
+): Promise<WriteResponse> {
+  return requestOrQueue('POST /sessions', { ...result, date: result.date.toISOString() }, idempotencyKey);
+}
+
+export async function fetchDashboardData(
+  query: DashboardQuery = {},
+  options: { signal?: AbortSignal } = {},
+): Promise<DashboardResults> {
+  const results = await request('GET /sessions', undefined, { ...options, query: { ...query } });
+  return { ...results, rows: results.rows.map((row) => ({ ...row, date: new Date(row.date) })) };
+}
+
+// Every session matching the filters, a page at a time (e.g. for CSV export)
+export async function fetchAllDashboardRows(
+  query: DashboardQuery,
+  options: { signal?: AbortSignal } = {},
+): Promise<SessionResult[]> {
+  const rows: SessionResult[] = [];
+  for (let page = 1; ; page++) {
+    const results = await fetchDashboardData({ ...query, page, pageSize: MAX_PAGE_SIZE }, options);
+    rows.push(...results.rows);
+    if (results.rows.length === 0 || rows.length >= results.total) return rows;
+  }
+}
+
+// Flagged chat messages are kept on the backend, so the teacher sees them on
+// whichever device they open the dashboard
+export function reportModerationFlag(flag: ModerationFlag): Promise<WriteResponse> {
+  return requestOrQueue('POST /moderation/flags', { ...flag, flaggedAt: flag.flaggedAt.toISOString() });
+}
+
+export async function fetchModerationFlags(options: { signal?: AbortSignal } = {}): Promise<ModerationFlag[]> {
+  const { flags } = await request('GET /moderation/flags', undefined, options);
+  return flags.map((flag) => ({ ...flag, flaggedAt: new Date(flag.flaggedAt) }));
+}
+
+export function dismissModerationFlags(ids: string[]): Promise<WriteResponse> {
+  return requestOrQueue('POST /moderation/flags/dismiss', { ids });
 }
 
 export function calculateRgbDelta(rgb1: RGBColor, rgb2: RGBColor): number {
-  const dr = rgb1.r - rgb2.r;
-  const dg = rgb1.g - rgb2.g;
-  const db = rgb1.b - rgb2.b;
-  return Math.sqrt(dr * dr + dg * dg + db * db);
+  return colorDifference(rgb1, rgb2, 'rgb');
+}
+
+// Signed per-axis difference: how far `estimate` is from `actual`
+export function calculateAxisErrors(estimate: RobotCoordinates, actual: RobotCoordinates): RobotCoordinates {
+  return {
+    x: estimate.x - actual.x,
+    y: estimate.y - actual.y,
+    z: estimate.z - actual.z,
+  };
 }
 
 export function rgbToHex(rgb: RGBColor): string {
@@ -0,0 +1,106 @@
+// Webcam access for photographing paper drawings. With VITE_CAMERA=fake the
+// camera is replaced by a generated test pattern so capture can be tried on
+// machines (and in automated browsers) without a webcam.
+
+export type CameraStreamSource = () => Promise<MediaStream>;
+
+const CAMERA_MODE = import.meta.env.VITE_CAMERA || 'device';
+
+export function hasCameraSupport(): boolean {
+  if (CAMERA_MODE === 'fake') return true;
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+// Prefers the rear camera on phones and tablets
+export function requestDeviceCameraStream(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    video: {
+      facingMode: { ideal: 'environment' },
+      width: { ideal: 1920 },
+      height: { ideal: 1080 },
+    },
+    audio: false,
+  });
+}
+
+// A slightly tilted "sheet of paper" with a cube sketch, drawn onto a canvas
+// and streamed like a camera
+export function createFakeCameraStream(width = 1280, height = 720): MediaStream {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  let frame = 0;
+  const draw = () => {
+    frame++;
+    ctx.fillStyle = '#475569';
+    ctx.fillRect(0, 0, width, height);
+
+    // Paper, seen at an angle
+    ctx.fillStyle = '#f8fafc';
+    ctx.beginPath();
+    ctx.moveTo(width * 0.22, height * 0.12);
+    ctx.lineTo(width * 0.8, height * 0.08);
+    ctx.lineTo(width * 0.86, height * 0.9);
+    ctx.lineTo(width * 0.15, height * 0.86);
+    ctx.closePath();
+    ctx.fill();
+
+    // Cube outline and robot
+    ctx.strokeStyle = '#0f172a';
+    ctx.lineWidth = 4;
+    const s = height * 0.3;
+    const x = width * 0.38;
+    const y = height * 0.35;
+    ctx.strokeRect(x, y, s, s);
+    ctx.strokeRect(x + s * 0.35, y - s * 0.3, s, s);
+    [[0, 0], [s, 0], [s, s], [0, s]].forEach(([dx, dy]) => {
+      ctx.beginPath();
+      ctx.moveTo(x + dx, y + dy);
+      ctx.lineTo(x + dx + s * 0.35, y + dy - s * 0.3);
+      ctx.stroke();
+    });
+    ctx.fillStyle = '#ef4444';
+    ctx.beginPath();
+    ctx.arc(x + s * 0.6, y + s * 0.4, s * 0.08, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Moving timestamp so it's obvious the preview is live
+    ctx.fillStyle = '#e2e8f0';
+    ctx.font = '20px monospace';
+    ctx.fillText(`TEST CAMERA ${frame}`, 16, height - 16);
+  };
+  draw();
+  const timer = window.setInterval(draw, 100);
+
+  const stream = canvas.captureStream(10);
+  stream.getVideoTracks()[0]?.addEventListener('ended', () => window.clearInterval(timer));
+  return stream;
+}
+
+export const requestCameraStream: CameraStreamSource = CAMERA_MODE === 'fake'
+  ? async () => createFakeCameraStream()
+  : requestDeviceCameraStream;
+
+export function stopCameraStream(stream: MediaStream) {
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+// Student-facing reason the camera couldn't start
+export function getCameraErrorMessage(error: unknown): string {
+  const name = error instanceof Error ? error.name : '';
+  switch (name) {
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No camera was found. Choose a photo of your drawing instead.';
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Camera access was blocked. Allow the camera in your browser, or choose a photo instead.';
+    case 'NotReadableError':
+      return 'The camera is being used by another app. Close it and try again, or choose a photo instead.';
+    default:
+      return 'The camera could not be started. Choose a photo of your drawing instead.';
+  }
+}
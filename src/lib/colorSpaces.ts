@@ -0,0 +1,242 @@
+// Color spaces the coordinate lab can show. Each one places a color in the
+// lab scene (x and z across the floor, y up, all 0-1) so the same RGB color
+// can be seen at its RGB, HSV, HSL or CIELAB coordinates. The color itself is
+// always stored as RGB; a space only decides where it sits and how the
+// marker, height slider and readout describe it.
+
+import type { RGBColor } from '@/lib/api';
+import { hslToRgb, hsvToRgb, labToRgb, rgbToHsl, rgbToHsv, rgbToLab } from '@shared/color';
+import type { ColorSpaceId } from '@/lib/workflow';
+
+export type ColorSpaceShape = 'cube' | 'cylinder' | 'lab';
+
+export interface ScenePoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface ColorSpaceAxis {
+  symbol: string;
+  name: string;
+  // Where the axis runs in the scene, e.g. "X" or "Angle"
+  direction: string;
+  description: string;
+  // Tailwind classes for the legend swatch and readout label
+  swatchClass: string;
+  textClass: string;
+}
+
+export interface ColorSpace {
+  id: ColorSpaceId;
+  name: string;
+  shape: ColorSpaceShape;
+  axes: ColorSpaceAxis[];
+  heightLabel: string;
+  heightMax: number;
+  controlsHint: string;
+  toScene: (rgb: RGBColor) => ScenePoint;
+  // The color at a floor point, keeping the height of the current color
+  fromFloor: (x: number, z: number, current: RGBColor) => RGBColor;
+  height: (rgb: RGBColor) => number;
+  withHeight: (rgb: RGBColor, height: number) => RGBColor;
+  // Display values in the same order as axes
+  coordinates: (rgb: RGBColor) => string[];
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Hue runs counter-clockwise seen from above, starting along +X
+function polarToFloor(degrees: number, radius: number): { x: number; z: number } {
+  const angle = (degrees * Math.PI) / 180;
+  return { x: 0.5 + 0.5 * radius * Math.cos(angle), z: 0.5 - 0.5 * radius * Math.sin(angle) };
+}
+
+function floorToPolar(x: number, z: number): { degrees: number; radius: number } {
+  const dx = x - 0.5;
+  const dz = 0.5 - z;
+  const degrees = (Math.atan2(dz, dx) * 180) / Math.PI;
+  return { degrees: degrees < 0 ? degrees + 360 : degrees, radius: Math.min(1, Math.hypot(dx, dz) / 0.5) };
+}
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+const HUE_AXIS: ColorSpaceAxis = {
+  symbol: 'H',
+  name: 'Hue',
+  direction: 'Angle',
+  description: 'Angle around the cylinder: red 0°, green 120°, blue 240°',
+  swatchClass: 'bg-gradient-to-r from-red-500 via-green-500 to-blue-500',
+  textClass: 'text-pink-500',
+};
+
+const SATURATION_AXIS: ColorSpaceAxis = {
+  symbol: 'S',
+  name: 'Saturation',
+  direction: 'Radius',
+  description: 'Distance from the grey center line out to the edge',
+  swatchClass: 'bg-gradient-to-r from-slate-400 to-pink-500',
+  textClass: 'text-amber-500',
+};
+
+// Every screen color has a* and b* within about ±110, so ±128 fits them all on the floor
+const LAB_AB_RANGE = 128;
+
+export const COLOR_SPACES: Record<ColorSpaceId, ColorSpace> = {
+  rgb: {
+    id: 'rgb',
+    name: 'RGB',
+    shape: 'cube',
+    axes: [
+      {
+        symbol: 'R',
+        name: 'Red',
+        direction: 'X',
+        description: 'Horizontal position left-right',
+        swatchClass: 'bg-red-500',
+        textClass: 'text-red-500',
+      },
+      {
+        symbol: 'G',
+        name: 'Green',
+        direction: 'Z',
+        description: 'Horizontal position front-back',
+        swatchClass: 'bg-green-500',
+        textClass: 'text-green-500',
+      },
+      {
+        symbol: 'B',
+        name: 'Blue',
+        direction: 'Y',
+        description: 'Vertical height (use slider)',
+        swatchClass: 'bg-blue-500',
+        textClass: 'text-blue-500',
+      },
+    ],
+    heightLabel: 'Blue',
+    heightMax: 255,
+    controlsHint: 'Drag marker to move on R-G plane. Use slider to adjust height (B).',
+    toScene: ({ r, g, b }) => ({ x: r / 255, y: b / 255, z: g / 255 }),
+    fromFloor: (x, z, { b }) => ({ r: Math.round(clamp01(x) * 255), g: Math.round(clamp01(z) * 255), b }),
+    height: ({ b }) => b,
+    withHeight: (rgb, b) => ({ ...rgb, b }),
+    coordinates: ({ r, g, b }) => [`${r}`, `${g}`, `${b}`],
+  },
+  hsv: {
+    id: 'hsv',
+    name: 'HSV',
+    shape: 'cylinder',
+    axes: [
+      HUE_AXIS,
+      SATURATION_AXIS,
+      {
+        symbol: 'V',
+        name: 'Value',
+        direction: 'Height',
+        description: 'Height from black at the bottom to full brightness at the top',
+        swatchClass: 'bg-gradient-to-r from-black to-white',
+        textClass: 'text-sky-500',
+      },
+    ],
+    heightLabel: 'Value',
+    heightMax: 100,
+    controlsHint: 'Drag marker around the circle to change hue and saturation. Use slider to adjust value.',
+    toScene: (rgb) => {
+      const { h, s, v } = rgbToHsv(rgb);
+      return { ...polarToFloor(h, s), y: v };
+    },
+    fromFloor: (x, z, current) => {
+      const { degrees, radius } = floorToPolar(x, z);
+      return hsvToRgb({ h: degrees, s: radius, v: rgbToHsv(current).v });
+    },
+    height: (rgb) => Math.round(rgbToHsv(rgb).v * 100),
+    withHeight: (rgb, height) => hsvToRgb({ ...rgbToHsv(rgb), v: height / 100 }),
+    coordinates: (rgb) => {
+      const { h, s, v } = rgbToHsv(rgb);
+      return [`${Math.round(h)}°`, percent(s), percent(v)];
+    },
+  },
+  hsl: {
+    id: 'hsl',
+    name: 'HSL',
+    shape: 'cylinder',
+    axes: [
+      HUE_AXIS,
+      SATURATION_AXIS,
+      {
+        symbol: 'L',
+        name: 'Lightness',
+        direction: 'Height',
+        description: 'Height from black at the bottom through pure colors to white at the top',
+        swatchClass: 'bg-gradient-to-r from-black via-pink-500 to-white',
+        textClass: 'text-sky-500',
+      },
+    ],
+    heightLabel: 'Lightness',
+    heightMax: 100,
+    controlsHint: 'Drag marker around the circle to change hue and saturation. Use slider to adjust lightness.',
+    toScene: (rgb) => {
+      const { h, s, l } = rgbToHsl(rgb);
+      return { ...polarToFloor(h, s), y: l };
+    },
+    fromFloor: (x, z, current) => {
+      const { degrees, radius } = floorToPolar(x, z);
+      return hslToRgb({ h: degrees, s: radius, l: rgbToHsl(current).l });
+    },
+    height: (rgb) => Math.round(rgbToHsl(rgb).l * 100),
+    withHeight: (rgb, height) => hslToRgb({ ...rgbToHsl(rgb), l: height / 100 }),
+    coordinates: (rgb) => {
+      const { h, s, l } = rgbToHsl(rgb);
+      return [`${Math.round(h)}°`, percent(s), percent(l)];
+    },
+  },
+  lab: {
+    id: 'lab',
+    name: 'CIELAB',
+    shape: 'lab',
+    axes: [
+      {
+        symbol: 'L*',
+        name: 'Lightness',
+        direction: 'Height',
+        description: 'Height from black (0) to white (100), as eyes judge brightness',
+        swatchClass: 'bg-gradient-to-r from-black to-white',
+        textClass: 'text-sky-500',
+      },
+      {
+        symbol: 'a*',
+        name: 'Green-Red',
+        direction: 'X',
+        description: 'Left is greener, right is redder',
+        swatchClass: 'bg-gradient-to-r from-green-500 to-red-500',
+        textClass: 'text-red-500',
+      },
+      {
+        symbol: 'b*',
+        name: 'Blue-Yellow',
+        direction: 'Z',
+        description: 'Front is bluer, back is yellower',
+        swatchClass: 'bg-gradient-to-r from-blue-500 to-yellow-400',
+        textClass: 'text-yellow-500',
+      },
+    ],
+    heightLabel: 'Lightness',
+    heightMax: 100,
+    controlsHint: 'Drag marker to change a* and b*. Colors a screen cannot show snap to the nearest one. Use slider to adjust lightness.',
+    toScene: (rgb) => {
+      const { l, a, b } = rgbToLab(rgb);
+      return { x: 0.5 + a / (2 * LAB_AB_RANGE), y: l / 100, z: 0.5 - b / (2 * LAB_AB_RANGE) };
+    },
+    fromFloor: (x, z, current) => labToRgb({
+      l: rgbToLab(current).l,
+      a: (clamp01(x) - 0.5) * 2 * LAB_AB_RANGE,
+      b: (0.5 - clamp01(z)) * 2 * LAB_AB_RANGE,
+    }),
+    height: (rgb) => Math.round(rgbToLab(rgb).l),
+    withHeight: (rgb, height) => labToRgb({ ...rgbToLab(rgb), l: height }),
+    coordinates: (rgb) => {
+      const { l, a, b } = rgbToLab(rgb);
+      return [`${Math.round(l)}`, `${Math.round(a)}`, `${Math.round(b)}`];
+    },
+  },
+};
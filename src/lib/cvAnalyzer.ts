@@ -0,0 +1,103 @@
+// Local computer-vision check for uploaded drawings. The image is decoded
+// and scaled down here, then analysed in a Web Worker; browsers without
+// workers run the same analysis on the main thread.
+
+import type { CVResult } from '@/lib/api';
+import { analyzePixels } from '@shared/drawingAnalysis';
+import type { AnalyzeRequest, AnalyzeResponse } from '@/lib/cvAnalyzer.worker';
+
+// Longest side the drawing is scaled to before analysis
+const ANALYSIS_SIZE = 320;
+
+interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  // Size of the image before scaling
+  imageWidth: number;
+  imageHeight: number;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not open the drawing for analysis'));
+    image.src = url;
+  });
+}
+
+async function readPixels(imageUrl: string): Promise<Pixels> {
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.naturalWidth, image.naturalHeight, 1));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+  // Transparent areas (e.g. from the sketch pad) count as paper
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return {
+    width,
+    height,
+    data: ctx.getImageData(0, 0, width, height).data,
+    imageWidth: Math.max(1, image.naturalWidth),
+    imageHeight: Math.max(1, image.naturalHeight),
+  };
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (result: CVResult) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('./cvAnalyzer.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AnalyzeResponse>) => {
+      const { id, result, error } = event.data;
+      const request = pending.get(id);
+      pending.delete(id);
+      if (!request) return;
+      if (result) request.resolve(result);
+      else request.reject(new Error(error ?? 'Drawing analysis failed'));
+    };
+    worker.onerror = (event) => {
+      // A broken worker fails everything in flight; the next call starts a fresh one
+      const error = new Error(event.message || 'Drawing analysis failed');
+      pending.forEach(({ reject }) => reject(error));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+export async function analyzeDrawingImage(imageUrl: string): Promise<CVResult> {
+  const { width, height, data, imageWidth, imageHeight } = await readPixels(imageUrl);
+  const analyzer = getWorker();
+  if (!analyzer) {
+    return analyzePixels(data, width, height, { width: imageWidth, height: imageHeight });
+  }
+
+  return new Promise<CVResult>((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    const message: AnalyzeRequest = {
+      id,
+      width,
+      height,
+      pixels: data.buffer as ArrayBuffer,
+      imageWidth,
+      imageHeight,
+    };
+    analyzer.postMessage(message, [message.pixels]);
+  });
+}
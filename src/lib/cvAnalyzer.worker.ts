@@ -0,0 +1,32 @@
+// Runs drawing analysis off the main thread so the page stays responsive
+import { analyzePixels } from '@shared/drawingAnalysis';
+
+export interface AnalyzeRequest {
+  id: number;
+  width: number;
+  height: number;
+  pixels: ArrayBuffer;
+  // Size of the original image, for the result's boxes
+  imageWidth: number;
+  imageHeight: number;
+}
+
+export interface AnalyzeResponse {
+  id: number;
+  result?: ReturnType<typeof analyzePixels>;
+  error?: string;
+}
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<AnalyzeRequest>) => {
+  const { id, width, height, pixels, imageWidth, imageHeight } = event.data;
+  let response: AnalyzeResponse;
+  try {
+    const imageSize = { width: imageWidth, height: imageHeight };
+    response = { id, result: analyzePixels(new Uint8ClampedArray(pixels), width, height, imageSize) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  worker.postMessage(response);
+};
@@ -0,0 +1,53 @@
+// The dashboard's filter controls and the query they stand for. The query
+// itself is run by shared/dashboardQuery.ts, on whichever backend answers.
+
+import type { DashboardQuery } from '@/lib/api';
+
+// The dashboard's filter controls, as the teacher set them
+export interface DashboardFilters {
+  search: string;
+  // Empty for every student
+  student: string;
+  // YYYY-MM-DD in local time, or empty
+  fromDate: string;
+  toDate: string;
+  accuracyBand: AccuracyBand;
+  // Color difference threshold as typed, under the dashboard's metric, or empty
+  minDelta: string;
+}
+
+export type AccuracyBand = 'any' | 'high' | 'medium' | 'low';
+
+// Same thresholds as the accuracy colors in DashboardTable
+export const ACCURACY_BANDS: Record<AccuracyBand, { label: string; min?: number; max?: number }> = {
+  any: { label: 'Any accuracy' },
+  high: { label: '90% and above', min: 90 },
+  medium: { label: '75% to 90%', min: 75, max: 90 },
+  low: { label: 'Below 75%', max: 75 },
+};
+
+export const EMPTY_DASHBOARD_FILTERS: DashboardFilters = {
+  search: '',
+  student: '',
+  fromDate: '',
+  toDate: '',
+  accuracyBand: 'any',
+  minDelta: '',
+};
+
+const localDayBoundary = (date: string, end: boolean) =>
+  new Date(`${date}T${end ? '23:59:59.999' : '00:00:00'}`).toISOString();
+
+export function filtersToQuery(filters: DashboardFilters): DashboardQuery {
+  const band = ACCURACY_BANDS[filters.accuracyBand];
+  const minDelta = Number(filters.minDelta);
+  return {
+    search: filters.search.trim() || undefined,
+    student: filters.student || undefined,
+    from: filters.fromDate ? localDayBoundary(filters.fromDate, false) : undefined,
+    to: filters.toDate ? localDayBoundary(filters.toDate, true) : undefined,
+    minAccuracy: band.min,
+    maxAccuracy: band.max,
+    minDelta: filters.minDelta.trim() && Number.isFinite(minDelta) && minDelta > 0 ? minDelta : undefined,
+  };
+}
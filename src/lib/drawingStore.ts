@@ -0,0 +1,227 @@
+// Drawings kept on this device, in IndexedDB.
+// Without a backend the uploaded file only lived in a blob: URL, which is gone
+// after a reload. Instead each drawing is stored here with a small thumbnail,
+// under the student who drew it, and the session refers to it as
+// "drawing:<id>". Use useDrawingUrl to turn a reference into something an
+// <img> can show; URLs from a real backend pass through unchanged.
+//
+// Clean-up follows the session: drawings of a reset session are deleted, an
+// archived attempt keeps its final drawing and only thumbnails of the rest,
+// and anything no session or attempt refers to is swept when a student's
+// session loads.
+
+const DB_NAME = 'tangible-ai-drawings';
+const DB_VERSION = 1;
+const STORE = 'drawings';
+const OWNER_INDEX = 'owner';
+
+export const DRAWING_REF_PREFIX = 'drawing:';
+
+// Same limit as the backend's default MAX_UPLOAD_MB
+export const MAX_DRAWING_BYTES = 10 * 1024 * 1024;
+
+// Beyond this per student, full images of older drawings are dropped (their
+// thumbnails stay)
+const OWNER_QUOTA_BYTES = 50 * 1024 * 1024;
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 160;
+
+// Drawings this new are never swept, so an upload still on its way into the
+// session isn't mistaken for an orphan
+const SWEEP_GRACE_MS = 10 * 60 * 1000;
+
+const GUEST_OWNER = 'guest';
+
+export type DrawingVariant = 'image' | 'thumbnail';
+
+interface StoredDrawing {
+  id: string;
+  owner: string;
+  // Null once only the thumbnail is kept
+  image: Blob | null;
+  thumbnail: Blob;
+  createdAt: Date;
+}
+
+export function drawingOwnerFor(profileId: string | null): string {
+  return profileId ?? GUEST_OWNER;
+}
+
+export const drawingRef = (id: string) => `${DRAWING_REF_PREFIX}${id}`;
+
+// The stored drawing's id, or null for ordinary URLs
+export function parseDrawingRef(url: string | null | undefined): string | null {
+  return url?.startsWith(DRAWING_REF_PREFIX) ? url.slice(DRAWING_REF_PREFIX.length) : null;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot store drawings'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex(OWNER_INDEX, 'owner');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again (e.g. after the user allows storage)
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+const settle = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Drawing storage was interrupted'));
+  });
+
+async function drawingsOf(owner: string): Promise<StoredDrawing[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return settle(store.index(OWNER_INDEX).getAll(owner) as IDBRequest<StoredDrawing[]>);
+}
+
+async function deleteIds(ids: string[]) {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  ids.forEach((id) => tx.objectStore(STORE).delete(id));
+  await completion(tx);
+}
+
+async function createThumbnail(image: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a thumbnail');
+  // JPEG has no transparency; sketches are drawn on white
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not create a thumbnail'))), 'image/jpeg', 0.8);
+  });
+}
+
+const sizeOf = (drawing: StoredDrawing) => (drawing.image?.size ?? 0) + drawing.thumbnail.size;
+
+// Drops full images, oldest first, until the student is within quota. The
+// newest drawing is always kept whole.
+async function enforceQuota(owner: string) {
+  const drawings = (await drawingsOf(owner)).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  let total = drawings.reduce((sum, d) => sum + sizeOf(d), 0);
+  const trimmed: StoredDrawing[] = [];
+  for (const drawing of drawings.slice(0, -1)) {
+    if (total <= OWNER_QUOTA_BYTES) break;
+    if (!drawing.image) continue;
+    total -= drawing.image.size;
+    trimmed.push({ ...drawing, image: null });
+  }
+  if (trimmed.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  trimmed.forEach((drawing) => tx.objectStore(STORE).put(drawing));
+  await completion(tx);
+}
+
+// Stores a drawing for a student and returns its reference
+export async function saveDrawing(image: Blob, owner: string): Promise<string> {
+  if (!image.type.startsWith('image/')) {
+    throw new Error('Drawings must be image files');
+  }
+  if (image.size > MAX_DRAWING_BYTES) {
+    throw new Error(`Drawings must be smaller than ${MAX_DRAWING_BYTES / (1024 * 1024)}MB`);
+  }
+
+  const createdAt = new Date();
+  const drawing: StoredDrawing = {
+    id: `drawing_${createdAt.getTime().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    owner,
+    image,
+    thumbnail: await createThumbnail(image),
+    createdAt,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(drawing);
+  try {
+    await completion(tx);
+  } catch (error) {
+    if ((error as DOMException | null)?.name === 'QuotaExceededError') {
+      throw new Error('This device is out of space for drawings. Ask your teacher to clear old attempts.');
+    }
+    throw error;
+  }
+  await enforceQuota(owner);
+  return drawingRef(drawing.id);
+}
+
+// The stored image, falling back to the thumbnail when the full image was
+// dropped; null if the drawing is gone
+export async function loadDrawing(ref: string, variant: DrawingVariant = 'image'): Promise<Blob | null> {
+  const id = parseDrawingRef(ref);
+  if (!id) return null;
+  const db = await openDatabase();
+  const drawing = await settle(db.transaction(STORE, 'readonly').objectStore(STORE).get(id) as IDBRequest<StoredDrawing>);
+  if (!drawing) return null;
+  return variant === 'thumbnail' ? drawing.thumbnail : drawing.image ?? drawing.thumbnail;
+}
+
+// Deletes drawings; URLs that aren't drawing references are ignored
+export function deleteDrawings(refs: Iterable<string>): Promise<void> {
+  const ids = [...refs].map(parseDrawingRef).filter((id): id is string => id !== null);
+  return deleteIds(ids);
+}
+
+// Keeps only the thumbnails of these drawings
+export async function keepThumbnailsOnly(refs: Iterable<string>) {
+  const ids = new Set([...refs].map(parseDrawingRef).filter((id): id is string => id !== null));
+  if (ids.size === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  ids.forEach((id) => {
+    const request = store.get(id) as IDBRequest<StoredDrawing | undefined>;
+    request.onsuccess = () => {
+      if (request.result?.image) store.put({ ...request.result, image: null });
+    };
+  });
+  await completion(tx);
+}
+
+// Deletes a student's drawings that none of `inUse` refers to
+export async function sweepDrawings(owner: string, inUse: Iterable<string>, now = Date.now()) {
+  const keep = new Set([...inUse].map(parseDrawingRef).filter((id): id is string => id !== null));
+  const orphans = (await drawingsOf(owner))
+    .filter((d) => !keep.has(d.id) && now - d.createdAt.getTime() > SWEEP_GRACE_MS)
+    .map((d) => d.id);
+  await deleteIds(orphans);
+}
+
+export async function deleteOwnerDrawings(owner: string) {
+  await deleteIds((await drawingsOf(owner)).map((d) => d.id));
+}
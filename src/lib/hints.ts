@@ -0,0 +1,123 @@
+// Hint ladders for the predict and compare steps. Each rung asks a question
+// before it gives anything away, and each is a little more specific than the
+// last; only the final rung of the predict ladder states a value outright.
+// Hints are worked out from the student's current numbers, so the same rung
+// changes as they move the sliders.
+//
+// Predict hints help the student reach the answer, so each one costs points
+// from the score. Compare hints explain an answer already given and are free.
+
+import type { RGBColor, RobotCoordinates } from '@/lib/api';
+import { CHANNELS, SPOT_ON, type ChannelInfo } from '@shared/tutor';
+
+export type HintLadderId = 'predict' | 'compare';
+
+export interface Hint {
+  title: string;
+  text: string;
+}
+
+// Hints revealed so far on each ladder
+export type HintLevels = Record<HintLadderId, number>;
+
+export const NO_HINTS: HintLevels = { predict: 0, compare: 0 };
+
+// Accuracy points taken off the score for each predict hint
+export const HINT_PENALTY = 5;
+
+export function scoreWithHints(accuracy: number, predictHintsUsed: number): number {
+  return Math.max(0, accuracy - predictHintsUsed * HINT_PENALTY);
+}
+
+interface ChannelGap {
+  info: ChannelInfo;
+  target: number;
+  value: number;
+  // value - target
+  gap: number;
+}
+
+// The channel furthest from its target (the first on a tie)
+function widestGap(target: RGBColor, value: RGBColor): ChannelGap {
+  return CHANNELS
+    .map((info) => ({
+      info,
+      target: target[info.channel],
+      value: value[info.channel],
+      gap: value[info.channel] - target[info.channel],
+    }))
+    .reduce((widest, next) => (Math.abs(next.gap) > Math.abs(widest.gap) ? next : widest));
+}
+
+const asRgb = ({ x, y, z }: RobotCoordinates): RGBColor => ({ r: x, g: y, b: z });
+
+export function getPredictHints(coords: RobotCoordinates, prediction: RGBColor): Hint[] {
+  const largest = CHANNELS.reduce((a, b) => (coords[b.axis] > coords[a.axis] ? b : a));
+  const worst = widestGap(asRgb(coords), prediction);
+  const { info } = worst;
+  const allClose = Math.abs(worst.gap) <= SPOT_ON;
+
+  return [
+    {
+      title: 'Where is the robot?',
+      text: `Look at the robot's position. It is furthest along the ${largest.axisLabel} axis `
+        + `(${coords[largest.axis]}). If position decides the color, which part of your color should be the strongest?`,
+    },
+    {
+      title: 'Three numbers and three numbers',
+      text: 'A position has three numbers (X, Y, Z) and a color has three numbers (red, green, blue), '
+        + 'each from 0 to 255. What would happen if the first number of one were the first number of the other?',
+    },
+    allClose
+      ? {
+        title: 'Check each pair',
+        text: 'All three of your numbers are close to the robot\'s coordinates. Check each pair once more, then submit!',
+      }
+      : {
+        title: `Look at your ${info.name}`,
+        text: `Your ${info.name} is ${worst.value} and the robot's ${info.axisLabel} coordinate is ${worst.target}. `
+          + `Should your ${info.name} go ${worst.gap > 0 ? 'down' : 'up'}, and by how much?`,
+      },
+    {
+      title: 'The rule',
+      text: `Each coordinate becomes one channel: X is red, Y is green and Z is blue. The robot's ${info.axisLabel} `
+        + `is ${worst.target}, so ${info.name} is ${worst.target}. Now do the same for the other two.`,
+    },
+  ];
+}
+
+export function getCompareHints(coords: RobotCoordinates, prediction: RGBColor, answer: RGBColor): Hint[] {
+  const worst = widestGap(answer, prediction);
+  const { info } = worst;
+
+  if (Math.abs(worst.gap) <= SPOT_ON) {
+    return [
+      {
+        title: 'Explain it',
+        text: 'Every channel matched. Could you explain to a friend how you worked the color out from the position?',
+      },
+      {
+        title: 'Try it backwards',
+        text: `If the robot moved to the far corner at (255, 255, 255), what color would it be? `
+          + 'And at (0, 0, 0)?',
+      },
+    ];
+  }
+
+  return [
+    {
+      title: 'Spot the biggest gap',
+      text: 'Compare your color with the AI result one channel at a time. Which of red, green and blue is furthest off?',
+    },
+    {
+      title: `Your ${info.name}`,
+      text: `Your ${info.name} was ${worst.value} and the AI's was ${worst.target}. `
+        + `Which of the robot's coordinates is ${worst.target}?`,
+    },
+    {
+      title: 'The rule',
+      text: `The AI copies each coordinate straight into a channel. ${info.axisLabel} was ${coords[info.axis]}, `
+        + `so ${info.name} is ${worst.target}. You were ${Math.abs(worst.gap)} too ${worst.gap > 0 ? 'high' : 'low'}.`,
+    },
+  ];
+}
@@ -0,0 +1,221 @@
+// Attempt history.
+// Every workflow a student finishes (placement through to the tutor chat) is
+// archived as an attempt: the SessionResult that is reported to the teacher
+// plus a read-only snapshot of the session it came from. History is stored
+// per profile ("guest" when nobody is signed in).
+//
+// Finishing a lesson runs the completion pipeline: the session is archived
+// (createAttempt assembles its SessionResult) and the result is reported once
+// with reportAttempt. The attempt id doubles as the idempotency key, so a
+// second report of the same attempt is never stored twice by the backend.
+
+import { z } from 'zod';
+import { calculateRgbDelta, saveSessionResults, type SessionResult, type WriteResponse } from '@/lib/api';
+import type { SessionState } from '@/context/SessionContext';
+import { createVersionedStore, type Migration } from '@/lib/persistence';
+import { recoverFields, sessionAttemptSchema } from '@/lib/schemas';
+import { isStepAccessible, type WorkflowStep } from '@/lib/workflow';
+
+export interface SessionAttempt {
+  id: string;
+  completedAt: Date;
+  result: SessionResult;
+  session: SessionState;
+  // When the result was handed to the backend (or its outbox); null until then
+  reportedAt: Date | null;
+}
+
+const GUEST_OWNER = 'guest';
+
+type Json = Record<string, unknown>;
+
+const HISTORY_MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Results became attempts with a session snapshot',
+    migrate: (data) => {
+      const results = (data as Json | null)?.results;
+      if (!Array.isArray(results)) return data;
+      return {
+        attempts: results.map((result: Json, i) => {
+          const id = `attempt_migrated_${i}`;
+          return {
+            id,
+            completedAt: result?.date,
+            result,
+            // Older history only kept the result; rebuild what we can
+            session: {
+              studentId: result?.studentId,
+              robotCoordinates: result?.robotCoordinates,
+              uploadedImage: null,
+              cvResult: null,
+              studentCoordinates: null,
+              studentRgb: result?.studentRgb,
+              aiRgb: result?.aiRgb,
+              chatHistory: [],
+              completedSteps: [],
+              currentStep: 'chat',
+              archivedAttemptId: id,
+            },
+          };
+        }),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Session snapshots gained the analysed drawing attempts',
+    migrate: (data) => {
+      const attempts = (data as Json | null)?.attempts;
+      if (!Array.isArray(attempts)) return data;
+      return {
+        attempts: attempts.map((attempt: Json) => {
+          const session = attempt?.session as Json | undefined;
+          return session && typeof session === 'object'
+            ? { ...attempt, session: { drawingAttempts: [], ...session } }
+            : attempt;
+        }),
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Session snapshots gained the hints revealed',
+    migrate: (data) => {
+      const attempts = (data as Json | null)?.attempts;
+      if (!Array.isArray(attempts)) return data;
+      return {
+        attempts: attempts.map((attempt: Json) => {
+          const session = attempt?.session as Json | undefined;
+          return session && typeof session === 'object'
+            ? { ...attempt, session: { hintLevels: { predict: 0, compare: 0 }, ...session } }
+            : attempt;
+        }),
+      };
+    },
+  },
+  {
+    version: 5,
+    description: 'Attempts record when their result was reported; snapshots gained step times',
+    migrate: (data) => {
+      const attempts = (data as Json | null)?.attempts;
+      if (!Array.isArray(attempts)) return data;
+      return {
+        attempts: attempts.map((attempt: Json) => {
+          const session = attempt?.session as Json | undefined;
+          return {
+            // Older attempts were reported when the lesson was finished, if at
+            // all; they aren't sent again
+            reportedAt: attempt?.completedAt ?? null,
+            ...attempt,
+            ...(session && typeof session === 'object' ? { session: { stepSeconds: {}, ...session } } : {}),
+          };
+        }),
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'The student field of snapshots holds the profile name, so it is called studentName',
+    migrate: (data) => {
+      const attempts = (data as Json | null)?.attempts;
+      if (!Array.isArray(attempts)) return data;
+      return {
+        attempts: attempts.map((attempt: Json) => {
+          const session = attempt?.session as Json | undefined;
+          if (!session || typeof session !== 'object' || !('studentId' in session)) return attempt;
+          const { studentId, ...rest } = session;
+          return { ...attempt, session: { studentName: studentId, ...rest } };
+        }),
+      };
+    },
+  },
+];
+
+function historyStoreFor(profileId: string | null) {
+  return createVersionedStore(`tangible-ai-history:${profileId ?? GUEST_OWNER}`, 6, HISTORY_MIGRATIONS);
+}
+
+// Oldest first
+export function loadHistory(profileId: string | null): SessionAttempt[] {
+  const loaded = historyStoreFor(profileId).load();
+  if (loaded.status !== 'loaded') return [];
+  const { value, invalidFields } = recoverFields<{ attempts: SessionAttempt[] }>(
+    { attempts: z.array(sessionAttemptSchema) },
+    loaded.data,
+    { attempts: [] },
+  );
+  if (invalidFields.length > 0) {
+    console.warn('History: dropped invalid attempts', invalidFields);
+  }
+  return value.attempts;
+}
+
+export function findAttempt(profileId: string | null, attemptId: string): SessionAttempt | null {
+  return loadHistory(profileId).find((a) => a.id === attemptId) ?? null;
+}
+
+export function appendAttempt(profileId: string | null, attempt: SessionAttempt) {
+  const attempts = loadHistory(profileId);
+  historyStoreFor(profileId).save({ attempts: [...attempts, attempt] });
+}
+
+function updateAttempt(profileId: string | null, attemptId: string, changes: Partial<SessionAttempt>) {
+  const attempts = loadHistory(profileId).map((a) => (a.id === attemptId ? { ...a, ...changes } : a));
+  historyStoreFor(profileId).save({ attempts });
+}
+
+export function clearHistory(profileId: string | null) {
+  historyStoreFor(profileId).clear();
+}
+
+// A session can be archived once the student has reached the last step of
+// their lesson plan with a prediction made
+export function isArchivable(state: SessionState, steps: WorkflowStep[]): boolean {
+  const lastStep = steps[steps.length - 1];
+  return state.aiRgb !== null && !!lastStep && isStepAccessible(lastStep.id, state.completedSteps, steps);
+}
+
+// Results of a signed-in student are keyed by their profile, so renaming it
+// doesn't split their history on the dashboard
+export function buildSessionResult(state: SessionState, profileId: string | null, date = new Date()): SessionResult {
+  return {
+    studentId: profileId ?? state.studentName,
+    studentName: state.studentName,
+    date,
+    robotCoordinates: state.robotCoordinates,
+    cvAccuracy: state.cvResult?.accuracy || 0,
+    studentRgb: state.studentRgb,
+    aiRgb: state.aiRgb!,
+    rgbDelta: calculateRgbDelta(state.studentRgb, state.aiRgb!),
+    predictHintsUsed: state.hintLevels.predict,
+    studentCoordinates: state.studentCoordinates,
+    chatMessages: state.chatHistory.filter((m) => m.role === 'user').length,
+    stepSeconds: state.stepSeconds,
+    imageUrl: state.uploadedImage,
+  };
+}
+
+export function createAttempt(state: SessionState, profileId: string | null): SessionAttempt {
+  const completedAt = new Date();
+  const id = `attempt_${completedAt.getTime().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  return {
+    id,
+    completedAt,
+    result: buildSessionResult(state, profileId, completedAt),
+    session: { ...state, archivedAttemptId: id },
+    reportedAt: null,
+  };
+}
+
+// Outbox entry (and Idempotency-Key) an attempt's result is saved under
+export const sessionResultKey = (attemptId: string) => `session_${attemptId}`;
+
+// Saves an attempt's result for the teacher, unless it already was. Resolves
+// once the backend has it or it's queued in the outbox; throws if refused.
+export async function reportAttempt(profileId: string | null, attempt: SessionAttempt): Promise<WriteResponse> {
+  if (attempt.reportedAt) return { success: true };
+  const response = await saveSessionResults(attempt.result, { idempotencyKey: sessionResultKey(attempt.id) });
+  updateAttempt(profileId, attempt.id, { reportedAt: new Date() });
+  return response;
+}
@@ -0,0 +1,53 @@
+// Geometry for drawing CV bounding boxes over the analysed image, which is
+// usually shown letterboxed (object-contain) rather than at its real size.
+
+import { LEGACY_BOX_FRAME, type BoundingBox, type CVResult } from '@/lib/api';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect extends Size {
+  left: number;
+  top: number;
+}
+
+// Where an image lands inside a container under object-contain: scaled to
+// fit, centred, with bars on the sides or top and bottom
+export function containRect(image: Size, container: Size): Rect {
+  if (image.width <= 0 || image.height <= 0) {
+    return { left: 0, top: 0, width: container.width, height: container.height };
+  }
+  const scale = Math.min(container.width / image.width, container.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return {
+    left: (container.width - width) / 2,
+    top: (container.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+// The space a result's boxes are expressed in
+export function getBoxFrame(result: CVResult): Size {
+  return result.imageWidth && result.imageHeight
+    ? { width: result.imageWidth, height: result.imageHeight }
+    : LEGACY_BOX_FRAME;
+}
+
+// Box position as percentages of the image, for absolutely positioned overlays
+export function boxToPercent(box: BoundingBox, frame: Size): Rect {
+  return {
+    left: (box.x / frame.width) * 100,
+    top: (box.y / frame.height) * 100,
+    width: (box.width / frame.width) * 100,
+    height: (box.height / frame.height) * 100,
+  };
+}
+
+// Older results have no per-box labels; their boxes follow detectedObjects
+export function getBoxLabel(result: CVResult, index: number): string {
+  return result.boundingBoxes[index]?.label ?? result.detectedObjects[index] ?? 'object';
+}
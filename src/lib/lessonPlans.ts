@@ -0,0 +1,172 @@
+// Lesson plans.
+// A lesson plan picks, orders and configures the workflow steps a student
+// goes through. The built-in plans can't be changed; teachers copy one and
+// edit the copy. Plans are plain JSON so they can be shared between devices.
+// The plan library (custom plans plus which plan is active) is per device.
+
+import { z } from 'zod';
+import { createVersionedStore } from '@/lib/persistence';
+import { describeIssues, lessonPlanSchema, recoverFields } from '@/lib/schemas';
+import { STEP_DEFINITIONS, STEP_KINDS, type StepConfig, type StepKind } from '@/lib/workflow';
+
+export interface LessonPlan {
+  id: string;
+  name: string;
+  description: string;
+  steps: StepConfig[];
+}
+
+export interface LessonPlanLibrary {
+  plans: LessonPlan[];
+  activePlanId: string;
+}
+
+export const MAX_PLAN_NAME_LENGTH = 40;
+export const MAX_PLAN_STEPS = 12;
+
+export const DEFAULT_PLAN_ID = 'standard';
+
+export const BUILT_IN_PLANS: LessonPlan[] = [
+  {
+    id: DEFAULT_PLAN_ID,
+    name: 'Full lesson',
+    description: 'Place the robot, draw it, check the drawing, then predict and discuss the color.',
+    steps: STEP_KINDS.map((kind) => ({ kind })),
+  },
+  {
+    id: 'no-drawing',
+    name: 'Quick lesson (no drawing)',
+    description: 'Skips drawing and the computer vision check.',
+    steps: [{ kind: 'placement' }, { kind: 'coords' }, { kind: 'predict' }, { kind: 'compare' }, { kind: 'chat' }],
+  },
+  {
+    id: 'two-rounds',
+    name: 'Two prediction rounds',
+    description: 'Predict, compare, then move the robot and try again without hints.',
+    steps: [
+      { kind: 'placement' },
+      { kind: 'predict' },
+      { kind: 'compare' },
+      { kind: 'placement', title: 'Move the Robot' },
+      { kind: 'predict', title: 'Predict Again', params: { showHints: false } },
+      { kind: 'compare' },
+      { kind: 'chat' },
+    ],
+  },
+  {
+    id: 'rgb-lab',
+    name: 'RGB lab only',
+    description: 'Explore the color cube and predict colors, nothing else.',
+    steps: [{ kind: 'placement' }, { kind: 'predict' }, { kind: 'compare' }],
+  },
+  {
+    id: 'color-spaces',
+    name: 'Color spaces (advanced)',
+    description: 'Explore the same colors as RGB, HSV, HSL and CIELAB coordinates before predicting.',
+    steps: [
+      { kind: 'placement', title: 'Explore Color Spaces', params: { colorSpaces: ['rgb', 'hsv', 'hsl', 'lab'] } },
+      { kind: 'predict' },
+      { kind: 'compare' },
+      { kind: 'chat' },
+    ],
+  },
+];
+
+const libraryStore = createVersionedStore('tangible-ai-lesson-plans', 1, []);
+
+const EMPTY_LIBRARY: LessonPlanLibrary = { plans: [], activePlanId: DEFAULT_PLAN_ID };
+
+export function isBuiltInPlan(planId: string): boolean {
+  return BUILT_IN_PLANS.some((p) => p.id === planId);
+}
+
+export function loadLessonPlanLibrary(): LessonPlanLibrary {
+  const loaded = libraryStore.load();
+  if (loaded.status !== 'loaded') {
+    if (loaded.status === 'error') console.warn('Lesson plans: could not load library:', loaded.reason);
+    return EMPTY_LIBRARY;
+  }
+
+  const { value, invalidFields } = recoverFields<LessonPlanLibrary>(
+    { plans: z.array(lessonPlanSchema), activePlanId: z.string().min(1) },
+    loaded.data,
+    EMPTY_LIBRARY,
+  );
+  if (invalidFields.length > 0) {
+    console.warn('Lesson plans: dropped invalid saved plans', invalidFields);
+  }
+  const plans = value.plans.filter((p) => !isBuiltInPlan(p.id));
+  const activeExists = isBuiltInPlan(value.activePlanId) || plans.some((p) => p.id === value.activePlanId);
+  return { plans, activePlanId: activeExists ? value.activePlanId : DEFAULT_PLAN_ID };
+}
+
+export function saveLessonPlanLibrary(library: LessonPlanLibrary) {
+  libraryStore.save(library);
+}
+
+// Problems that would make the plan unusable, in step order; empty when valid
+export function validateLessonPlan(plan: LessonPlan): string[] {
+  const errors: string[] = [];
+  const name = plan.name.trim();
+  if (!name) errors.push('Give the lesson plan a name');
+  if (name.length > MAX_PLAN_NAME_LENGTH) {
+    errors.push(`Plan names can be at most ${MAX_PLAN_NAME_LENGTH} characters`);
+  }
+  if (plan.steps.length === 0) errors.push('Add at least one step');
+  if (plan.steps.length > MAX_PLAN_STEPS) errors.push(`A lesson can have at most ${MAX_PLAN_STEPS} steps`);
+
+  const earlier = new Set<StepKind>();
+  plan.steps.forEach(({ kind }, i) => {
+    const definition = STEP_DEFINITIONS[kind];
+    const missing = definition.requires.filter((required) => !earlier.has(required));
+    if (missing.length > 0) {
+      const needed = missing.map((m) => `"${STEP_DEFINITIONS[m].title}"`).join(' and ');
+      errors.push(`Step ${i + 1} (${definition.title}) needs ${needed} before it`);
+    }
+    earlier.add(kind);
+  });
+
+  // Results are only reported once the student has made a prediction
+  if (!earlier.has('predict')) errors.push(`Include a "${STEP_DEFINITIONS.predict.title}" step`);
+  return errors;
+}
+
+export function createPlanId(): string {
+  return `plan_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function copyLessonPlan(plan: LessonPlan, name = `${plan.name} (copy)`): LessonPlan {
+  return {
+    id: createPlanId(),
+    name: name.slice(0, MAX_PLAN_NAME_LENGTH),
+    description: plan.description,
+    steps: plan.steps.map((step) => ({ ...step, params: step.params && { ...step.params } })),
+  };
+}
+
+export function serializeLessonPlan(plan: LessonPlan): string {
+  const { name, description, steps } = plan;
+  return JSON.stringify({ name, description, steps }, null, 2);
+}
+
+export type ParsedLessonPlan =
+  | { ok: true; plan: LessonPlan }
+  | { ok: false; errors: string[] };
+
+// Read a plan pasted as JSON. Imported plans always get a fresh id so they
+// never overwrite a plan already on this device.
+export function parseLessonPlan(json: string): ParsedLessonPlan {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { ok: false, errors: ['This is not valid JSON'] };
+  }
+
+  const result = lessonPlanSchema.safeParse({ ...(raw as object), id: createPlanId() });
+  if (!result.success) {
+    return { ok: false, errors: [describeIssues(result.error)] };
+  }
+  const errors = validateLessonPlan(result.data);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, plan: result.data };
+}
@@ -0,0 +1,199 @@
+// In-memory backend used by the mock transport.
+// Mirrors the routes in ApiRoutes with simulated latency and canned data;
+// drawings are kept on the device (see drawingStore.ts) and analysed for real
+// in the browser (see cvAnalyzer.ts), and the tutor answers from the
+// session's numbers (see tutor.ts).
+
+import {
+  calculateAxisErrors,
+  calculateRgbDelta,
+  type ApiRoutes,
+  type ModerationFlagPayload,
+  type SessionResultPayload,
+} from '@/lib/api';
+import type { MockRoute } from '@/lib/transport';
+import { analyzeDrawingImage } from '@/lib/cvAnalyzer';
+import { drawingOwnerFor, loadDrawing, parseDrawingRef, saveDrawing } from '@/lib/drawingStore';
+import { composeTutorReply } from '@shared/tutor';
+import { queryDashboard } from '@shared/dashboardQuery';
+
+type MockRoutes = {
+  [R in keyof ApiRoutes]: MockRoute<ApiRoutes[R]['body'], ApiRoutes[R]['response']>;
+};
+
+// Results finished in this tab, shown on the dashboard with the samples
+const postedSessions: SessionResultPayload[] = [];
+
+// Chat messages flagged in this tab, until the teacher dismisses them
+const postedFlags: ModerationFlagPayload[] = [];
+const dismissedFlags = new Set<string>();
+
+// The dashboard lists at most this many flags, the newest ones
+const MAX_LISTED_FLAGS = 200;
+
+const SAMPLE_STUDENTS = ['Alice', 'Bob', 'Charlie', 'Diana', 'Edward', 'Fatima', 'George', 'Hana', 'Ivan', 'Jun'];
+const SAMPLE_DAYS = 90;
+
+let samples: SessionResultPayload[] | null = null;
+
+// A term of made-up sessions, the same on every request so paging is
+// consistent: a few lessons per student, most getting closer over time
+function sampleSessions(): SessionResultPayload[] {
+  if (samples) return samples;
+
+  // Small seeded generator (mulberry32)
+  let seed = 20240901;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const channel = () => Math.round(random() * 255);
+  const clampChannel = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+  const today = Date.now();
+
+  samples = SAMPLE_STUDENTS.flatMap((studentName) => {
+    const studentId = `sample_${studentName.toLowerCase()}`;
+    const lessons = 3 + Math.floor(random() * 8);
+    return Array.from({ length: lessons }, (_, i) => {
+      // 1 on the first lesson, 0 on the last
+      const inexperience = 1 - i / Math.max(1, lessons - 1);
+      const spread = 10 + inexperience * between(20, 60);
+      const daysAgo = Math.round(SAMPLE_DAYS * (1 - (i + random() * 0.8) / lessons));
+      const robotCoordinates = { x: channel(), y: channel(), z: channel() };
+      const aiRgb = { r: robotCoordinates.x, g: robotCoordinates.y, b: robotCoordinates.z };
+      const studentRgb = {
+        r: clampChannel(aiRgb.r + between(-spread, spread)),
+        g: clampChannel(aiRgb.g + between(-spread, spread)),
+        b: clampChannel(aiRgb.b + between(-spread, spread)),
+      };
+      const nudge = (value: number) => clampChannel(value + between(-spread / 2, spread / 2));
+      return {
+        studentId,
+        studentName,
+        date: new Date(today - daysAgo * 86400000 - Math.round(random() * 6) * 3600000).toISOString(),
+        robotCoordinates,
+        cvAccuracy: Math.min(100, 60 + (1 - inexperience) * 25 + random() * 15),
+        studentRgb,
+        aiRgb,
+        rgbDelta: calculateRgbDelta(studentRgb, aiRgb),
+        predictHintsUsed: Math.floor(random() * (1 + inexperience * 4)),
+        studentCoordinates: { x: nudge(robotCoordinates.x), y: nudge(robotCoordinates.y), z: nudge(robotCoordinates.z) },
+        chatMessages: Math.floor(random() * 6),
+        stepSeconds: {
+          placement: Math.round(between(30, 120)),
+          upload: Math.round(between(120, 420)),
+          verify: Math.round(between(20, 80)),
+          coords: Math.round(between(40, 160)),
+          predict: Math.round(between(40, 160)),
+          compare: Math.round(between(20, 80)),
+          chat: Math.round(between(60, 300)),
+        },
+        // Made-up students have no drawings to show
+        imageUrl: null,
+      };
+    });
+  });
+  return samples;
+}
+
+async function analyzeStoredDrawing(imageUrl: string) {
+  if (!parseDrawingRef(imageUrl)) return analyzeDrawingImage(imageUrl);
+  const image = await loadDrawing(imageUrl);
+  if (!image) {
+    throw new Error('Drawing not found. Upload it before requesting analysis.');
+  }
+  const objectUrl = URL.createObjectURL(image);
+  try {
+    return await analyzeDrawingImage(objectUrl);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+export const mockRoutes: MockRoutes = {
+  'POST /robot/coordinates': {
+    delay: 500,
+    handle: () => ({ success: true }),
+  },
+  'POST /upload/drawing': {
+    delay: 1000,
+    handle: async (formData) => {
+      const file = formData.get('drawing');
+      if (!(file instanceof File)) {
+        throw new Error('No drawing attached');
+      }
+      const owner = formData.get('owner');
+      const imageUrl = await saveDrawing(file, typeof owner === 'string' ? owner : drawingOwnerFor(null));
+      return { success: true, imageUrl };
+    },
+  },
+  'POST /cv/analyze': {
+    // Analysed in the browser, so no simulated latency
+    handle: async ({ imageUrl, robotCoordinates }) => {
+      const result = await analyzeStoredDrawing(imageUrl);
+      if (robotCoordinates && result.estimatedPosition) {
+        result.positionError = calculateAxisErrors(result.estimatedPosition, robotCoordinates);
+      }
+      return result;
+    },
+  },
+  'POST /student/coordinates': {
+    delay: 500,
+    handle: () => ({ success: true }),
+  },
+  'POST /student/rgb': {
+    delay: 500,
+    handle: () => ({ success: true }),
+  },
+  'POST /ai/rgb': {
+    delay: 800,
+    handle: (coords) => ({
+      r: Math.round(coords.x),
+      g: Math.round(coords.y),
+      b: Math.round(coords.z),
+    }),
+  },
+  'POST /chat/message': {
+    delay: 1200,
+    handle: ({ message, context }) => ({
+      reply: composeTutorReply(message, context),
+    }),
+  },
+  'POST /sessions': {
+    delay: 500,
+    handle: (result) => {
+      postedSessions.push(result);
+      return { success: true };
+    },
+  },
+  'GET /sessions': {
+    delay: 800,
+    handle: (_body, request) => queryDashboard([...sampleSessions(), ...postedSessions], request.query ?? {}),
+  },
+  'POST /moderation/flags': {
+    delay: 300,
+    handle: (flag) => {
+      postedFlags.push(flag);
+      return { success: true };
+    },
+  },
+  'POST /moderation/flags/dismiss': {
+    delay: 300,
+    handle: ({ ids }) => {
+      ids.forEach((id) => dismissedFlags.add(id));
+      return { success: true };
+    },
+  },
+  'GET /moderation/flags': {
+    delay: 500,
+    handle: () => ({
+      flags: postedFlags
+        .filter((f) => !dismissedFlags.has(f.id))
+        .sort((a, b) => Date.parse(a.flaggedAt) - Date.parse(b.flaggedAt))
+        .slice(-MAX_LISTED_FLAGS),
+    }),
+  },
+};
@@ -0,0 +1,262 @@
+// Guardrails for the tutor chat. Students are children typing free text, so
+// every message is checked before it reaches a tutor provider, and every reply
+// before it is shown. The checks are deterministic and run in the browser:
+//   - length:        messages longer than the policy allows are refused
+//   - profanity:     built-in list plus the teacher's own words, refused on the
+//                    way in and masked on the way out
+//   - personal info: emails, phone numbers, street addresses and "my name is …"
+//                    are redacted, so they are never sent or stored
+//   - off topic:     questions with nothing to do with the lesson are answered
+//                    with a nudge back instead of going to the tutor
+// The teacher sets the policy on the dashboard, where flagged messages are listed.
+
+import { classifyQuestion } from '@shared/tutor';
+
+export const MODERATION_REASON_IDS = ['too-long', 'profanity', 'personal-info', 'off-topic'] as const;
+export type ModerationReason = typeof MODERATION_REASON_IDS[number];
+
+export interface ModerationPolicy {
+  maxMessageLength: number;
+  filterProfanity: boolean;
+  filterPersonalInfo: boolean;
+  redirectOffTopic: boolean;
+  // Extra words or phrases the teacher wants blocked, matched as whole words
+  blockedWords: string[];
+}
+
+export const MIN_MESSAGE_LENGTH_LIMIT = 20;
+export const MAX_MESSAGE_LENGTH_LIMIT = 1000;
+
+export const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  maxMessageLength: 300,
+  filterProfanity: true,
+  filterPersonalInfo: true,
+  redirectOffTopic: true,
+  blockedWords: [],
+};
+
+export const MODERATION_REASONS: Record<ModerationReason, { label: string }> = {
+  'too-long': { label: 'Too long' },
+  profanity: { label: 'Inappropriate language' },
+  'personal-info': { label: 'Personal information' },
+  'off-topic': { label: 'Off topic' },
+};
+
+export interface ModerationResult {
+  // Whether the text may go on: to the tutor for input, to the screen for output
+  allowed: boolean;
+  reasons: ModerationReason[];
+  // The text with personal details redacted and profanity masked; safe to
+  // store and to show to the teacher
+  text: string;
+}
+
+// A message the checks caught, kept for the teacher
+export interface ModerationFlag {
+  id: string;
+  // Profile id, or a guest's name, like the results on the dashboard
+  studentId: string;
+  studentName: string;
+  // Who wrote it: the student, or the tutor in its reply
+  source: 'student' | 'tutor';
+  reasons: ModerationReason[];
+  // The cleaned text, never the original
+  text: string;
+  flaggedAt: Date;
+}
+
+export function createModerationFlag(
+  studentId: string,
+  studentName: string,
+  source: ModerationFlag['source'],
+  { reasons, text }: ModerationResult,
+  flaggedAt = new Date(),
+): ModerationFlag {
+  return {
+    id: `flag_${flaggedAt.getTime().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    studentId,
+    studentName,
+    source,
+    reasons,
+    text,
+    flaggedAt,
+  };
+}
+
+// Words that match at the start of a token ("fucking", "shitty") ...
+const PROFANE_STEMS = [
+  'fuck', 'shit', 'bitch', 'bastard', 'cunt', 'wank', 'twat', 'bollock', 'bullshit', 'motherfuck',
+  'asshole', 'arsehole', 'dickhead', 'piss', 'slut', 'whore', 'retard', 'faggot', 'nigger', 'nigga',
+  'damn', 'goddamn', 'douche',
+];
+// ... and words that only match exactly, because longer words start with them
+// ("class", "cockpit", "scrap")
+const PROFANE_WORDS = ['ass', 'arse', 'dick', 'cock', 'tits', 'prick', 'crap', 'fag', 'jerk'];
+
+// Letters students swap in to get past a filter
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '@': 'a', $: 's', '!': 'i' };
+
+const TOKEN_PATTERN = /[a-z0-9@$!]+/gi;
+
+function normalizeToken(token: string): string {
+  return token
+    .toLowerCase()
+    .replace(/^!+|!+$/g, '')
+    .replace(/[01345@$!]/g, (ch) => LOOKALIKES[ch]);
+}
+
+function isProfaneToken(token: string): boolean {
+  const word = normalizeToken(token);
+  // Plain numbers ("55", "130") are never words, however they normalize
+  if (!/[a-z@$!]/i.test(token)) return false;
+  return PROFANE_WORDS.includes(word) || PROFANE_STEMS.some((stem) => word.startsWith(stem));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function blockedWordPatterns(words: string[]): RegExp[] {
+  return words
+    .map((word) => word.trim())
+    .filter(Boolean)
+    .map((word) => new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(word).replace(/\s+/g, '\\s+')}(?![\\p{L}\\d])`, 'giu'));
+}
+
+const mask = (word: string) => word[0] + '*'.repeat(Math.max(word.length - 1, 2));
+
+// Masks the built-in profanity (when the policy filters it) and the teacher's
+// blocked words, which apply either way; `found` tells whether anything was masked
+function maskProfanity(text: string, policy: ModerationPolicy): { text: string; found: boolean } {
+  let found = false;
+  const hide = (word: string) => {
+    found = true;
+    return mask(word);
+  };
+
+  let masked = policy.filterProfanity
+    ? text.replace(TOKEN_PATTERN, (token) => (isProfaneToken(token) ? hide(token) : token))
+    : text;
+  blockedWordPatterns(policy.blockedWords).forEach((pattern) => {
+    masked = masked.replace(pattern, hide);
+  });
+  return { text: masked, found };
+}
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+// Numbers written the way phone numbers are, with a country code or grouped
+// by phone punctuation:
+//   +44 20 7946 0958, +15551234567, (555) 123-4567, 555-123-4567,
+//   555.123.4567, 07700 900123, 555-0123
+// A run of digits on its own ("1234567890") or color values ("255 128 64 200",
+// "255, 0, 128") are left alone.
+const PHONE_PATTERN = new RegExp(
+  '(?<![\\w+.-])(?:'
+    + '\\+\\d{10,15}'
+    + '|\\+\\d{1,3}[\\s.-]?(?:\\(\\d{1,5}\\)[\\s.-]?)?\\d{2,5}(?:[\\s.-]\\d{2,5}){1,3}'
+    + '|\\(\\d{2,5}\\)\\s?\\d{3,4}[\\s.-]?\\d{3,4}'
+    + '|\\d{3}([.-])\\d{3}\\1\\d{4}'
+    + '|0\\d{2,4}[\\s-]\\d{3,4}[\\s-]?\\d{3,4}'
+    + '|\\d{3}-\\d{4}'
+    + ')(?![\\w.-]?\\d)',
+  'g',
+);
+// A house number, up to three words and a street type: "12 Elm Street",
+// "4 rose ave". Street types that are also everyday words ("are the 2 colors
+// close", "is 100 the right way") only count when capitalised ("3 Oak Close").
+const STREET_PATTERN = new RegExp(
+  '\\b\\d{1,5}\\s+(?:[a-z]+\\s+){1,3}'
+    + '(?:street|road|rd|avenue|ave|lane|drive|boulevard|blvd|crescent|terrace)\\b\\.?',
+  'gi',
+);
+const CAPITALISED_STREET_PATTERN = /\b\d{1,5}\s+(?:[A-Za-z]+\s+){1,3}(?:St|Ln|Dr|Close|Court|Ct|Way|Place)\b\.?/g;
+// Phrases that introduce a personal detail; what follows, up to the end of
+// the sentence, is removed. Where someone lives only counts as an address
+// ("I live in a cube" is about the lesson), so it is left to STREET_PATTERN.
+const DISCLOSURE_PATTERN = new RegExp(
+  '\\b(my (?:full |real |last |first )?name is|my name\'?s|my address is'
+    + '|my (?:phone|mobile|cell)(?: number)? is|my e-?mail(?: address)? is|my password is|my school is)\\s+[^.,!?\\n]+',
+  'gi',
+);
+
+const REDACTED = '[removed]';
+
+// Redacts personal details; `found` tells whether anything was removed
+function redactPersonalInfo(text: string): { text: string; found: boolean } {
+  let found = false;
+  const redact = (replacement: string) => () => {
+    found = true;
+    return replacement;
+  };
+
+  const redacted = text
+    .replace(EMAIL_PATTERN, redact(REDACTED))
+    .replace(PHONE_PATTERN, redact(REDACTED))
+    .replace(STREET_PATTERN, redact(REDACTED))
+    .replace(CAPITALISED_STREET_PATTERN, redact(REDACTED))
+    .replace(DISCLOSURE_PATTERN, (_match, lead: string) => redact(`${lead} ${REDACTED}`)());
+  return { text: redacted, found };
+}
+
+// Words that tie a message to the lesson even when the tutor can't tell what
+// is being asked
+const LESSON_TERMS = new RegExp(
+  '\\b(colou?rs?|red|green|blue|rgb|robot|cube|coordinates?|axis|axes|[xyz]|numbers?|values?|predict\\w*|guess\\w*'
+    + '|draw\\w*|picture|camera|light|mix\\w*|lesson|tutor|answer|help|explain|understand|confused|results?|score)\\b',
+);
+
+// Fewer words than this ("ok", "cool", "yes please") are never off topic
+const OFF_TOPIC_MIN_WORDS = 3;
+
+export function isOffTopic(message: string): boolean {
+  const text = message.toLowerCase();
+  if (text.split(/\s+/).filter(Boolean).length < OFF_TOPIC_MIN_WORDS) return false;
+  const { topic, channels } = classifyQuestion(text);
+  return topic === 'general' && channels.length === 0 && !LESSON_TERMS.test(text);
+}
+
+// Redacts personal details and masks profanity, as the policy asks
+function cleanText(text: string, policy: ModerationPolicy): { text: string; reasons: ModerationReason[] } {
+  const reasons: ModerationReason[] = [];
+  let cleaned = text;
+
+  if (policy.filterPersonalInfo) {
+    const redacted = redactPersonalInfo(cleaned);
+    cleaned = redacted.text;
+    if (redacted.found) reasons.push('personal-info');
+  }
+  const masked = maskProfanity(cleaned, policy);
+  cleaned = masked.text;
+  if (masked.found) reasons.push('profanity');
+
+  return { text: cleaned, reasons };
+}
+
+// Checks what a student typed before it is sent to the tutor
+export function moderateInput(message: string, policy: ModerationPolicy): ModerationResult {
+  const { text, reasons } = cleanText(message, policy);
+  if (message.length > policy.maxMessageLength) reasons.push('too-long');
+  if (policy.redirectOffTopic && reasons.length === 0 && isOffTopic(message)) reasons.push('off-topic');
+
+  return { allowed: reasons.length === 0, reasons, text };
+}
+
+// Cleans a tutor reply before it is shown. Replies are never blocked, only
+// cleaned, so a student always sees an answer.
+export function moderateOutput(reply: string, policy: ModerationPolicy): ModerationResult {
+  return { allowed: true, ...cleanText(reply, policy) };
+}
+
+// What the tutor says instead of answering a message that was held back
+export function describeRefusal(reasons: ModerationReason[], policy: ModerationPolicy): string {
+  if (reasons.includes('personal-info')) {
+    return "Please don't share personal details like your name, address, phone number or email here. "
+      + 'I took them out of your message. Ask me about your coordinates or colors instead!';
+  }
+  if (reasons.includes('profanity')) {
+    return "Let's keep our chat kind and school-friendly. Try asking your question again in different words.";
+  }
+  if (reasons.includes('too-long')) {
+    return `That message is a bit long for me. Please keep questions under ${policy.maxMessageLength} characters.`;
+  }
+  return "That's an interesting thought, but I can only help with this lesson. "
+    + 'Try asking me how the robot\'s position turns into a color!';
+}
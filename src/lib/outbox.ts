@@ -0,0 +1,310 @@
+// Offline outbox for API writes.
+// Some writes don't need an answer for the lesson to go on: the robot's and
+// student's coordinates, the predicted color, the finished session and the
+// chat messages the safety checks flagged. When the backend can't be reached
+// they are kept here and sent again later, each under the Idempotency-Key it
+// was first tried with, so the server stores a write once however often it is
+// retried. The queue lives in localStorage, shared by every open tab, and
+// survives a reload. It's flushed in order when the browser comes back online,
+// on a backoff timer while the backend stays away, and on request.
+//
+// Writes the server refuses (4xx) are kept as failed rather than retried, so
+// the teacher can see what didn't arrive.
+
+import { z } from 'zod';
+import { createVersionedStore } from '@/lib/persistence';
+import { isApiError } from '@/lib/transport';
+import { outboxEntrySchema, recoverFields } from '@/lib/schemas';
+import type { ApiRoute } from '@/lib/api';
+
+export const QUEUEABLE_ROUTES = [
+  'POST /robot/coordinates',
+  'POST /student/coordinates',
+  'POST /student/rgb',
+  'POST /sessions',
+  'POST /moderation/flags',
+  'POST /moderation/flags/dismiss',
+] as const satisfies readonly ApiRoute[];
+
+export type QueueableRoute = typeof QUEUEABLE_ROUTES[number];
+
+export interface OutboxEntry {
+  // Also the Idempotency-Key
+  id: string;
+  route: QueueableRoute;
+  body: unknown;
+  createdAt: Date;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  // Refused by the server; kept for the record but not retried on its own
+  failed: boolean;
+}
+
+export interface OutboxStatus {
+  // Waiting to be sent, failed ones not included
+  pending: number;
+  failed: number;
+  syncing: boolean;
+  online: boolean;
+  // When the next automatic retry is due, if one is scheduled
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+}
+
+// Sends one entry with its idempotency key; api.ts provides it
+export type OutboxSender = (entry: OutboxEntry) => Promise<unknown>;
+
+const STORE_KEY = 'tangible-ai-outbox';
+const store = createVersionedStore(STORE_KEY, 1, []);
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+const ROUTE_LABELS: Record<QueueableRoute, string> = {
+  'POST /robot/coordinates': 'Robot position',
+  'POST /student/coordinates': 'Your coordinates',
+  'POST /student/rgb': 'Your color prediction',
+  'POST /sessions': 'Lesson results',
+  'POST /moderation/flags': 'Flagged chat message',
+  'POST /moderation/flags/dismiss': 'Dismissed flags',
+};
+
+export const describeOutboxEntry = (entry: OutboxEntry) => ROUTE_LABELS[entry.route];
+
+export function isQueueableRoute(route: string): route is QueueableRoute {
+  return (QUEUEABLE_ROUTES as readonly string[]).includes(route);
+}
+
+// Failures worth trying again later: the backend couldn't be reached, was too
+// slow, was busy or broke. Anything else would fail the same way again.
+export function isRetryableError(error: unknown): boolean {
+  if (!isApiError(error)) return false;
+  switch (error.kind) {
+    case 'network':
+    case 'timeout':
+    case 'rate_limited':
+      return true;
+    case 'http':
+      return error.status === null || error.status >= 500;
+    default:
+      return false;
+  }
+}
+
+export function createIdempotencyKey(now = new Date()): string {
+  const random = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+  return `write_${random}`;
+}
+
+// Doubles with each attempt up to the cap, give or take a fifth so a class
+// full of devices doesn't retry in step
+export function retryDelay(attempts: number, random = Math.random()): number {
+  const base = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(base * (0.8 + random * 0.4));
+}
+
+function loadEntries(): OutboxEntry[] {
+  const loaded = store.load();
+  if (loaded.status !== 'loaded') return [];
+  const { value, invalidFields } = recoverFields<{ entries: unknown[] }>(
+    { entries: z.array(z.unknown()) },
+    loaded.data,
+    { entries: [] },
+  );
+  // Entry by entry, so one unreadable write doesn't lose the others
+  const entries = value.entries.flatMap((raw) => {
+    const parsed = outboxEntrySchema.safeParse(raw);
+    return parsed.success ? [parsed.data] : [];
+  });
+  if (invalidFields.length > 0 || entries.length < value.entries.length) {
+    console.warn('Outbox: dropped unreadable pending writes', invalidFields);
+  }
+  return entries;
+}
+
+let entries: OutboxEntry[] | null = null;
+let sender: OutboxSender | null = null;
+let flushing: Promise<void> | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let status: OutboxStatus | null = null;
+const listeners = new Set<() => void>();
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+function currentEntries(): OutboxEntry[] {
+  if (!entries) entries = loadEntries();
+  return entries;
+}
+
+function computeStatus(): OutboxStatus {
+  const all = currentEntries();
+  const waiting = all.filter((e) => !e.failed);
+  const due = waiting.map((e) => e.nextAttemptAt.getTime());
+  return {
+    pending: waiting.length,
+    failed: all.length - waiting.length,
+    syncing: flushing !== null,
+    online: isOnline(),
+    nextAttemptAt: due.length > 0 && timer !== null ? new Date(Math.min(...due)) : null,
+    lastError: [...all].reverse().find((e) => e.lastError)?.lastError ?? null,
+  };
+}
+
+function notify() {
+  status = computeStatus();
+  listeners.forEach((listener) => listener());
+}
+
+// Re-reads the queue before changing it: another tab may have changed it
+// since it was cached, and saving the cached copy would drop its writes
+function changeEntries(change: (current: OutboxEntry[]) => OutboxEntry[]) {
+  entries = change(loadEntries());
+  store.save({ entries });
+}
+
+function updateEntry(id: string, changes: Partial<OutboxEntry>) {
+  changeEntries((current) => current.map((e) => (e.id === id ? { ...e, ...changes } : e)));
+}
+
+function schedule() {
+  if (timer !== null) clearTimeout(timer);
+  timer = null;
+  const due = currentEntries().filter((e) => !e.failed).map((e) => e.nextAttemptAt.getTime());
+  if (due.length === 0 || !sender) return;
+  const wait = Math.max(0, Math.min(...due) - Date.now());
+  timer = setTimeout(() => {
+    timer = null;
+    void flushOutbox();
+  }, wait);
+}
+
+async function runFlush(now: boolean) {
+  // In order: a later write may depend on an earlier one having arrived
+  for (const entry of currentEntries().filter((e) => !e.failed)) {
+    if (!sender) return;
+    if (!now && entry.nextAttemptAt.getTime() > Date.now()) return;
+
+    const attempts = entry.attempts + 1;
+    try {
+      await sender(entry);
+      changeEntries((current) => current.filter((e) => e.id !== entry.id));
+      notify();
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : 'Could not send';
+      if (isRetryableError(error)) {
+        updateEntry(entry.id, {
+          attempts,
+          nextAttemptAt: new Date(Date.now() + retryDelay(attempts)),
+          lastError,
+        });
+        // The backend is still away; the rest would fail the same way
+        return;
+      }
+      console.warn(`Outbox: the server refused ${entry.route}:`, error);
+      updateEntry(entry.id, { attempts, lastError, failed: true });
+      notify();
+    }
+  }
+}
+
+// Sends the writes that are due, or all of them with `now`. A flush already
+// under way is joined rather than repeated.
+export function flushOutbox({ now = false } = {}): Promise<void> {
+  if (flushing) return flushing;
+  if (!sender || !hasPendingWrites()) return Promise.resolve();
+
+  flushing = runFlush(now)
+    .catch((error) => console.warn('Outbox: flush stopped:', error))
+    .finally(() => {
+      flushing = null;
+      schedule();
+      notify();
+    });
+  notify();
+  return flushing;
+}
+
+// "Retry now": sends everything straight away, failed writes included
+export function retryOutbox(): Promise<void> {
+  if (currentEntries().some((e) => e.failed)) {
+    changeEntries((current) => current.map((e) => (e.failed ? { ...e, failed: false } : e)));
+  }
+  return flushOutbox({ now: true });
+}
+
+// Records a write that couldn't be sent. `error` is why the first try failed,
+// if there was one; without it the write is tried straight away.
+export function enqueueWrite(route: QueueableRoute, body: unknown, id = createIdempotencyKey(), error?: unknown) {
+  const now = new Date();
+  const tried = error !== undefined;
+  const entry: OutboxEntry = {
+    id,
+    route,
+    body,
+    createdAt: now,
+    attempts: tried ? 1 : 0,
+    nextAttemptAt: new Date(now.getTime() + (tried ? retryDelay(1) : 0)),
+    lastError: tried && error instanceof Error ? error.message : null,
+    failed: false,
+  };
+  changeEntries((current) => [...current.filter((e) => e.id !== id), entry]);
+  if (!flushing) schedule();
+  notify();
+}
+
+// Writes still waiting; new writes queue behind them to keep their order
+export function hasPendingWrites(): boolean {
+  return currentEntries().some((e) => !e.failed);
+}
+
+export function discardFailedWrites() {
+  changeEntries((current) => current.filter((e) => !e.failed));
+  notify();
+}
+
+export function getOutboxEntries(): readonly OutboxEntry[] {
+  return currentEntries();
+}
+
+export function getOutboxStatus(): OutboxStatus {
+  if (!status) status = computeStatus();
+  return status;
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const handleOnline = () => {
+  notify();
+  void flushOutbox({ now: true });
+};
+
+// Another tab changed the queue (or storage was cleared): drop the cached copy
+const handleStorage = (event: StorageEvent) => {
+  if (event.key !== null && event.key !== STORE_KEY) return;
+  entries = null;
+  if (!flushing) schedule();
+  notify();
+};
+
+// Called once by api.ts with the function that sends an entry; starts
+// flushing whatever an earlier visit left behind
+export function connectOutbox(send: OutboxSender) {
+  sender = send;
+  if (typeof window !== 'undefined') {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', notify);
+    window.removeEventListener('storage', handleStorage);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', notify);
+    window.addEventListener('storage', handleStorage);
+  }
+  schedule();
+}
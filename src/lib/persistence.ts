@@ -0,0 +1,137 @@
+// Versioned localStorage persistence.
+// Values are saved in an envelope { version, savedAt, data }. On load, older
+// envelopes (and bare pre-versioning values, treated as version 0) are run
+// through an ordered list of migrations up to the current version. Dates are
+// tagged on save and revived on load, so no field needs special-casing.
+
+export interface PersistedEnvelope {
+  version: number;
+  savedAt: string;
+  data: unknown;
+}
+
+export interface Migration {
+  // Version this migration produces; it runs on data at `version - 1`
+  version: number;
+  description: string;
+  migrate: (data: unknown) => unknown;
+}
+
+export type LoadResult =
+  | { status: 'empty' }
+  | { status: 'loaded'; data: unknown; fromVersion: number; migrated: boolean }
+  | { status: 'error'; reason: string };
+
+const DATE_TAG = '$date';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// JSON.stringify calls Date#toJSON before the replacer sees the value, so
+// check the original on the holder object instead
+function replaceDates(this: Record<string, unknown>, key: string, value: unknown) {
+  const original = this[key];
+  if (original instanceof Date) {
+    return { [DATE_TAG]: Number.isNaN(original.getTime()) ? null : original.toISOString() };
+  }
+  return value;
+}
+
+function reviveDates(_key: string, value: unknown) {
+  if (isRecord(value) && Object.keys(value).length === 1 && DATE_TAG in value) {
+    const iso = value[DATE_TAG];
+    return typeof iso === 'string' ? new Date(iso) : new Date(NaN);
+  }
+  return value;
+}
+
+export function serialize(data: unknown, version: number): string {
+  const envelope: PersistedEnvelope = { version, savedAt: new Date().toISOString(), data };
+  return JSON.stringify(envelope, replaceDates);
+}
+
+function isEnvelope(value: unknown): value is PersistedEnvelope {
+  return isRecord(value)
+    && typeof value.version === 'number'
+    && Number.isInteger(value.version)
+    && typeof value.savedAt === 'string'
+    && 'data' in value;
+}
+
+export function migrate(data: unknown, fromVersion: number, migrations: Migration[]): unknown {
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((m) => m.version > fromVersion)
+    .reduce((current, m) => m.migrate(current), data);
+}
+
+export function deserialize(raw: string, currentVersion: number, migrations: Migration[]): LoadResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw, reviveDates);
+  } catch {
+    return { status: 'error', reason: 'Saved data is not valid JSON' };
+  }
+
+  // Anything saved before versioning was the bare value
+  const envelope: PersistedEnvelope = isEnvelope(parsed)
+    ? parsed
+    : { version: 0, savedAt: '', data: parsed };
+
+  if (envelope.version > currentVersion) {
+    return {
+      status: 'error',
+      reason: `Saved data is from a newer version (${envelope.version} > ${currentVersion})`,
+    };
+  }
+
+  try {
+    return {
+      status: 'loaded',
+      data: migrate(envelope.data, envelope.version, migrations),
+      fromVersion: envelope.version,
+      migrated: envelope.version < currentVersion,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      reason: `Migration from version ${envelope.version} failed: ${error instanceof Error ? error.message : error}`,
+    };
+  }
+}
+
+export interface VersionedStore {
+  load(): LoadResult;
+  save(data: unknown): void;
+  clear(): void;
+}
+
+export function createVersionedStore(key: string, version: number, migrations: Migration[]): VersionedStore {
+  const latest = migrations.reduce((max, m) => Math.max(max, m.version), 0);
+  if (migrations.length > 0 && latest !== version) {
+    console.warn(`persistence: "${key}" is at version ${version} but the last migration targets ${latest}`);
+  }
+
+  return {
+    load() {
+      if (typeof window === 'undefined') return { status: 'empty' };
+      const raw = localStorage.getItem(key);
+      if (raw === null) return { status: 'empty' };
+      return deserialize(raw, version, migrations);
+    },
+    save(data) {
+      if (typeof window === 'undefined') return;
+      try {
+        localStorage.setItem(key, serialize(data, version));
+      } catch (error) {
+        // Quota exceeded or storage disabled; keep running in memory
+        console.warn(`persistence: could not save "${key}"`, error);
+      }
+    },
+    clear() {
+      if (typeof window === 'undefined') return;
+      localStorage.removeItem(key);
+    },
+  };
+}
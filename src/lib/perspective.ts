@@ -0,0 +1,120 @@
+// Perspective correction for photos of paper drawings. The student marks the
+// paper's four corners; warpPerspective maps that quadrilateral back to a flat
+// rectangle so the CV step sees the drawing straight-on.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// Gaussian elimination with partial pivoting; throws when the system has no
+// single solution (e.g. three corners on one line)
+function solveLinearSystem(matrix: number[][], values: number[]): number[] {
+  const n = values.length;
+  const rows = matrix.map((row, i) => [...row, values[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) {
+      throw new Error('The corners do not form a usable shape');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  const result = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k++) sum -= rows[row][k] * result[k];
+    result[row] = sum / rows[row][row];
+  }
+  return result;
+}
+
+// The 3x3 projective transform (row-major, last entry 1) taking each corner
+// of `from` onto the matching corner of `to`
+export function computeHomography(from: Quad, to: Quad): number[] {
+  const matrix: number[][] = [];
+  const values: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  });
+  return [...solveLinearSystem(matrix, values), 1];
+}
+
+export function applyHomography(h: number[], { x, y }: Point): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+  };
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Output size that keeps the marked paper's proportions, scaled down so the
+// longer side is at most maxSide pixels
+export function correctedSize(quad: Quad, maxSide: number): { width: number; height: number } {
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(distance(tl, tr), distance(bl, br));
+  const height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, maxSide / Math.max(width, height, 1));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// Resample the area inside `quad` into a width x height rectangle using
+// bilinear interpolation
+export function warpPerspective(source: ImageData, quad: Quad, width: number, height: number): ImageData {
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 },
+  ];
+  // Map output pixels back into the photo
+  const h = computeHomography(target, quad);
+  const output = new ImageData(width, height);
+  const { data: src, width: sw, height: sh } = source;
+  const out = output.data;
+
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const { x, y } = applyHomography(h, { x: u, y: v });
+      const x0 = Math.max(0, Math.min(sw - 1, Math.floor(x)));
+      const y0 = Math.max(0, Math.min(sh - 1, Math.floor(y)));
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = Math.max(0, Math.min(1, x - x0));
+      const fy = Math.max(0, Math.min(1, y - y0));
+
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = (y0 * sw + x1) * 4;
+      const i01 = (y1 * sw + x0) * 4;
+      const i11 = (y1 * sw + x1) * 4;
+      const o = (v * width + u) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] * (1 - fx) + src[i10 + c] * fx;
+        const bottom = src[i01 + c] * (1 - fx) + src[i11 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return output;
+}
@@ -0,0 +1,95 @@
+// Student profiles on a shared device.
+// The registry lists every profile and which one is signed in. Each profile
+// keeps its own in-progress session and its own history of completed sessions
+// under separate storage keys, so switching students never touches another
+// student's work.
+
+import { z } from 'zod';
+import { createVersionedStore } from '@/lib/persistence';
+import { clearHistory } from '@/lib/history';
+import { deleteOwnerDrawings, drawingOwnerFor } from '@/lib/drawingStore';
+import { recoverFields, studentProfileSchema } from '@/lib/schemas';
+import { SESSION_STORAGE_KEY } from '@/lib/sessionMigrations';
+
+export interface StudentProfile {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  lastActiveAt: Date;
+}
+
+export interface ProfileRegistry {
+  profiles: StudentProfile[];
+  activeProfileId: string | null;
+}
+
+export const MAX_PROFILE_NAME_LENGTH = 30;
+
+// Avatar colors, picked in order so neighbouring profiles look different
+export const PROFILE_COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+const registryStore = createVersionedStore('tangible-ai-profiles', 1, []);
+
+const EMPTY_REGISTRY: ProfileRegistry = { profiles: [], activeProfileId: null };
+
+export function loadProfileRegistry(): ProfileRegistry {
+  const loaded = registryStore.load();
+  if (loaded.status !== 'loaded') {
+    if (loaded.status === 'error') console.warn('Profiles: could not load registry:', loaded.reason);
+    return EMPTY_REGISTRY;
+  }
+
+  const { value, invalidFields } = recoverFields<ProfileRegistry>(
+    { profiles: z.array(studentProfileSchema), activeProfileId: z.string().nullable() },
+    loaded.data,
+    EMPTY_REGISTRY,
+  );
+  if (invalidFields.length > 0) {
+    console.warn('Profiles: dropped invalid saved profiles', invalidFields);
+  }
+  const activeExists = value.profiles.some((p) => p.id === value.activeProfileId);
+  return { ...value, activeProfileId: activeExists ? value.activeProfileId : null };
+}
+
+export function saveProfileRegistry(registry: ProfileRegistry) {
+  registryStore.save(registry);
+}
+
+// Storage key of a profile's in-progress session; null is the guest session
+// (the same key used before profiles existed)
+export function sessionStorageKeyFor(profileId: string | null): string {
+  return profileId ? `${SESSION_STORAGE_KEY}:${profileId}` : SESSION_STORAGE_KEY;
+}
+
+// Remove everything stored for a profile
+export function clearProfileData(profileId: string) {
+  clearHistory(profileId);
+  localStorage.removeItem(sessionStorageKeyFor(profileId));
+  deleteOwnerDrawings(drawingOwnerFor(profileId)).catch((error) => {
+    console.warn('Profiles: could not delete stored drawings:', error);
+  });
+}
+
+export function validateProfileName(name: string, profiles: StudentProfile[], ignoreId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Please enter a name';
+  if (trimmed.length > MAX_PROFILE_NAME_LENGTH) {
+    return `Names can be at most ${MAX_PROFILE_NAME_LENGTH} characters`;
+  }
+  const taken = profiles.some(
+    (p) => p.id !== ignoreId && p.name.toLowerCase() === trimmed.toLowerCase(),
+  );
+  return taken ? `There is already a student called ${trimmed}` : null;
+}
+
+export function createProfileRecord(name: string, existing: StudentProfile[]): StudentProfile {
+  const now = new Date();
+  return {
+    id: `profile_${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim(),
+    color: PROFILE_COLORS[existing.length % PROFILE_COLORS.length],
+    createdAt: now,
+    lastActiveAt: now,
+  };
+}
@@ -0,0 +1,364 @@
+// Runtime schemas for API payloads and persisted state.
+// Every interface in api.ts has a schema here; server responses are checked
+// against them before they reach the app, and saved sessions are rehydrated
+// field by field so one bad value does not throw away the whole session.
+
+import { z } from 'zod';
+import type {
+  BoundingBox,
+  CVResult,
+  ChatMessage,
+  ChatResponse,
+  DashboardResultsPayload,
+  DashboardStudent,
+  DashboardSummary,
+  MetricSummary,
+  ModerationFlagPayload,
+  ModerationFlagsPayload,
+  RGBColor,
+  RobotCoordinates,
+  SessionResult,
+  SessionResultPayload,
+  SuccessResponse,
+  UploadDrawingResponse,
+} from '@/lib/api';
+import type { StudentProfile } from '@/lib/profiles';
+import type { DrawingAttempt, SessionState } from '@/context/SessionContext';
+import type { SessionAttempt } from '@/lib/history';
+import type { LessonPlan } from '@/lib/lessonPlans';
+import type { HintLevels } from '@/lib/hints';
+import { isQueueableRoute, type OutboxEntry } from '@/lib/outbox';
+import { MODERATION_REASON_IDS, type ModerationFlag, type ModerationPolicy } from '@/lib/moderation';
+import { COLOR_SPACE_IDS, STEP_KINDS, type StepConfig } from '@/lib/workflow';
+
+// Schema whose parsed output is T, whatever the raw input looked like
+export type SchemaOf<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// A type with every object key required, all the way down. Without
+// strictNullChecks zod infers every object key as optional, so its inferred
+// types are compared with the interfaces in this form.
+type Settled<T> = T extends Date
+  ? T
+  : T extends readonly (infer U)[]
+    ? Settled<U>[]
+    : T extends object
+      ? { [K in keyof T]-?: Settled<T[K]> }
+      : T;
+
+type SameType<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+// Ties a schema to the interface it validates; the interfaces in api.ts stay
+// the source of truth. A schema whose output has other keys or other value
+// types than T doesn't compile. Curried so T is given and the schema inferred.
+function typed<T>() {
+  return <S extends z.ZodTypeAny>(
+    schema: S & (SameType<Settled<z.output<S>>, Settled<T>> extends true ? unknown : { schemaDoesNotMatch: T }),
+  ): SchemaOf<T> => schema;
+}
+
+const channel = z.number().finite().min(0).max(255);
+const percentage = z.number().finite().min(0).max(100);
+const hintCount = z.number().int().nonnegative();
+
+export const robotCoordinatesSchema = typed<RobotCoordinates>()(z.object({
+  x: channel,
+  y: channel,
+  z: channel,
+}));
+
+const axisError = z.number().finite().min(-255).max(255);
+
+export const axisErrorsSchema = typed<RobotCoordinates>()(z.object({
+  x: axisError,
+  y: axisError,
+  z: axisError,
+}));
+
+export const rgbColorSchema = typed<RGBColor>()(z.object({
+  r: channel,
+  g: channel,
+  b: channel,
+}));
+
+export const boundingBoxSchema = typed<BoundingBox>()(z.object({
+  x: z.number().finite(),
+  y: z.number().finite(),
+  width: z.number().finite().nonnegative(),
+  height: z.number().finite().nonnegative(),
+  label: z.string().optional(),
+}));
+
+const imageDimension = z.number().int().positive();
+
+export const cvResultSchema = typed<CVResult>()(z.object({
+  accuracy: percentage,
+  detectedObjects: z.array(z.string()),
+  boundingBoxes: z.array(boundingBoxSchema),
+  confidence: percentage,
+  imageWidth: imageDimension.optional(),
+  imageHeight: imageDimension.optional(),
+  markerColor: rgbColorSchema.optional(),
+  estimatedPosition: robotCoordinatesSchema.optional(),
+  positionError: axisErrorsSchema.optional(),
+}));
+
+// Accepts Date instances and ISO strings; rejects unparseable dates
+const dateSchema = z.coerce.date();
+
+export const chatMessageSchema = typed<ChatMessage>()(z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  timestamp: dateSchema,
+}));
+
+const stepSecondsSchema = typed<Record<string, number>>()(z.record(z.number().finite().nonnegative()));
+
+const sessionResultShape = {
+  studentId: z.string().min(1),
+  studentName: z.string().min(1),
+  robotCoordinates: robotCoordinatesSchema,
+  cvAccuracy: percentage,
+  studentRgb: rgbColorSchema,
+  aiRgb: rgbColorSchema,
+  rgbDelta: z.number().finite().nonnegative(),
+  // Results saved before hints existed had none
+  predictHintsUsed: hintCount.default(0),
+  // Nor did they record these
+  studentCoordinates: robotCoordinatesSchema.nullable().default(null),
+  chatMessages: z.number().int().nonnegative().default(0),
+  stepSeconds: stepSecondsSchema.default({}),
+  imageUrl: z.string().min(1).nullable().default(null),
+};
+
+// Results saved before names were kept apart from ids were keyed by name, and
+// the predict hints were saved as hintsUsed
+const upgradeResult = (value: unknown) => {
+  if (typeof value !== 'object' || value === null) return value;
+  const { hintsUsed, ...result } = value as Record<string, unknown>;
+  return {
+    ...(hintsUsed !== undefined && { predictHintsUsed: hintsUsed }),
+    ...result,
+    ...(!('studentName' in result) && { studentName: result.studentId }),
+  };
+};
+
+export const sessionResultSchema = typed<SessionResult>()(z.preprocess(upgradeResult, z.object({
+  ...sessionResultShape,
+  date: dateSchema,
+})));
+
+export const sessionResultPayloadSchema = typed<SessionResultPayload>()(z.preprocess(upgradeResult, z.object({
+  ...sessionResultShape,
+  date: z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date'),
+})));
+
+const countSchema = z.number().int().nonnegative();
+
+export const metricSummarySchema = typed<MetricSummary>()(z.object({
+  avgDifference: z.number().finite().nonnegative(),
+  excellent: countSchema,
+}));
+
+export const dashboardSummarySchema = typed<DashboardSummary>()(z.object({
+  sessions: countSchema,
+  students: countSchema,
+  avgCvAccuracy: percentage,
+  avgRgbDelta: z.number().finite().nonnegative(),
+  byMetric: z.object({
+    rgb: metricSummarySchema,
+    de76: metricSummarySchema,
+    de94: metricSummarySchema,
+    de2000: metricSummarySchema,
+  }),
+}));
+
+export const dashboardStudentSchema = typed<DashboardStudent>()(z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+}));
+
+export const dashboardResultsPayloadSchema = typed<DashboardResultsPayload>()(z.object({
+  rows: z.array(sessionResultPayloadSchema),
+  total: countSchema,
+  page: z.number().int().positive(),
+  pageSize: z.number().int().positive(),
+  students: z.array(dashboardStudentSchema),
+  summary: dashboardSummarySchema,
+}));
+
+export const successResponseSchema = typed<SuccessResponse>()(z.object({
+  success: z.boolean(),
+}));
+
+export const uploadDrawingResponseSchema = typed<UploadDrawingResponse>()(z.object({
+  success: z.boolean(),
+  imageUrl: z.string().min(1),
+}));
+
+export const chatResponseSchema = typed<ChatResponse>()(z.object({
+  reply: z.string(),
+}));
+
+export const drawingAttemptSchema = typed<DrawingAttempt>()(z.object({
+  imageUrl: z.string().min(1),
+  accuracy: percentage,
+  confidence: percentage,
+  analyzedAt: dateSchema,
+}));
+
+export type FieldSchemas<T> = { [K in keyof T]: SchemaOf<T[K]> };
+
+export const sessionStateSchemas: FieldSchemas<SessionState> = {
+  studentName: z.string().min(1),
+  robotCoordinates: robotCoordinatesSchema,
+  uploadedImage: z.string().nullable(),
+  cvResult: cvResultSchema.nullable(),
+  drawingAttempts: z.array(drawingAttemptSchema),
+  studentCoordinates: robotCoordinatesSchema.nullable(),
+  studentRgb: rgbColorSchema,
+  aiRgb: rgbColorSchema.nullable(),
+  chatHistory: z.array(chatMessageSchema),
+  completedSteps: z.array(z.string()),
+  currentStep: z.string().min(1),
+  archivedAttemptId: z.string().nullable(),
+  hintLevels: typed<HintLevels>()(z.object({ predict: hintCount, compare: hintCount })),
+  stepSeconds: stepSecondsSchema,
+};
+
+export const sessionStateSchema = typed<SessionState>()(z.object(sessionStateSchemas));
+
+export const sessionAttemptSchema = typed<SessionAttempt>()(z.object({
+  id: z.string().min(1),
+  completedAt: dateSchema,
+  result: sessionResultSchema,
+  session: sessionStateSchema,
+  reportedAt: dateSchema.nullable(),
+}));
+
+export const studentProfileSchema = typed<StudentProfile>()(z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  color: z.string().min(1),
+  createdAt: dateSchema,
+  lastActiveAt: dateSchema,
+}));
+
+export const stepConfigSchema = typed<StepConfig>()(z.object({
+  kind: z.enum(STEP_KINDS),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  params: z.object({
+    showHints: z.boolean().optional(),
+    suggestedQuestions: z.array(z.string()).optional(),
+    colorSpaces: z.array(z.enum(COLOR_SPACE_IDS)).optional(),
+    minAccuracy: percentage.optional(),
+  }).optional(),
+}));
+
+export const lessonPlanSchema = typed<LessonPlan>()(z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  description: z.string().default(''),
+  steps: z.array(stepConfigSchema).min(1),
+}));
+
+export const moderationPolicySchemas: FieldSchemas<ModerationPolicy> = {
+  maxMessageLength: z.number().int().positive(),
+  filterProfanity: z.boolean(),
+  filterPersonalInfo: z.boolean(),
+  redirectOffTopic: z.boolean(),
+  blockedWords: z.array(z.string()),
+};
+
+const moderationFlagShape = {
+  id: z.string().min(1),
+  studentId: z.string(),
+  studentName: z.string(),
+  source: z.enum(['student', 'tutor']),
+  reasons: z.array(z.enum(MODERATION_REASON_IDS)),
+  text: z.string(),
+};
+
+export const moderationFlagSchema = typed<ModerationFlag>()(z.object({
+  ...moderationFlagShape,
+  flaggedAt: dateSchema,
+}));
+
+export const moderationFlagPayloadSchema = typed<ModerationFlagPayload>()(z.object({
+  ...moderationFlagShape,
+  flaggedAt: z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date'),
+}));
+
+export const moderationFlagsPayloadSchema = typed<ModerationFlagsPayload>()(z.object({
+  flags: z.array(moderationFlagPayloadSchema),
+}));
+
+export const outboxEntrySchema = typed<OutboxEntry>()(z.object({
+  id: z.string().min(1),
+  route: z.string().refine(isQueueableRoute, 'Not a queueable route'),
+  body: z.unknown(),
+  createdAt: dateSchema,
+  attempts: z.number().int().nonnegative(),
+  nextAttemptAt: dateSchema,
+  lastError: z.string().nullable(),
+  failed: z.boolean(),
+}));
+
+// Short, human-readable summary of a zod failure for logs and error details
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+export interface RecoveryResult<T> {
+  value: T;
+  // Paths of stored values that failed validation and were replaced or dropped
+  invalidFields: string[];
+}
+
+// Validate an untrusted object one field at a time. Valid fields are kept,
+// invalid ones fall back to the default, and array fields keep their valid
+// items. Missing fields fall back silently (older saves may lack them).
+export function recoverFields<T extends object>(
+  schemas: FieldSchemas<T>,
+  raw: unknown,
+  fallback: T,
+): RecoveryResult<T> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { value: fallback, invalidFields: raw === undefined ? [] : ['(root)'] };
+  }
+
+  const source = raw as Record<string, unknown>;
+  const value = { ...fallback };
+  const invalidFields: string[] = [];
+
+  (Object.keys(schemas) as (keyof T & string)[]).forEach((key) => {
+    if (!(key in source) || source[key] === undefined) return;
+    const schema = schemas[key] as z.ZodTypeAny;
+
+    if (schema instanceof z.ZodArray && Array.isArray(source[key])) {
+      const items: unknown[] = [];
+      (source[key] as unknown[]).forEach((item, i) => {
+        const parsed = schema.element.safeParse(item);
+        if (parsed.success) {
+          items.push(parsed.data);
+        } else {
+          invalidFields.push(`${key}[${i}]`);
+        }
+      });
+      value[key] = items as T[typeof key];
+      return;
+    }
+
+    const parsed = schema.safeParse(source[key]);
+    if (parsed.success) {
+      value[key] = parsed.data;
+    } else {
+      invalidFields.push(key);
+    }
+  });
+
+  return { value, invalidFields };
+}
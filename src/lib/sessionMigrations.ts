@@ -0,0 +1,85 @@
+// Saved-session migrations, oldest first.
+// To change SessionState: bump SESSION_STORAGE_VERSION and append a migration
+// that turns the previous shape into the new one. Migrations must not throw on
+// odd input; whatever they return is still validated field by field.
+
+import type { Migration } from '@/lib/persistence';
+
+export const SESSION_STORAGE_KEY = 'tangible-ai-session';
+export const SESSION_STORAGE_VERSION = 7;
+
+type Json = Record<string, unknown>;
+
+const asRecord = (value: unknown): Json | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Json) : null;
+
+export const SESSION_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Wrap the bare state in an envelope; chat timestamps were plain ISO strings',
+    migrate: (data) => {
+      const state = asRecord(data);
+      if (!state || !Array.isArray(state.chatHistory)) return data;
+      return {
+        ...state,
+        chatHistory: state.chatHistory.map((message) => {
+          const msg = asRecord(message);
+          return msg && typeof msg.timestamp === 'string'
+            ? { ...msg, timestamp: new Date(msg.timestamp) }
+            : message;
+        }),
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Track which history attempt the session was archived as',
+    migrate: (data) => {
+      const state = asRecord(data);
+      return state ? { archivedAttemptId: null, ...state } : data;
+    },
+  },
+  {
+    version: 3,
+    description: 'Keep every analysed drawing of the verification step',
+    migrate: (data) => {
+      const state = asRecord(data);
+      return state ? { drawingAttempts: [], ...state } : data;
+    },
+  },
+  {
+    version: 4,
+    description: 'Count the hints revealed in the predict and compare steps',
+    migrate: (data) => {
+      const state = asRecord(data);
+      return state ? { hintLevels: { predict: 0, compare: 0 }, ...state } : data;
+    },
+  },
+  {
+    version: 5,
+    description: 'Drop drawings saved as blob: URLs, which were gone after a reload',
+    migrate: (data) => {
+      const state = asRecord(data);
+      if (!state || typeof state.uploadedImage !== 'string' || !state.uploadedImage.startsWith('blob:')) return data;
+      return { ...state, uploadedImage: null, cvResult: null };
+    },
+  },
+  {
+    version: 6,
+    description: 'Time how long the student spends on each step',
+    migrate: (data) => {
+      const state = asRecord(data);
+      return state ? { stepSeconds: {}, ...state } : data;
+    },
+  },
+  {
+    version: 7,
+    description: 'The student field holds the profile name, so it is called studentName',
+    migrate: (data) => {
+      const state = asRecord(data);
+      if (!state || !('studentId' in state)) return data;
+      const { studentId, ...rest } = state;
+      return { studentName: studentId, ...rest };
+    },
+  },
+];
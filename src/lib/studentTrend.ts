@@ -0,0 +1,62 @@
+// Whether a student is getting better, for the dashboard's student page.
+// Their earliest lessons are compared with their latest rather than fitting a
+// line, so one off day in the middle of the term doesn't hide a clear change.
+// The color difference decides, under the metric the teacher chose: it
+// measures the prediction the lesson is about.
+
+import type { SessionResult } from '@/lib/api';
+import { COLOR_METRICS, colorDifference, type ColorMetric } from '@shared/color';
+
+export type TrendDirection = 'improving' | 'steady' | 'declining';
+
+export interface StudentTrend {
+  direction: TrendDirection;
+  // Lessons in each of the two groups compared
+  window: number;
+  // Average color difference under the chosen metric
+  earlyDifference: number;
+  recentDifference: number;
+  earlyAccuracy: number;
+  recentAccuracy: number;
+}
+
+// Fewer lessons than this don't show a trend
+export const MIN_TREND_LESSONS = 3;
+
+// Changes in color difference within this share of the early average are steady
+const STEADY_SHARE = 0.1;
+// ... and so are changes of less than this share of the metric's scale,
+// however small the early average (about 2 for RGB distance)
+const STEADY_MIN_SHARE = 0.005;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export function studentTrend(results: SessionResult[], metric: ColorMetric): StudentTrend | null {
+  if (results.length < MIN_TREND_LESSONS) return null;
+
+  const byDate = [...results].sort((a, b) => a.date.getTime() - b.date.getTime());
+  // The first and last third, at least one lesson each
+  const window = Math.max(1, Math.floor(byDate.length / 3));
+  const early = byDate.slice(0, window);
+  const recent = byDate.slice(-window);
+
+  const differenceOf = (r: SessionResult) => colorDifference(r.studentRgb, r.aiRgb, metric);
+  const earlyDifference = average(early.map(differenceOf));
+  const recentDifference = average(recent.map(differenceOf));
+  const change = recentDifference - earlyDifference;
+  const steadyMin = COLOR_METRICS[metric].scale * STEADY_MIN_SHARE;
+  const direction: TrendDirection = Math.abs(change) < Math.max(steadyMin, earlyDifference * STEADY_SHARE)
+    ? 'steady'
+    : change < 0
+      ? 'improving'
+      : 'declining';
+
+  return {
+    direction,
+    window,
+    earlyDifference,
+    recentDifference,
+    earlyAccuracy: average(early.map((r) => r.cvAccuracy)),
+    recentAccuracy: average(recent.map((r) => r.cvAccuracy)),
+  };
+}
@@ -0,0 +1,249 @@
+// API transports
+// A transport turns an ApiRequest into a parsed response. The HTTP transport
+// talks to the real backend; the mock transport answers from in-memory
+// handlers so the app can run without a server.
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface ApiRequest {
+  method: HttpMethod;
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  // JSON-serialisable value, or FormData for multipart uploads
+  body?: unknown;
+  signal?: AbortSignal;
+  // Sent as the Idempotency-Key header; the backend stores a write with a key
+  // it has already seen only once
+  idempotencyKey?: string;
+}
+
+export interface ApiTransport {
+  readonly name: string;
+  send<T>(request: ApiRequest): Promise<T>;
+}
+
+export type ApiErrorKind = 'network' | 'timeout' | 'aborted' | 'http' | 'parse' | 'not_found' | 'rate_limited';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly route: string;
+  readonly details: unknown;
+
+  constructor(
+    message: string,
+    options: { kind: ApiErrorKind; route: string; status?: number | null; details?: unknown },
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = options.kind;
+    this.route = options.route;
+    this.status = options.status ?? null;
+    this.details = options.details;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export function describeRoute(request: Pick<ApiRequest, 'method' | 'path'>): string {
+  return `${request.method} ${request.path}`;
+}
+
+function buildUrl(baseUrl: string, request: ApiRequest): string {
+  const url = `${baseUrl.replace(/\/+$/, '')}${request.path}`;
+  if (!request.query) return url;
+
+  const params = new URLSearchParams();
+  Object.entries(request.query).forEach(([key, value]) => {
+    if (value !== undefined) params.append(key, String(value));
+  });
+  const qs = params.toString();
+  return qs ? `${url}?${qs}` : url;
+}
+
+async function readErrorMessage(res: Response): Promise<{ message: string; details: unknown }> {
+  const fallback = `Request failed with status ${res.status}`;
+  try {
+    const text = await res.text();
+    if (!text) return { message: fallback, details: null };
+    try {
+      const json = JSON.parse(text);
+      const message = json?.error?.message ?? json?.message ?? fallback;
+      return { message, details: json };
+    } catch {
+      return { message: text, details: text };
+    }
+  } catch {
+    return { message: fallback, details: null };
+  }
+}
+
+export interface HttpTransportOptions {
+  baseUrl: string;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export function createHttpTransport({
+  baseUrl,
+  timeoutMs = 15000,
+  fetchImpl = (input, init) => fetch(input, init),
+}: HttpTransportOptions): ApiTransport {
+  return {
+    name: 'http',
+    async send<T>(request: ApiRequest): Promise<T> {
+      const route = describeRoute(request);
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+      const onAbort = () => controller.abort();
+      request.signal?.addEventListener('abort', onAbort);
+
+      const isForm = typeof FormData !== 'undefined' && request.body instanceof FormData;
+      const headers: Record<string, string> = { Accept: 'application/json' };
+      if (request.body !== undefined && !isForm) {
+        headers['Content-Type'] = 'application/json';
+      }
+      if (request.idempotencyKey) {
+        headers['Idempotency-Key'] = request.idempotencyKey;
+      }
+
+      let res: Response;
+      try {
+        res = await fetchImpl(buildUrl(baseUrl, request), {
+          method: request.method,
+          headers,
+          body: request.body === undefined
+            ? undefined
+            : isForm ? (request.body as FormData) : JSON.stringify(request.body),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (timedOut) {
+          throw new ApiError(`Request timed out after ${timeoutMs}ms`, { kind: 'timeout', route });
+        }
+        if (request.signal?.aborted) {
+          throw new ApiError('Request was cancelled', { kind: 'aborted', route });
+        }
+        throw new ApiError('Could not reach the server. Check your connection.', {
+          kind: 'network',
+          route,
+          details: error,
+        });
+      } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onAbort);
+      }
+
+      if (!res.ok) {
+        const { message, details } = await readErrorMessage(res);
+        throw new ApiError(message, {
+          kind: res.status === 404 ? 'not_found' : res.status === 429 ? 'rate_limited' : 'http',
+          route,
+          status: res.status,
+          details,
+        });
+      }
+
+      if (res.status === 204) return undefined as T;
+
+      const text = await res.text();
+      if (!text) return undefined as T;
+      try {
+        return JSON.parse(text) as T;
+      } catch (error) {
+        throw new ApiError('Server sent an invalid response', {
+          kind: 'parse',
+          route,
+          status: res.status,
+          details: text,
+        });
+      }
+    },
+  };
+}
+
+export interface MockRoute<TBody = unknown, TResponse = unknown> {
+  // Simulated network latency in ms
+  delay?: number;
+  handle: (body: TBody, request: ApiRequest) => TResponse | Promise<TResponse>;
+}
+
+export type MockRouteTable = Record<string, MockRoute<never, unknown>>;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Request bodies for the debug log, with long strings such as image data URLs
+// cut short
+const DEBUG_STRING_LENGTH = 120;
+
+function describeBody(body: unknown): string {
+  if (body === undefined) return '';
+  if (body instanceof FormData) return '(form data)';
+  return JSON.stringify(body, (_, value) =>
+    typeof value === 'string' && value.length > DEBUG_STRING_LENGTH
+      ? `${value.slice(0, DEBUG_STRING_LENGTH)}…`
+      : value,
+  );
+}
+
+// `debug` logs each request to the console
+export function createMockTransport(
+  routes: MockRouteTable,
+  { latencyScale = 1, debug = false } = {},
+): ApiTransport {
+  // Writes sent with an Idempotency-Key are handled once per route and key,
+  // as the reference server does; repeats get the first reply
+  const replies = new Map<string, Promise<unknown>>();
+
+  return {
+    name: 'mock',
+    async send<T>(request: ApiRequest): Promise<T> {
+      const route = describeRoute(request);
+      const handler = routes[route] as MockRoute<unknown, unknown> | undefined;
+      if (!handler) {
+        throw new ApiError(`No mock handler for ${route}`, { kind: 'not_found', route, status: 404 });
+      }
+
+      try {
+        await wait((handler.delay ?? 0) * latencyScale, request.signal);
+      } catch {
+        throw new ApiError('Request was cancelled', { kind: 'aborted', route });
+      }
+
+      if (debug) console.debug(`API (mock): ${route}`, describeBody(request.body));
+      const replyKey = request.idempotencyKey && request.method !== 'GET' ? `${route} ${request.idempotencyKey}` : null;
+      try {
+        if (!replyKey) return (await handler.handle(request.body, request)) as T;
+        if (!replies.has(replyKey)) replies.set(replyKey, Promise.resolve(handler.handle(request.body, request)));
+        return (await replies.get(replyKey)) as T;
+      } catch (error) {
+        // Only a handled write is remembered; a failed one may be tried again
+        if (replyKey) replies.delete(replyKey);
+        if (isApiError(error)) throw error;
+        throw new ApiError(error instanceof Error ? error.message : 'Mock handler failed', {
+          kind: 'http',
+          route,
+          status: 500,
+          details: error,
+        });
+      }
+    },
+  };
+}
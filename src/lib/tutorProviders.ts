@@ -0,0 +1,315 @@
+// Tutor providers for the chat step. A provider streams its reply token by
+// token so ChatPage can show it as it arrives.
+//
+// VITE_TUTOR_PROVIDER picks the source:
+//   "api" (default)  the /chat/message route of the configured transport
+//   "openai"         any OpenAI-compatible chat-completions endpoint, such as
+//                    a local model server (VITE_TUTOR_LLM_URL, _MODEL, _API_KEY)
+//   "rules"          the rule-based engine in tutor.ts, entirely in the browser
+// Whatever is configured falls back to the rule-based engine when it can't be
+// reached, and all providers share one rate limit.
+
+import { sendChatMessage, type CVResult, type ChatContext, type ChatMessage, type RobotCoordinates } from '@/lib/api';
+import { ApiError, isApiError } from '@/lib/transport';
+import { composeTutorReply } from '@shared/tutor';
+
+export type TutorProviderId = 'api' | 'openai' | 'rules';
+
+const TUTOR_PROVIDER = (import.meta.env.VITE_TUTOR_PROVIDER || 'api') as TutorProviderId;
+const LLM_URL = import.meta.env.VITE_TUTOR_LLM_URL || 'http://localhost:11434/v1';
+const LLM_MODEL = import.meta.env.VITE_TUTOR_LLM_MODEL || 'llama3.2';
+const LLM_API_KEY = import.meta.env.VITE_TUTOR_LLM_API_KEY;
+
+// Messages a student can send per minute
+const RATE_LIMIT = { maxRequests: 8, windowMs: 60_000 };
+
+// Earlier messages sent along to a language model
+const MAX_HISTORY_MESSAGES = 12;
+
+// Session details beyond the chat context that help a model give specific answers
+export interface TutorSessionDetails {
+  studentCoordinates: RobotCoordinates | null;
+  cvResult: CVResult | null;
+}
+
+export interface TutorRequest {
+  message: string;
+  context: ChatContext;
+  // The conversation so far, oldest first, without `message`
+  history: ChatMessage[];
+  session?: TutorSessionDetails;
+}
+
+export type TokenHandler = (token: string) => void;
+
+export interface TutorProvider {
+  readonly name: string;
+  // Streams the reply through onToken and resolves with the whole text.
+  // Rejects with an ApiError of kind 'aborted' once the signal fires.
+  reply(request: TutorRequest, onToken: TokenHandler, signal?: AbortSignal): Promise<string>;
+}
+
+const TUTOR_ROUTE = 'tutor';
+
+const abortedError = (route: string) => new ApiError('The reply was stopped', { kind: 'aborted', route });
+
+function throwIfAborted(signal: AbortSignal | undefined, route: string) {
+  if (signal?.aborted) throw abortedError(route);
+}
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+export function buildTutorSystemPrompt({ coords, studentRgb, aiRgb }: ChatContext, session?: TutorSessionDetails): string {
+  const lines = [
+    'You are a friendly tutor for school students in a lesson about 3D coordinates and colors.',
+    'The student placed a robot inside a cube. Its X, Y and Z coordinates (each 0-255) are its red, green and blue values:',
+    'X is red, Y is green and Z is blue, so the robot at (X, Y, Z) has the color RGB(X, Y, Z).',
+    "Answer in at most four short sentences, in simple words, using the student's own numbers below.",
+    'If a question is not about the lesson, gently steer back to coordinates and colors.',
+    '',
+    'This session:',
+    `- Robot position: X=${coords.x}, Y=${coords.y}, Z=${coords.z}`,
+    `- Correct color: RGB(${aiRgb.r}, ${aiRgb.g}, ${aiRgb.b})`,
+    `- Student's color prediction: RGB(${studentRgb.r}, ${studentRgb.g}, ${studentRgb.b})`,
+    `- Prediction minus correct: red ${signed(studentRgb.r - aiRgb.r)}, green ${signed(studentRgb.g - aiRgb.g)}, `
+      + `blue ${signed(studentRgb.b - aiRgb.b)}`,
+  ];
+  if (session?.studentCoordinates) {
+    const { x, y, z } = session.studentCoordinates;
+    lines.push(`- Coordinates the student typed in: X=${x}, Y=${y}, Z=${z}`);
+  }
+  if (session?.cvResult) {
+    lines.push(`- Accuracy of the student's drawing of the scene: ${session.cvResult.accuracy.toFixed(0)}%`);
+  }
+  return lines.join('\n');
+}
+
+// Answers from the /chat/message route; the reply arrives in one piece
+export const apiTutorProvider: TutorProvider = {
+  name: 'api',
+  async reply({ message, context }, onToken, signal) {
+    const reply = await sendChatMessage(message, context, { signal });
+    throwIfAborted(signal, TUTOR_ROUTE);
+    onToken(reply);
+    return reply;
+  },
+};
+
+export const ruleBasedTutorProvider: TutorProvider = {
+  name: 'rules',
+  async reply({ message, context }, onToken, signal) {
+    throwIfAborted(signal, TUTOR_ROUTE);
+    const reply = composeTutorReply(message, context);
+    onToken(reply);
+    return reply;
+  },
+};
+
+// Calls onData with the data of each server-sent event until the stream ends
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const handleLine = (line: string) => {
+    if (line === '') {
+      // A blank line ends the event
+      if (dataLines.length > 0) onData(dataLines.join('\n'));
+      dataLines = [];
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    // Comments (":") and other fields (event, id, retry) aren't needed
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+  } catch (error) {
+    // Stop the download when a handler gives up on the stream
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
+  handleLine('');
+}
+
+export interface OpenAiTutorOptions {
+  // e.g. http://localhost:11434/v1 (the /chat/completions path is added)
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  fetchImpl?: typeof fetch;
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  error?: { message?: string };
+}
+
+export function createOpenAiTutorProvider({
+  baseUrl,
+  model,
+  apiKey,
+  fetchImpl = (input, init) => fetch(input, init),
+}: OpenAiTutorOptions): TutorProvider {
+  const route = 'POST /chat/completions';
+
+  return {
+    name: 'openai',
+    async reply({ message, context, history, session }, onToken, signal) {
+      const messages = [
+        { role: 'system', content: buildTutorSystemPrompt(context, session) },
+        ...history.slice(-MAX_HISTORY_MESSAGES).map(({ role, content }) => ({ role, content })),
+        { role: 'user', content: message },
+      ];
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+      let res: Response;
+      try {
+        res = await fetchImpl(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ model, messages, stream: true, temperature: 0.4 }),
+          signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) throw abortedError(route);
+        throw new ApiError('Could not reach the tutor model.', { kind: 'network', route, details: error });
+      }
+
+      if (!res.ok || !res.body) {
+        const details = await res.text().catch(() => null);
+        throw new ApiError(`The tutor model failed with status ${res.status}`, {
+          kind: res.status === 429 ? 'rate_limited' : 'http',
+          route,
+          status: res.status,
+          details,
+        });
+      }
+
+      let reply = '';
+      try {
+        await readServerSentEvents(res.body, (data) => {
+          if (data === '[DONE]') return;
+          let chunk: CompletionChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            throw new ApiError('The tutor model sent an invalid response', { kind: 'parse', route, details: data });
+          }
+          if (chunk.error) {
+            throw new ApiError(chunk.error.message ?? 'The tutor model failed', { kind: 'http', route, details: chunk });
+          }
+          const token = chunk.choices?.[0]?.delta?.content;
+          if (token) {
+            reply += token;
+            onToken(token);
+          }
+        });
+      } catch (error) {
+        if (signal?.aborted) throw abortedError(route);
+        if (isApiError(error)) throw error;
+        throw new ApiError('The connection to the tutor model broke off.', { kind: 'network', route, details: error });
+      }
+
+      if (!reply.trim()) {
+        throw new ApiError('The tutor model sent an empty reply', { kind: 'parse', route });
+      }
+      return reply;
+    },
+  };
+}
+
+// Uses `fallback` when `primary` fails before sending anything. A reply that
+// breaks off midway is not replaced; the error is passed on.
+export function withFallback(primary: TutorProvider, fallback: TutorProvider): TutorProvider {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    async reply(request, onToken, signal) {
+      let started = false;
+      try {
+        return await primary.reply(request, (token) => {
+          started = true;
+          onToken(token);
+        }, signal);
+      } catch (error) {
+        if (started || signal?.aborted) throw error;
+        console.warn(`Tutor: ${primary.name} failed, answering with ${fallback.name}:`, error);
+        return fallback.reply(request, onToken, signal);
+      }
+    },
+  };
+}
+
+export interface RateLimiter {
+  // Milliseconds until another request is allowed; 0 means this one may go
+  // ahead and has been counted
+  tryAcquire(now?: number): number;
+}
+
+// Sliding window: at most maxRequests in any windowMs
+export function createRateLimiter({ maxRequests, windowMs }: { maxRequests: number; windowMs: number }): RateLimiter {
+  let recent: number[] = [];
+  return {
+    tryAcquire(now = Date.now()) {
+      recent = recent.filter((time) => now - time < windowMs);
+      if (recent.length >= maxRequests) {
+        return recent[0] + windowMs - now;
+      }
+      recent.push(now);
+      return 0;
+    },
+  };
+}
+
+export function withRateLimit(provider: TutorProvider, limiter: RateLimiter): TutorProvider {
+  return {
+    name: provider.name,
+    reply(request, onToken, signal) {
+      const waitMs = limiter.tryAcquire();
+      if (waitMs > 0) {
+        const seconds = Math.ceil(waitMs / 1000);
+        return Promise.reject(new ApiError(
+          `You're sending messages quickly. Try again in ${seconds} second${seconds === 1 ? '' : 's'}.`,
+          { kind: 'rate_limited', route: TUTOR_ROUTE, details: { retryAfterMs: waitMs } },
+        ));
+      }
+      return provider.reply(request, onToken, signal);
+    },
+  };
+}
+
+function createDefaultTutorProvider(): TutorProvider {
+  const primary = TUTOR_PROVIDER === 'openai'
+    ? createOpenAiTutorProvider({ baseUrl: LLM_URL, model: LLM_MODEL, apiKey: LLM_API_KEY })
+    : TUTOR_PROVIDER === 'rules' ? null : apiTutorProvider;
+  const provider = primary ? withFallback(primary, ruleBasedTutorProvider) : ruleBasedTutorProvider;
+  return withRateLimit(provider, createRateLimiter(RATE_LIMIT));
+}
+
+let tutorProvider: TutorProvider = createDefaultTutorProvider();
+
+export function getTutorProvider(): TutorProvider {
+  return tutorProvider;
+}
+
+// Swap the provider at runtime (e.g. a scripted one in a demo)
+export function setTutorProvider(next: TutorProvider) {
+  tutorProvider = next;
+}
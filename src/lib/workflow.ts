@@ -1,100 +1,185 @@
+// Every kind of step a lesson can contain. A lesson plan picks and orders
+// these; the same kind may appear more than once (e.g. two prediction rounds).
+export const STEP_KINDS = ['placement', 'upload', 'verify', 'coords', 'predict', 'compare', 'chat'] as const;
+
+export type StepKind = typeof STEP_KINDS[number];
+
+// Color spaces the placement lab can show a color in (see lib/colorSpaces)
+export const COLOR_SPACE_IDS = ['rgb', 'hsv', 'hsl', 'lab'] as const;
+
+export type ColorSpaceId = typeof COLOR_SPACE_IDS[number];
+
+// Per-step settings a teacher can change in a lesson plan
+export interface StepParams {
+  // Coordinates and prediction steps: show the hint card
+  showHints?: boolean;
+  // Tutor chat: questions offered before the student types anything
+  suggestedQuestions?: string[];
+  // Placement: color spaces the lab can switch between (RGB only when unset)
+  colorSpaces?: ColorSpaceId[];
+  // Verification: CV accuracy (0-100) the drawing must reach before the
+  // student can continue; any score is accepted when unset
+  minAccuracy?: number;
+}
+
+export interface StepConfig {
+  kind: StepKind;
+  title?: string;
+  description?: string;
+  params?: StepParams;
+}
+
 export interface WorkflowStep {
   id: string;
+  kind: StepKind;
+  title: string;
+  description: string;
+  path: string;
+  icon: string;
+  params: StepParams;
+}
+
+interface StepDefinition {
   title: string;
   description: string;
   path: string;
   icon: string;
+  // Kinds that must come earlier in the lesson for this step to have its data
+  requires: StepKind[];
 }
 
-export const WORKFLOW_STEPS: WorkflowStep[] = [
-  {
-    id: 'placement',
+export const STEP_DEFINITIONS: Record<StepKind, StepDefinition> = {
+  placement: {
     title: 'Place Robot',
     description: 'Position the robot in 3D space',
     path: '/3d',
     icon: 'Box',
+    requires: [],
   },
-  {
-    id: 'upload',
+  upload: {
     title: 'Draw & Upload',
     description: 'Draw the scene and upload your drawing',
     path: '/upload',
     icon: 'Upload',
+    requires: ['placement'],
   },
-  {
-    id: 'verify',
+  verify: {
     title: 'CV Verification',
     description: 'Review computer vision analysis',
     path: '/verify',
     icon: 'Eye',
+    requires: ['upload'],
   },
-  {
-    id: 'coords',
+  coords: {
     title: 'Input Coordinates',
     description: 'Enter your coordinate predictions',
     path: '/coords',
     icon: 'Target',
+    requires: ['placement'],
   },
-  {
-    id: 'predict',
+  predict: {
     title: 'Predict RGB',
     description: 'Predict the RGB color values',
     path: '/predict',
     icon: 'Palette',
+    requires: ['placement'],
   },
-  {
-    id: 'compare',
+  compare: {
     title: 'Compare Results',
     description: 'Compare your prediction with AI',
     path: '/compare',
     icon: 'GitCompare',
+    requires: ['predict'],
   },
-  {
-    id: 'chat',
+  chat: {
     title: 'Tutor Chat',
     description: 'Discuss with the AI tutor',
     path: '/chat',
     icon: 'MessageCircle',
+    requires: ['predict'],
   },
-];
+};
+
+// Turn configured steps into routable steps. The first step of a kind keeps
+// the kind as its id and the usual path (so saved sessions and links keep
+// working); repeats become "predict-2" at "/predict/2" and so on.
+export function resolveSteps(configs: StepConfig[]): WorkflowStep[] {
+  const seen: Partial<Record<StepKind, number>> = {};
+  return configs.map(({ kind, title, description, params }) => {
+    const definition = STEP_DEFINITIONS[kind];
+    const round = (seen[kind] ?? 0) + 1;
+    seen[kind] = round;
+    return {
+      id: round === 1 ? kind : `${kind}-${round}`,
+      kind,
+      title: title?.trim() || (round === 1 ? definition.title : `${definition.title} (round ${round})`),
+      description: description?.trim() || definition.description,
+      path: round === 1 ? definition.path : `${definition.path}/${round}`,
+      icon: definition.icon,
+      params: {
+        ...params,
+        suggestedQuestions: params?.suggestedQuestions?.map((q) => q.trim()).filter(Boolean),
+      },
+    };
+  });
+}
+
+// The full lesson, used when no lesson plan has been chosen
+export const WORKFLOW_STEPS: WorkflowStep[] = resolveSteps(STEP_KINDS.map((kind) => ({ kind })));
 
-export function getStepIndex(stepId: string): number {
-  return WORKFLOW_STEPS.findIndex((s) => s.id === stepId);
+export function getStepIndex(stepId: string, steps: WorkflowStep[] = WORKFLOW_STEPS): number {
+  return steps.findIndex((s) => s.id === stepId);
 }
 
-export function getStepById(stepId: string): WorkflowStep | undefined {
-  return WORKFLOW_STEPS.find((s) => s.id === stepId);
+export function getStepById(stepId: string, steps: WorkflowStep[] = WORKFLOW_STEPS): WorkflowStep | undefined {
+  return steps.find((s) => s.id === stepId);
 }
 
-export function getNextStep(currentStepId: string): WorkflowStep | null {
-  const currentIndex = getStepIndex(currentStepId);
-  if (currentIndex === -1 || currentIndex >= WORKFLOW_STEPS.length - 1) {
+export function getNextStep(currentStepId: string, steps: WorkflowStep[] = WORKFLOW_STEPS): WorkflowStep | null {
+  const currentIndex = getStepIndex(currentStepId, steps);
+  if (currentIndex === -1 || currentIndex >= steps.length - 1) {
     return null;
   }
-  return WORKFLOW_STEPS[currentIndex + 1];
+  return steps[currentIndex + 1];
 }
 
-export function getPrevStep(currentStepId: string): WorkflowStep | null {
-  const currentIndex = getStepIndex(currentStepId);
+export function getPrevStep(currentStepId: string, steps: WorkflowStep[] = WORKFLOW_STEPS): WorkflowStep | null {
+  const currentIndex = getStepIndex(currentStepId, steps);
   if (currentIndex <= 0) {
     return null;
   }
-  return WORKFLOW_STEPS[currentIndex - 1];
+  return steps[currentIndex - 1];
 }
 
-export function isStepAccessible(targetStepId: string, completedSteps: string[]): boolean {
-  const targetIndex = getStepIndex(targetStepId);
+export function isStepAccessible(
+  targetStepId: string,
+  completedSteps: string[],
+  steps: WorkflowStep[] = WORKFLOW_STEPS,
+): boolean {
+  const targetIndex = getStepIndex(targetStepId, steps);
   if (targetIndex === 0) return true;
-  
+
   // Check if all previous steps are completed
   for (let i = 0; i < targetIndex; i++) {
-    if (!completedSteps.includes(WORKFLOW_STEPS[i].id)) {
+    if (!completedSteps.includes(steps[i].id)) {
       return false;
     }
   }
   return true;
 }
 
-export function getProgress(completedSteps: string[]): number {
-  return (completedSteps.length / WORKFLOW_STEPS.length) * 100;
+// The earliest step before targetStepId that still needs doing, or null when
+// every earlier step is complete
+export function getMissingPrerequisite(
+  targetStepId: string,
+  completedSteps: string[],
+  steps: WorkflowStep[] = WORKFLOW_STEPS,
+): WorkflowStep | null {
+  const targetIndex = getStepIndex(targetStepId, steps);
+  return steps.slice(0, Math.max(targetIndex, 0)).find((s) => !completedSteps.includes(s.id)) ?? null;
+}
+
+export function getProgress(completedSteps: string[], steps: WorkflowStep[] = WORKFLOW_STEPS): number {
+  const done = steps.filter((s) => completedSteps.includes(s.id)).length;
+  return (done / steps.length) * 100;
 }
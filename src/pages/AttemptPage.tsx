@@ -0,0 +1,110 @@
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Layout } from '@/components/Layout';
+import { ChatTutor } from '@/components/ChatTutor';
+import { ComparisonPanel } from '@/components/ComparisonPanel';
+import { CvResultsPanel } from '@/components/CvResultsPanel';
+import { DrawingAttemptHistory } from '@/components/DrawingAttemptHistory';
+import { CoordinateRow } from '@/components/CoordinateRow';
+import { useProfiles } from '@/context/ProfileContext';
+import { findAttempt } from '@/lib/history';
+
+const AttemptPage = () => {
+  const { attemptId } = useParams<{ attemptId: string }>();
+  const { activeProfile } = useProfiles();
+  const profileId = activeProfile?.id ?? null;
+
+  const attempt = useMemo(
+    () => (attemptId ? findAttempt(profileId, attemptId) : null),
+    [profileId, attemptId],
+  );
+
+  if (!attempt) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-16 text-center">
+          <p className="text-muted-foreground mb-6">We couldn't find that lesson in your history.</p>
+          <Button asChild variant="outline">
+            <Link to="/progress">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to My Progress
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { session, result, completedAt } = attempt;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
+              <History className="w-4 h-4" />
+              Past Lesson
+            </span>
+            <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
+              {completedAt.toLocaleString([], { dateStyle: 'long', timeStyle: 'short' })}
+            </h1>
+            <p className="text-muted-foreground max-w-xl mx-auto">
+              A read-only look back at this lesson. Start a new lesson to try again.
+            </p>
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-8 mb-8">
+            <div className="space-y-6">
+              <div>
+                <h2 className="font-display font-semibold text-lg text-foreground mb-4">
+                  Results
+                </h2>
+                <ComparisonPanel studentRgb={result.studentRgb} aiRgb={result.aiRgb} predictHintsUsed={result.predictHintsUsed} />
+              </div>
+
+              <div className="rounded-xl border border-border bg-card p-4 divide-y divide-border">
+                <CoordinateRow label="Robot position" coords={result.robotCoordinates} />
+                <CoordinateRow label="Your coordinates" coords={session.studentCoordinates} />
+              </div>
+
+              {session.cvResult && session.uploadedImage && (
+                <div>
+                  <h2 className="font-display font-semibold text-lg text-foreground mb-4">
+                    Drawing Analysis
+                  </h2>
+                  <CvResultsPanel result={session.cvResult} imageUrl={session.uploadedImage} />
+                  {session.drawingAttempts.length > 1 && (
+                    <DrawingAttemptHistory attempts={session.drawingAttempts} className="mt-4" />
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h2 className="font-display font-semibold text-lg text-foreground mb-4">
+                AI Tutor
+              </h2>
+              <ChatTutor messages={session.chatHistory} readOnly />
+            </div>
+          </div>
+
+          {/* Navigation */}
+          <div className="flex items-center justify-start">
+            <Button asChild variant="ghost">
+              <Link to="/progress">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to My Progress
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default AttemptPage;
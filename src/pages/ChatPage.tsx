@@ -1,89 +1,133 @@
-import { useEffect, useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft, MessageCircle, Home, RotateCcw } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, MessageCircle, Home, CheckCircle2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Layout } from '@/components/Layout';
 import { ChatTutor } from '@/components/ChatTutor';
 import { ComparisonPanel } from '@/components/ComparisonPanel';
 import { useSession } from '@/context/SessionContext';
-import { sendChatMessage, saveSessionResults, calculateRgbDelta, type ChatMessage } from '@/lib/api';
+import { useModeration } from '@/context/ModerationContext';
+import { useProfiles } from '@/context/ProfileContext';
+import { useWorkflowStep } from '@/context/WorkflowStepContext';
+import { getApiErrorMessage, type ChatMessage } from '@/lib/api';
+import { isApiError } from '@/lib/transport';
+import { getTutorProvider } from '@/lib/tutorProviders';
+import { createModerationFlag, describeRefusal, moderateInput, moderateOutput } from '@/lib/moderation';
 
 const ChatPage = () => {
-  const navigate = useNavigate();
-  const { state, addChatMessage, setCurrentStep, completeStep, resetSession } = useSession();
+  const { state, addChatMessage } = useSession();
+  const { step, stepNumber, nextStep, continueLabel, goNext, goBack } = useWorkflowStep();
+  const { policy, logFlag } = useModeration();
+  const { activeProfile } = useProfiles();
   const [isLoading, setIsLoading] = useState(false);
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
 
-  useEffect(() => {
-    setCurrentStep('chat');
-  }, [setCurrentStep]);
+  // Leaving the page stops a reply that is still streaming
+  useEffect(() => () => replyAbortRef.current?.abort(), []);
 
-  useEffect(() => {
-    if (!state.aiRgb) {
-      navigate('/compare');
-    }
-  }, [state.aiRgb, navigate]);
+  // Flags are kept under the profile, like results, so a rename doesn't split them
+  const studentId = activeProfile?.id ?? state.studentName;
 
   const handleSendMessage = async (content: string) => {
-    // Add user message
+    const check = moderateInput(content, policy);
+
+    // Only the cleaned text is kept, so personal details never reach the history
     const userMessage: ChatMessage = {
       role: 'user',
-      content,
+      content: check.text,
       timestamp: new Date(),
     };
     addChatMessage(userMessage);
 
+    const addReply = (text: string) => addChatMessage({ role: 'assistant', content: text, timestamp: new Date() });
+
+    if (!check.allowed) {
+      // An over-long message is a slip, not something the teacher needs to see
+      if (check.reasons.some((reason) => reason !== 'too-long')) {
+        logFlag(createModerationFlag(studentId, state.studentName, 'student', check));
+      }
+      addReply(describeRefusal(check.reasons, policy));
+      return;
+    }
+
+    // Replies are cleaned as they stream in and flagged once complete
+    const cleanReply = (text: string) => {
+      const result = moderateOutput(text, policy);
+      if (result.reasons.length > 0) logFlag(createModerationFlag(studentId, state.studentName, 'tutor', result));
+      return result.text;
+    };
+
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
     setIsLoading(true);
+    setStreamingReply('');
+    let received = '';
+
     try {
-      const response = await sendChatMessage(content, {
-        coords: state.robotCoordinates,
-        studentRgb: state.studentRgb,
-        aiRgb: state.aiRgb!,
-      });
-
-      const assistantMessage: ChatMessage = {
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
-      };
-      addChatMessage(assistantMessage);
+      const response = await getTutorProvider().reply(
+        {
+          message: check.text,
+          context: {
+            coords: state.robotCoordinates,
+            studentRgb: state.studentRgb,
+            aiRgb: state.aiRgb!,
+          },
+          history: state.chatHistory,
+          session: {
+            studentCoordinates: state.studentCoordinates,
+            cvResult: state.cvResult,
+          },
+        },
+        (token) => {
+          received += token;
+          setStreamingReply(moderateOutput(received, policy).text);
+        },
+        controller.signal,
+      );
+      addReply(cleanReply(response));
     } catch (error) {
-      console.error('Failed to send message:', error);
-      const errorMessage: ChatMessage = {
-        role: 'assistant',
-        content: "I'm sorry, I couldn't process your message. Please try again.",
-        timestamp: new Date(),
-      };
-      addChatMessage(errorMessage);
+      if (isApiError(error) && error.kind === 'aborted') {
+        // Keep whatever arrived before the student stopped it
+        if (received.trim()) addReply(`${cleanReply(received)} …`);
+      } else if (received.trim()) {
+        console.error('Tutor reply broke off:', error);
+        addReply(`${cleanReply(received)}\n\n(The reply was cut off. Please ask again.)`);
+      } else if (isApiError(error) && error.kind === 'rate_limited') {
+        addReply(getApiErrorMessage(error));
+      } else {
+        console.error('Failed to send message:', error);
+        addReply("I'm sorry, I couldn't process your message. Please try again.");
+      }
     } finally {
+      if (replyAbortRef.current === controller) replyAbortRef.current = null;
       setIsLoading(false);
+      setStreamingReply(null);
     }
   };
 
-  const handleFinishSession = async () => {
+  const handleFinish = async () => {
+    setIsFinishing(true);
     try {
-      await saveSessionResults({
-        studentId: state.studentId,
-        date: new Date(),
-        robotCoordinates: state.robotCoordinates,
-        cvAccuracy: state.cvResult?.accuracy || 0,
-        studentRgb: state.studentRgb,
-        aiRgb: state.aiRgb!,
-        rgbDelta: calculateRgbDelta(state.studentRgb, state.aiRgb!),
-      });
-      completeStep('chat');
-    } catch (error) {
-      console.error('Failed to save session:', error);
+      await goNext();
+    } finally {
+      setIsFinishing(false);
     }
   };
 
-  const handleStartNewSession = async () => {
-    await handleFinishSession();
-    resetSession();
-    navigate('/');
-  };
-
   if (!state.aiRgb) {
-    return null;
+    // The step guard normally prevents this; teacher preview skips it
+    return (
+      <Layout showProgress>
+        <div className="container mx-auto px-4 py-16 text-center">
+          <p className="text-muted-foreground mb-6">There's no prediction to discuss yet.</p>
+          <Button variant="outline" onClick={goBack}>
+            Go Back
+          </Button>
+        </div>
+      </Layout>
+    );
   }
 
   return (
@@ -94,7 +138,7 @@ const ChatPage = () => {
           <div className="text-center mb-8">
             <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
               <MessageCircle className="w-4 h-4" />
-              Step 7: Discuss with AI Tutor
+              Step {stepNumber}: {step.title}
             </span>
             <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
               Learn From Your Results
@@ -114,6 +158,7 @@ const ChatPage = () => {
               <ComparisonPanel
                 studentRgb={state.studentRgb}
                 aiRgb={state.aiRgb}
+                predictHintsUsed={state.hintLevels.predict}
               />
             </div>
 
@@ -126,40 +171,54 @@ const ChatPage = () => {
                 messages={state.chatHistory}
                 onSendMessage={handleSendMessage}
                 isLoading={isLoading}
+                streamingReply={streamingReply}
+                onStop={() => replyAbortRef.current?.abort()}
+                suggestedQuestions={step.params.suggestedQuestions}
+                maxMessageLength={policy.maxMessageLength}
               />
             </div>
           </div>
 
           {/* Session Complete Actions */}
-          <div className="rounded-xl border border-border bg-accent/10 p-6 mb-8">
-            <div className="text-center">
-              <h3 className="font-display font-semibold text-lg text-foreground mb-2">
-                🎉 Great job completing the lesson!
-              </h3>
-              <p className="text-muted-foreground mb-6">
-                You've learned how 3D coordinates map to RGB colors. Ready for another round?
-              </p>
-              <div className="flex flex-col sm:flex-row gap-4 justify-center">
-                <Button variant="hero" onClick={handleStartNewSession}>
-                  <RotateCcw className="w-4 h-4 mr-2" />
-                  Start New Session
-                </Button>
-                <Button asChild variant="outline">
-                  <Link to="/">
-                    <Home className="w-4 h-4 mr-2" />
-                    Back to Home
-                  </Link>
-                </Button>
+          {!nextStep && (
+            <div className="rounded-xl border border-border bg-accent/10 p-6 mb-8">
+              <div className="text-center">
+                <h3 className="font-display font-semibold text-lg text-foreground mb-2">
+                  🎉 Great job completing the lesson!
+                </h3>
+                <p className="text-muted-foreground mb-6">
+                  You've learned how 3D coordinates map to RGB colors. Finish to save your results
+                  and see your lesson summary.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                  <Button variant="hero" onClick={handleFinish} disabled={isFinishing}>
+                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                    Finish Lesson
+                  </Button>
+                  <Button asChild variant="outline">
+                    <Link to="/">
+                      <Home className="w-4 h-4 mr-2" />
+                      Back to Home
+                    </Link>
+                  </Button>
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Navigation */}
-          <div className="flex items-center justify-start">
-            <Button variant="ghost" onClick={() => navigate('/compare')}>
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" onClick={goBack}>
               <ArrowLeft className="w-4 h-4 mr-2" />
-              Back to Comparison
+              Back
             </Button>
+
+            {nextStep && (
+              <Button variant="hero" size="lg" onClick={goNext}>
+                {continueLabel}
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
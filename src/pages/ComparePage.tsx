@@ -1,32 +1,28 @@
-import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, ArrowRight, GitCompare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Layout } from '@/components/Layout';
 import { ComparisonPanel } from '@/components/ComparisonPanel';
+import { HintLadder } from '@/components/HintLadder';
 import { useSession } from '@/context/SessionContext';
+import { useWorkflowStep } from '@/context/WorkflowStepContext';
+import { getCompareHints } from '@/lib/hints';
 
 const ComparePage = () => {
-  const navigate = useNavigate();
-  const { state, setCurrentStep, completeStep } = useSession();
-
-  useEffect(() => {
-    setCurrentStep('compare');
-  }, [setCurrentStep]);
-
-  useEffect(() => {
-    if (!state.aiRgb) {
-      navigate('/predict');
-    }
-  }, [state.aiRgb, navigate]);
-
-  const handleContinue = () => {
-    completeStep('compare');
-    navigate('/chat');
-  };
+  const { state, revealHint } = useSession();
+  const { step, stepNumber, continueLabel, goNext, goBack } = useWorkflowStep();
 
   if (!state.aiRgb) {
-    return null;
+    // The step guard normally prevents this; teacher preview skips it
+    return (
+      <Layout showProgress>
+        <div className="container mx-auto px-4 py-16 text-center">
+          <p className="text-muted-foreground mb-6">There's no prediction to compare yet.</p>
+          <Button variant="outline" onClick={goBack}>
+            Go Back
+          </Button>
+        </div>
+      </Layout>
+    );
   }
 
   return (
@@ -37,7 +33,7 @@ const ComparePage = () => {
           <div className="text-center mb-8">
             <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
               <GitCompare className="w-4 h-4" />
-              Step 6: Compare Results
+              Step {stepNumber}: {step.title}
             </span>
             <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
               Your Prediction vs AI Result
@@ -52,12 +48,23 @@ const ComparePage = () => {
           <ComparisonPanel
             studentRgb={state.studentRgb}
             aiRgb={state.aiRgb}
+            predictHintsUsed={state.hintLevels.predict}
             className="mb-8"
           />
 
+          {/* Hints that explain the result */}
+          {step.params.showHints !== false && (
+            <HintLadder
+              hints={getCompareHints(state.robotCoordinates, state.studentRgb, state.aiRgb)}
+              revealed={state.hintLevels.compare}
+              onReveal={() => revealHint('compare')}
+              className="mb-8"
+            />
+          )}
+
           {/* Navigation */}
           <div className="flex items-center justify-between">
-            <Button variant="ghost" onClick={() => navigate('/predict')}>
+            <Button variant="ghost" onClick={goBack}>
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back
             </Button>
@@ -65,9 +72,9 @@ const ComparePage = () => {
             <Button 
               variant="hero" 
               size="lg"
-              onClick={handleContinue}
+              onClick={goNext}
             >
-              Chat with AI Tutor
+              {continueLabel}
               <ArrowRight className="w-4 h-4 ml-2" />
             </Button>
           </div>
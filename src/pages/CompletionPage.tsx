@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Clock,
+  CloudAlert,
+  CloudUpload,
+  Eye,
+  Home,
+  Lightbulb,
+  MessageCircle,
+  RefreshCw,
+  RotateCcw,
+  ScanSearch,
+  Trophy,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Layout } from '@/components/Layout';
+import { ComparisonPanel } from '@/components/ComparisonPanel';
+import { CoordinateRow } from '@/components/CoordinateRow';
+import { toast } from '@/components/ui/sonner';
+import { useProfiles } from '@/context/ProfileContext';
+import { useSession } from '@/context/SessionContext';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import { useOutboxStatus } from '@/hooks/use-outbox';
+import { getApiErrorMessage } from '@/lib/api';
+import { findAttempt, reportAttempt, sessionResultKey, type SessionAttempt } from '@/lib/history';
+import { getOutboxEntries, retryOutbox } from '@/lib/outbox';
+import { cn } from '@/lib/utils';
+
+type SaveStatus = 'saved' | 'waiting' | 'refused' | 'unsaved';
+
+const SAVE_STATUS: Record<SaveStatus, { title: string; text: string; icon: typeof CheckCircle2; tone: string }> = {
+  saved: {
+    title: 'Results saved',
+    text: 'Your teacher can see this lesson on their dashboard.',
+    icon: CheckCircle2,
+    tone: 'border-success/30 bg-success/10 text-success',
+  },
+  waiting: {
+    title: 'Saved on this device',
+    text: 'The server can\'t be reached right now. Your results will be sent as soon as it can.',
+    icon: CloudUpload,
+    tone: 'border-warning/30 bg-warning/10 text-warning',
+  },
+  refused: {
+    title: 'The server didn\'t accept your results',
+    text: 'They are kept on this device. Try again, or ask your teacher for help.',
+    icon: CloudAlert,
+    tone: 'border-destructive/30 bg-destructive/10 text-destructive',
+  },
+  unsaved: {
+    title: 'Results not saved yet',
+    text: 'Something went wrong sending them. They are kept on this device; try again.',
+    icon: CloudAlert,
+    tone: 'border-destructive/30 bg-destructive/10 text-destructive',
+  },
+};
+
+function saveStatusOf(attempt: SessionAttempt): SaveStatus {
+  if (!attempt.reportedAt) return 'unsaved';
+  const queued = getOutboxEntries().find((e) => e.id === sessionResultKey(attempt.id));
+  if (!queued) return 'saved';
+  return queued.failed ? 'refused' : 'waiting';
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest === 0 ? `${minutes} min` : `${minutes} min ${rest} s`;
+}
+
+function Stat({ icon: Icon, label, value }: { icon: typeof Trophy; label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-border bg-card p-4">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+        <Icon className="w-4 h-4" />
+        {label}
+      </div>
+      <p className="font-display text-2xl font-bold text-foreground">{value}</p>
+    </div>
+  );
+}
+
+// Summary shown when a student finishes a lesson: the record that was saved
+// for the teacher, and whether it has reached the server yet
+const CompletionPage = () => {
+  const { attemptId } = useParams<{ attemptId: string }>();
+  const navigate = useNavigate();
+  const { activeProfile } = useProfiles();
+  const { resetSession } = useSession();
+  const { steps } = useLessonPlan();
+  const [isRetrying, setIsRetrying] = useState(false);
+  // Re-renders as queued results are sent
+  useOutboxStatus();
+  const profileId = activeProfile?.id ?? null;
+
+  // Read on every render: the report status changes underneath the page
+  const attempt = attemptId ? findAttempt(profileId, attemptId) : null;
+
+  if (!attempt) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-16 text-center">
+          <p className="text-muted-foreground mb-6">We couldn't find that lesson in your history.</p>
+          <Button asChild variant="outline">
+            <Link to="/progress">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to My Progress
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { result, session } = attempt;
+  const saveStatus = saveStatusOf(attempt);
+  const status = SAVE_STATUS[saveStatus];
+  const StatusIcon = status.icon;
+
+  // Steps of the current plan in order, then any the plan no longer has
+  const stepTitles = new Map(steps.map((s) => [s.id, s.title]));
+  const timedSteps = [
+    ...steps.map((s) => s.id).filter((id) => id in result.stepSeconds),
+    ...Object.keys(result.stepSeconds).filter((id) => !stepTitles.has(id)),
+  ];
+  const totalSeconds = Object.values(result.stepSeconds).reduce((sum, s) => sum + s, 0);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      if (saveStatus === 'unsaved') {
+        await reportAttempt(profileId, attempt);
+      } else {
+        await retryOutbox();
+      }
+    } catch (error) {
+      toast.error('Could not save your results', { description: getApiErrorMessage(error) });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const handleStartNew = () => {
+    resetSession();
+    navigate(steps[0].path);
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-success/10 text-success text-sm font-medium mb-4">
+              <Trophy className="w-4 h-4" />
+              Lesson Complete
+            </span>
+            <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
+              Well done, {result.studentName}!
+            </h1>
+            <p className="text-muted-foreground max-w-xl mx-auto">
+              Here is what was recorded for this lesson on{' '}
+              {result.date.toLocaleString([], { dateStyle: 'long', timeStyle: 'short' })}.
+            </p>
+          </div>
+
+          {/* Save Status */}
+          <div className={cn("rounded-xl border p-4 mb-8 flex flex-wrap items-center gap-4", status.tone)}>
+            <StatusIcon className="w-6 h-6 shrink-0" />
+            <div className="flex-1 min-w-[200px]">
+              <p className="font-semibold">{status.title}</p>
+              <p className="text-sm text-foreground/80">{status.text}</p>
+            </div>
+            {saveStatus !== 'saved' && (
+              <Button variant="outline" size="sm" onClick={handleRetry} disabled={isRetrying}>
+                <RefreshCw className={cn("w-4 h-4 mr-2", isRetrying && "animate-spin")} />
+                Try Again
+              </Button>
+            )}
+          </div>
+
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+            <Stat
+              icon={ScanSearch}
+              label="Drawing accuracy"
+              value={session.cvResult ? `${result.cvAccuracy.toFixed(1)}%` : '—'}
+            />
+            <Stat icon={Lightbulb} label="Hints while predicting" value={String(result.predictHintsUsed)} />
+            <Stat icon={MessageCircle} label="Questions to the tutor" value={String(result.chatMessages)} />
+            <Stat icon={Clock} label="Time on the lesson" value={totalSeconds > 0 ? formatDuration(totalSeconds) : '—'} />
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-8 mb-8">
+            <ComparisonPanel studentRgb={result.studentRgb} aiRgb={result.aiRgb} predictHintsUsed={result.predictHintsUsed} />
+
+            <div className="space-y-6">
+              <div className="rounded-xl border border-border bg-card p-4 divide-y divide-border">
+                <CoordinateRow label="Robot position" coords={result.robotCoordinates} />
+                <CoordinateRow label="Your coordinates" coords={result.studentCoordinates} />
+                <div className="flex items-center justify-between py-2">
+                  <span className="text-sm text-muted-foreground">RGB distance</span>
+                  <span className="text-sm font-mono text-foreground">{result.rgbDelta.toFixed(1)}</span>
+                </div>
+              </div>
+
+              {timedSteps.length > 0 && (
+                <div className="rounded-xl border border-border bg-card p-4">
+                  <h2 className="font-semibold text-foreground mb-2">Time on Each Step</h2>
+                  <ul className="divide-y divide-border">
+                    {timedSteps.map((id) => (
+                      <li key={id} className="flex items-center justify-between py-2 text-sm">
+                        <span className="text-muted-foreground">{stepTitles.get(id) ?? id}</span>
+                        <span className="font-mono text-foreground">{formatDuration(result.stepSeconds[id])}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Navigation */}
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <Button variant="hero" onClick={handleStartNew}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Start New Lesson
+            </Button>
+            <Button asChild variant="outline">
+              <Link to={`/progress/${attempt.id}`}>
+                <Eye className="w-4 h-4 mr-2" />
+                Lesson Details
+              </Link>
+            </Button>
+            <Button asChild variant="ghost">
+              <Link to="/">
+                <Home className="w-4 h-4 mr-2" />
+                Back to Home
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default CompletionPage;
@@ -1,30 +1,30 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, ArrowRight, Target } from 'lucide-react';
+import { useState } from 'react';
+import { ArrowLeft, ArrowRight, Pencil, Target } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Layout } from '@/components/Layout';
 import { CoordinateForm } from '@/components/CoordinateForm';
+import { PositionComparison } from '@/components/PositionComparison';
 import { useSession } from '@/context/SessionContext';
-import { submitCoordinates } from '@/lib/api';
+import { useWorkflowStep } from '@/context/WorkflowStepContext';
+import { toast } from '@/components/ui/sonner';
+import { submitCoordinates, getApiErrorMessage } from '@/lib/api';
 
 const CoordsPage = () => {
-  const navigate = useNavigate();
-  const { state, setStudentCoordinates, setCurrentStep, completeStep } = useSession();
+  const { state, setStudentCoordinates } = useSession();
+  const { step, stepNumber, continueLabel, goNext, goBack } = useWorkflowStep();
   const [isSubmitting, setIsSubmitting] = useState(false);
-
-  useEffect(() => {
-    setCurrentStep('coords');
-  }, [setCurrentStep]);
+  // After submitting, show how the estimate compares before moving on
+  const [isRevealed, setIsRevealed] = useState(false);
 
   const handleSubmit = async (coords: { x: number; y: number; z: number }) => {
     setIsSubmitting(true);
     try {
       await submitCoordinates(coords);
       setStudentCoordinates(coords);
-      completeStep('coords');
-      navigate('/predict');
+      setIsRevealed(true);
     } catch (error) {
       console.error('Failed to submit coordinates:', error);
+      toast.error('Could not save your coordinates', { description: getApiErrorMessage(error) });
     } finally {
       setIsSubmitting(false);
     }
@@ -38,7 +38,7 @@ const CoordsPage = () => {
           <div className="text-center mb-8">
             <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
               <Target className="w-4 h-4" />
-              Step 4: Input Coordinates
+              Step {stepNumber}: {step.title}
             </span>
             <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
               Enter Your Coordinate Estimate
@@ -50,24 +50,54 @@ const CoordsPage = () => {
           </div>
 
           {/* Hint Card */}
-          <div className="mb-8 p-6 rounded-xl bg-accent/10 border border-accent/20">
-            <h3 className="font-semibold text-foreground mb-2 flex items-center gap-2">
-              💡 Hint
-            </h3>
-            <p className="text-sm text-muted-foreground">
-              Think about where the robot was in the cube. If it was in the middle, 
-              coordinates would be around 128. Near the edges? Closer to 0 or 255.
-            </p>
-          </div>
+          {step.params.showHints !== false && (
+            <div className="mb-8 p-6 rounded-xl bg-accent/10 border border-accent/20">
+              <h3 className="font-semibold text-foreground mb-2 flex items-center gap-2">
+                💡 Hint
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                Think about where the robot was in the cube. If it was in the middle, 
+                coordinates would be around 128. Near the edges? Closer to 0 or 255.
+              </p>
+            </div>
+          )}
 
-          {/* Form */}
-          <div className="rounded-xl border border-border bg-card p-6 md:p-8 mb-8">
-            <CoordinateForm
-              initialValues={state.studentCoordinates || { x: 128, y: 128, z: 128 }}
-              onSubmit={handleSubmit}
-              isLoading={isSubmitting}
-            />
-          </div>
+          {/* Form, then the comparison once submitted */}
+          {isRevealed && state.studentCoordinates ? (
+            <div className="rounded-xl border border-border bg-card p-6 md:p-8 mb-8">
+              <h2 className="font-display font-semibold text-lg text-foreground mb-1">
+                How Close Were You?
+              </h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                {state.cvResult?.estimatedPosition
+                  ? 'Compare where you placed the robot, where your drawing shows it, and what you typed.'
+                  : 'Compare where you placed the robot with what you typed.'}
+              </p>
+              <PositionComparison
+                actual={state.robotCoordinates}
+                sketch={state.cvResult?.estimatedPosition}
+                typed={state.studentCoordinates}
+              />
+              <div className="flex flex-wrap justify-end gap-2 mt-6">
+                <Button variant="outline" onClick={() => setIsRevealed(false)}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Change My Answer
+                </Button>
+                <Button variant="hero" onClick={goNext}>
+                  {continueLabel}
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-xl border border-border bg-card p-6 md:p-8 mb-8">
+              <CoordinateForm
+                initialValues={state.studentCoordinates || { x: 128, y: 128, z: 128 }}
+                onSubmit={handleSubmit}
+                isLoading={isSubmitting}
+              />
+            </div>
+          )}
 
           {/* Axis Legend */}
           <div className="grid grid-cols-3 gap-4 mb-8 text-center text-sm">
@@ -87,7 +117,7 @@ const CoordsPage = () => {
 
           {/* Navigation */}
           <div className="flex items-center justify-between">
-            <Button variant="ghost" onClick={() => navigate('/verify')}>
+            <Button variant="ghost" onClick={goBack}>
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back
             </Button>
@@ -1,61 +1,127 @@
-import { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
-import { BarChart3, Users, TrendingUp, Award, Home } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Award, BarChart3, Users, TrendingUp, GraduationCap, Home, Presentation, ListOrdered, SearchX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Layout } from '@/components/Layout';
 import { DashboardTable } from '@/components/DashboardTable';
-import { fetchDashboardData, type SessionResult } from '@/lib/api';
+import { DashboardFilters } from '@/components/DashboardFilters';
+import { toast } from '@/components/ui/sonner';
+import { useTeacherPreview } from '@/context/TeacherPreviewContext';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import { useColorMetric } from '@/context/ColorMetricContext';
+import { ColorMetricSelect } from '@/components/ColorMetricSelect';
+import { FlaggedMessages } from '@/components/FlaggedMessages';
+import { ModerationSettings } from '@/components/ModerationSettings';
+import { COLOR_METRICS } from '@shared/color';
+import {
+  fetchAllDashboardRows,
+  fetchDashboardData,
+  getApiErrorMessage,
+  type DashboardResults,
+  type DashboardSortKey,
+  type SortOrder,
+} from '@/lib/api';
+import {
+  EMPTY_DASHBOARD_FILTERS,
+  filtersToQuery,
+  type DashboardFilters as Filters,
+} from '@/lib/dashboardQuery';
+import { DEFAULT_DASHBOARD_QUERY } from '@shared/dashboardQuery';
 
 const DashboardPage = () => {
-  const [data, setData] = useState<SessionResult[]>([]);
+  const navigate = useNavigate();
+  const { startPreview } = useTeacherPreview();
+  const { activePlan, steps } = useLessonPlan();
+  const { metric } = useColorMetric();
+  const [filters, setFilters] = useState<Filters>(EMPTY_DASHBOARD_FILTERS);
+  const [sort, setSort] = useState<DashboardSortKey>(DEFAULT_DASHBOARD_QUERY.sort);
+  const [order, setOrder] = useState<SortOrder>(DEFAULT_DASHBOARD_QUERY.order);
+  const [page, setPage] = useState(DEFAULT_DASHBOARD_QUERY.page);
+  const [pageSize, setPageSize] = useState(DEFAULT_DASHBOARD_QUERY.pageSize);
+  const [data, setData] = useState<DashboardResults | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
+    const controller = new AbortController();
     const loadData = async () => {
       setIsLoading(true);
       try {
-        const results = await fetchDashboardData();
+        const results = await fetchDashboardData(
+          { ...filtersToQuery(filters), metric, page, pageSize, sort, order },
+          { signal: controller.signal },
+        );
         setData(results);
+        // The server clamps a page past the end, e.g. after a session was removed
+        if (results.page !== page) setPage(results.page);
       } catch (error) {
+        if (controller.signal.aborted) return;
         console.error('Failed to load dashboard data:', error);
+        toast.error('Could not load session data', { description: getApiErrorMessage(error) });
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) setIsLoading(false);
       }
     };
     loadData();
+    return () => controller.abort();
+  }, [filters, metric, page, pageSize, sort, order]);
+
+  // A new filter or sort starts again from the first page
+  const handleFiltersChange = useCallback((next: Filters) => {
+    setFilters(next);
+    setPage(1);
   }, []);
 
-  // Calculate stats
-  const avgCvAccuracy = data.length > 0 
-    ? data.reduce((sum, d) => sum + d.cvAccuracy, 0) / data.length 
-    : 0;
-  const avgRgbDelta = data.length > 0 
-    ? data.reduce((sum, d) => sum + d.rgbDelta, 0) / data.length 
-    : 0;
-  const excellentPredictions = data.filter(d => d.rgbDelta < 30).length;
+  const handleSort = (column: DashboardSortKey) => {
+    if (column === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(column);
+      // Names read A to Z; dates and scores newest or highest first
+      setOrder(column === 'studentName' ? 'asc' : 'desc');
+    }
+    setPage(1);
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    setPageSize(size);
+    setPage(1);
+  };
+
+  const loadAllRows = () => fetchAllDashboardRows({ ...filtersToQuery(filters), metric, sort, order });
 
+  const summary = data?.summary;
+  const metricSummary = summary?.byMetric[metric];
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_DASHBOARD_FILTERS);
+
+  // Over every session that matches the filters, not just the page shown
   const stats = [
     { 
       label: 'Total Sessions', 
-      value: data.length, 
+      value: summary?.sessions ?? 0, 
       icon: Users,
       color: 'bg-primary/10 text-primary' 
     },
+    { 
+      label: 'Students', 
+      value: summary?.students ?? 0, 
+      icon: GraduationCap,
+      color: 'bg-accent/10 text-accent' 
+    },
     { 
       label: 'Avg CV Accuracy', 
-      value: `${avgCvAccuracy.toFixed(1)}%`, 
+      value: `${(summary?.avgCvAccuracy ?? 0).toFixed(1)}%`, 
       icon: TrendingUp,
       color: 'bg-accent/10 text-accent' 
     },
     { 
-      label: 'Avg RGB Delta', 
-      value: avgRgbDelta.toFixed(1), 
+      label: `Avg ${COLOR_METRICS[metric].label}`, 
+      value: (metricSummary?.avgDifference ?? 0).toFixed(1), 
       icon: BarChart3,
       color: 'bg-warning/10 text-warning' 
     },
     { 
       label: 'Excellent Predictions', 
-      value: excellentPredictions, 
+      value: metricSummary?.excellent ?? 0, 
       icon: Award,
       color: 'bg-accent/10 text-accent' 
     },
@@ -75,16 +141,35 @@ const DashboardPage = () => {
                 View and analyze student learning sessions
               </p>
             </div>
-            <Button asChild variant="outline">
-              <Link to="/">
-                <Home className="w-4 h-4 mr-2" />
-                Back to Home
-              </Link>
-            </Button>
+            <div className="flex flex-wrap gap-2">
+              <ColorMetricSelect />
+              <Button asChild variant="outline">
+                <Link to="/lesson-plans">
+                  <ListOrdered className="w-4 h-4 mr-2" />
+                  Lesson Plan: {activePlan.name}
+                </Link>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  startPreview();
+                  navigate(steps[0].path);
+                }}
+              >
+                <Presentation className="w-4 h-4 mr-2" />
+                Preview Lesson
+              </Button>
+              <Button asChild variant="outline">
+                <Link to="/">
+                  <Home className="w-4 h-4 mr-2" />
+                  Back to Home
+                </Link>
+              </Button>
+            </div>
           </div>
 
           {/* Stats Grid */}
-          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
             {stats.map(({ label, value, icon: Icon, color }) => (
               <div 
                 key={label} 
@@ -101,13 +186,23 @@ const DashboardPage = () => {
             ))}
           </div>
 
+          {/* Filters */}
+          {data && data.students.length > 0 && (
+            <DashboardFilters
+              filters={filters}
+              students={data.students}
+              onChange={handleFiltersChange}
+              className="mb-4"
+            />
+          )}
+
           {/* Data Table */}
-          {isLoading ? (
+          {isLoading && !data ? (
             <div className="rounded-xl border border-border bg-card p-12 text-center">
               <div className="w-12 h-12 border-4 border-primary/20 border-t-primary rounded-full animate-spin mx-auto mb-4" />
               <p className="text-muted-foreground">Loading session data...</p>
             </div>
-          ) : data.length === 0 ? (
+          ) : !data || data.students.length === 0 ? (
             <div className="rounded-xl border border-border bg-card p-12 text-center">
               <BarChart3 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="font-semibold text-foreground mb-2">No sessions yet</h3>
@@ -118,9 +213,38 @@ const DashboardPage = () => {
                 <Link to="/">Start a Session</Link>
               </Button>
             </div>
+          ) : data.total === 0 && isFiltered ? (
+            <div className="rounded-xl border border-border bg-card p-12 text-center">
+              <SearchX className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="font-semibold text-foreground mb-2">No matching sessions</h3>
+              <p className="text-muted-foreground mb-6">
+                No session matches these filters. Try widening the date range or clearing a filter.
+              </p>
+              <Button variant="outline" onClick={() => handleFiltersChange(EMPTY_DASHBOARD_FILTERS)}>
+                Clear Filters
+              </Button>
+            </div>
           ) : (
-            <DashboardTable data={data} />
+            <DashboardTable
+              rows={data.rows}
+              total={data.total}
+              page={data.page}
+              pageSize={data.pageSize}
+              sort={sort}
+              order={order}
+              onSort={handleSort}
+              onPageChange={setPage}
+              onPageSizeChange={handlePageSizeChange}
+              loadAllRows={loadAllRows}
+              isLoading={isLoading}
+            />
           )}
+
+          {/* Tutor Chat Safety */}
+          <div className="grid lg:grid-cols-3 gap-8 mt-8">
+            <FlaggedMessages className="lg:col-span-2" />
+            <ModerationSettings />
+          </div>
         </div>
       </div>
     </Layout>
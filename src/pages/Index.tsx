@@ -3,9 +3,16 @@ import { Bot, Play, BarChart3, Box, Palette, MessageCircle, ArrowRight } from 'l
 import { Button } from '@/components/ui/button';
 import { Layout } from '@/components/Layout';
 import { useSession } from '@/context/SessionContext';
+import { useProfiles } from '@/context/ProfileContext';
+import { useLessonPlan } from '@/context/LessonPlanContext';
 
 const Index = () => {
   const { resetSession } = useSession();
+  const { activeProfile } = useProfiles();
+  const { steps } = useLessonPlan();
+  // Students pick their profile first so the lesson is saved under their name
+  const firstStepPath = steps[0].path;
+  const lessonPath = activeProfile ? firstStepPath : `/profiles?next=${firstStepPath}`;
 
   const handleStartLesson = () => {
     resetSession();
@@ -41,7 +48,7 @@ const Index = () => {
 
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <Button asChild variant="hero" size="xl" onClick={handleStartLesson}>
-                <Link to="/3d">
+                <Link to={lessonPath}>
                   <Play className="w-5 h-5 mr-2" />
                   Start Lesson
                 </Link>
@@ -178,7 +185,7 @@ const Index = () => {
             className="bg-white/10 hover:bg-white/20 border-white/20"
             onClick={handleStartLesson}
           >
-            <Link to="/3d">
+            <Link to={lessonPath}>
               <Play className="w-5 h-5 mr-2" />
               Start Learning Now
             </Link>
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Check, Copy, ListOrdered, Save, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/components/ui/sonner';
+import { Layout } from '@/components/Layout';
+import { LessonPlanEditor } from '@/components/LessonPlanEditor';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import {
+  copyLessonPlan,
+  isBuiltInPlan,
+  parseLessonPlan,
+  serializeLessonPlan,
+  validateLessonPlan,
+  type LessonPlan,
+} from '@/lib/lessonPlans';
+import { cn } from '@/lib/utils';
+
+const LessonPlansPage = () => {
+  const { plans, activePlan, setActivePlan, savePlan, deletePlan } = useLessonPlan();
+  const [draft, setDraft] = useState<LessonPlan>(activePlan);
+  const [json, setJson] = useState(() => serializeLessonPlan(activePlan));
+  const [jsonErrors, setJsonErrors] = useState<string[]>([]);
+
+  const isBuiltIn = isBuiltInPlan(draft.id);
+  const saved = plans.find((p) => p.id === draft.id);
+  const isDirty = !saved || JSON.stringify(saved) !== JSON.stringify(draft);
+  const errors = validateLessonPlan(draft);
+
+  const openPlan = (plan: LessonPlan) => {
+    setDraft(plan);
+    setJson(serializeLessonPlan(plan));
+    setJsonErrors([]);
+  };
+
+  const updateDraft = (plan: LessonPlan) => {
+    setDraft(plan);
+    setJson(serializeLessonPlan(plan));
+  };
+
+  const handleSave = () => {
+    try {
+      savePlan(draft);
+      toast.success('Lesson plan saved');
+    } catch (error) {
+      toast.error('Could not save the lesson plan', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleDuplicate = () => {
+    openPlan(copyLessonPlan(draft));
+  };
+
+  const handleDelete = () => {
+    deletePlan(draft.id);
+    openPlan(plans[0]);
+  };
+
+  // Either replace the plan being edited or start a new plan from the JSON
+  const handleApplyJson = (asNewPlan: boolean) => {
+    const parsed = parseLessonPlan(json);
+    if (parsed.ok === false) {
+      setJsonErrors(parsed.errors);
+      return;
+    }
+    setJsonErrors([]);
+    const plan = asNewPlan ? parsed.plan : { ...parsed.plan, id: draft.id };
+    setDraft(plan);
+    toast.success(asNewPlan ? 'Plan imported. Save it to keep it.' : 'JSON applied. Save to keep the changes.');
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+            <div>
+              <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-2">
+                Lesson Plans
+              </h1>
+              <p className="text-muted-foreground">
+                Choose which steps students go through, in what order, and how each step behaves
+              </p>
+            </div>
+            <Button asChild variant="outline">
+              <Link to="/dashboard">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </Button>
+          </div>
+
+          <div className="grid lg:grid-cols-3 gap-8">
+            {/* Plan List */}
+            <div className="space-y-3">
+              {plans.map((plan) => (
+                <button
+                  key={plan.id}
+                  onClick={() => openPlan(plan)}
+                  className={cn(
+                    "w-full text-left p-4 rounded-xl border bg-card hover:shadow-md transition-shadow",
+                    plan.id === draft.id ? "border-primary shadow-glow" : "border-border"
+                  )}
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-semibold text-foreground truncate flex-1">{plan.name}</span>
+                    {plan.id === activePlan.id && <Badge>Active</Badge>}
+                    {isBuiltInPlan(plan.id) && <Badge variant="secondary">Built-in</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {plan.steps.length} {plan.steps.length === 1 ? 'step' : 'steps'}
+                    {plan.description && ` · ${plan.description}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {/* Editor */}
+            <div className="lg:col-span-2 rounded-xl border border-border bg-card p-6">
+              <div className="flex flex-wrap items-center gap-2 mb-6">
+                <ListOrdered className="w-5 h-5 text-primary" />
+                <h2 className="font-display font-semibold text-lg text-foreground flex-1">
+                  {isBuiltIn ? 'Built-in plan' : saved ? 'Edit plan' : 'New plan'}
+                </h2>
+
+                <Button
+                  variant={draft.id === activePlan.id ? 'secondary' : 'hero'}
+                  size="sm"
+                  onClick={() => setActivePlan(draft.id)}
+                  disabled={!saved || isDirty || draft.id === activePlan.id}
+                >
+                  <Check className="w-4 h-4 mr-2" />
+                  {draft.id === activePlan.id ? 'In use' : 'Use this plan'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDuplicate}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Duplicate
+                </Button>
+                {!isBuiltIn && (
+                  <Button size="sm" onClick={handleSave} disabled={!isDirty || errors.length > 0}>
+                    <Save className="w-4 h-4 mr-2" />
+                    Save
+                  </Button>
+                )}
+                {!isBuiltIn && saved && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" aria-label={`Delete ${saved.name}`}>
+                        <Trash2 className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {saved.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Students using this plan will switch to the full lesson.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+
+              {isBuiltIn && (
+                <p className="text-sm text-muted-foreground mb-6">
+                  Built-in plans can't be changed. Duplicate this plan to make your own version.
+                </p>
+              )}
+
+              {errors.length > 0 && (
+                <ul className="mb-6 p-4 rounded-lg bg-destructive/10 text-sm text-destructive space-y-1">
+                  {errors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <Tabs defaultValue="steps">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="steps">Steps</TabsTrigger>
+                  <TabsTrigger value="json">JSON</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="steps">
+                  <LessonPlanEditor plan={draft} onChange={updateDraft} readOnly={isBuiltIn} />
+                </TabsContent>
+
+                <TabsContent value="json" className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Copy this to share the plan with another device, or paste a plan here to import it.
+                  </p>
+                  <Textarea
+                    value={json}
+                    onChange={(e) => {
+                      setJson(e.target.value);
+                      setJsonErrors([]);
+                    }}
+                    rows={16}
+                    className="font-mono text-xs"
+                    aria-label="Lesson plan JSON"
+                  />
+                  {jsonErrors.length > 0 && (
+                    <ul className="p-4 rounded-lg bg-destructive/10 text-sm text-destructive space-y-1">
+                      {jsonErrors.map((error) => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {!isBuiltIn && (
+                      <Button variant="outline" onClick={() => handleApplyJson(false)}>
+                        Apply to This Plan
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={() => handleApplyJson(true)}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import as New Plan
+                    </Button>
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default LessonPlansPage;
@@ -1,20 +1,23 @@
-import { useEffect, useState, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useCallback } from 'react';
 import { Check, ArrowLeft, ArrowRight, Move3D } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Layout } from '@/components/Layout';
 import { RGBCoordinateLab, type RGBPosition } from '@/components/3d/RGBCoordinateLab';
 import { useSession } from '@/context/SessionContext';
-import { sendRobotCoordinates } from '@/lib/api';
+import { useWorkflowStep } from '@/context/WorkflowStepContext';
+import { toast } from '@/components/ui/sonner';
+import { sendRobotCoordinates, getApiErrorMessage } from '@/lib/api';
+import { COLOR_SPACES } from '@/lib/colorSpaces';
+import type { ColorSpaceId } from '@/lib/workflow';
 
 const PlacementPage = () => {
-  const navigate = useNavigate();
-  const { state, setRobotCoordinates, setCurrentStep, completeStep } = useSession();
+  const { state, setRobotCoordinates } = useSession();
+  const { step, stepNumber, prevStep, goNext, goBack } = useWorkflowStep();
   const [isSubmitting, setIsSubmitting] = useState(false);
-
-  useEffect(() => {
-    setCurrentStep('placement');
-  }, [setCurrentStep]);
+  const spaces = step.params.colorSpaces?.length ? step.params.colorSpaces : (['rgb'] as ColorSpaceId[]);
+  const [space, setSpace] = useState<ColorSpaceId>(spaces[0]);
+  const guideSpace = COLOR_SPACES[spaces.includes(space) ? space : spaces[0]];
+  const isMultiSpace = spaces.length > 1;
 
   const handlePositionChange = useCallback((pos: RGBPosition) => {
     // Map RGB position to robot coordinates (R→X, G→Y, B→Z for API compatibility)
@@ -25,10 +28,10 @@ const PlacementPage = () => {
     setIsSubmitting(true);
     try {
       await sendRobotCoordinates(state.robotCoordinates);
-      completeStep('placement');
-      navigate('/upload');
+      await goNext();
     } catch (error) {
       console.error('Failed to submit coordinates:', error);
+      toast.error('Could not save the robot position', { description: getApiErrorMessage(error) });
     } finally {
       setIsSubmitting(false);
     }
@@ -42,15 +45,22 @@ const PlacementPage = () => {
           <div className="text-center mb-8">
             <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
               <Move3D className="w-4 h-4" />
-              Step 1: Position in RGB Space
+              Step {stepNumber}: {step.title}
             </span>
             <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
-              RGB Coordinate Laboratory
+              {isMultiSpace ? 'Color Space Laboratory' : 'RGB Coordinate Laboratory'}
             </h1>
-            <p className="text-muted-foreground max-w-xl mx-auto">
-              Position the marker in 3D space. X-axis = Red, Z-axis = Green, Y-axis (height) = Blue. 
-              Your spatial position determines the RGB color value.
-            </p>
+            {isMultiSpace ? (
+              <p className="text-muted-foreground max-w-xl mx-auto">
+                The same color has different coordinates in different color spaces. Switch spaces above the
+                scene to see where your color sits in each one. The robot is always placed by its RGB value.
+              </p>
+            ) : (
+              <p className="text-muted-foreground max-w-xl mx-auto">
+                Position the marker in 3D space. X-axis = Red, Z-axis = Green, Y-axis (height) = Blue. 
+                Your spatial position determines the RGB color value.
+              </p>
+            )}
           </div>
 
           {/* 3D Scene */}
@@ -64,21 +74,21 @@ const PlacementPage = () => {
                 b: state.robotCoordinates.z 
               }}
               showOctopuses={true}
+              spaces={spaces}
+              onSpaceChange={setSpace}
             />
           </div>
 
-          {/* RGB Mapping Guide */}
+          {/* Axis Mapping Guide */}
           <div className="grid md:grid-cols-3 gap-4 mb-8">
-            {[
-              { color: 'bg-red-500', label: 'X-Axis → Red (R)', desc: 'Horizontal position left-right' },
-              { color: 'bg-green-500', label: 'Z-Axis → Green (G)', desc: 'Horizontal position front-back' },
-              { color: 'bg-blue-500', label: 'Y-Axis → Blue (B)', desc: 'Vertical height (use slider)' },
-            ].map(({ color, label, desc }, i) => (
-              <div key={i} className="p-4 rounded-lg bg-secondary/50 flex items-start gap-3">
-                <div className={`w-4 h-4 rounded-sm ${color} mt-0.5`} />
+            {guideSpace.axes.map((axis) => (
+              <div key={axis.symbol} className="p-4 rounded-lg bg-secondary/50 flex items-start gap-3">
+                <div className={`w-4 h-4 rounded-sm ${axis.swatchClass} mt-0.5 shrink-0`} />
                 <div>
-                  <p className="font-medium text-foreground">{label}</p>
-                  <p className="text-sm text-muted-foreground">{desc}</p>
+                  <p className="font-medium text-foreground">
+                    {axis.direction.length === 1 ? `${axis.direction}-Axis` : axis.direction} → {axis.name} ({axis.symbol})
+                  </p>
+                  <p className="text-sm text-muted-foreground">{axis.description}</p>
                 </div>
               </div>
             ))}
@@ -86,9 +96,9 @@ const PlacementPage = () => {
 
           {/* Navigation */}
           <div className="flex items-center justify-between">
-            <Button variant="ghost" onClick={() => navigate('/')}>
+            <Button variant="ghost" onClick={goBack}>
               <ArrowLeft className="w-4 h-4 mr-2" />
-              Back to Home
+              {prevStep ? 'Back' : 'Back to Home'}
             </Button>
             
             <Button 
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Users, UserPlus, Trash2, ArrowRight, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Layout } from '@/components/Layout';
+import { ProfileAvatar } from '@/components/ProfileAvatar';
+import { useProfiles } from '@/context/ProfileContext';
+import { peekSavedSession } from '@/context/SessionContext';
+import { MAX_PROFILE_NAME_LENGTH, type StudentProfile } from '@/lib/profiles';
+import { loadHistory } from '@/lib/history';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import { getStepById, type WorkflowStep } from '@/lib/workflow';
+import { cn } from '@/lib/utils';
+
+interface ProfileSummary {
+  profile: StudentProfile;
+  inProgressStep: string | null;
+  stepsDone: number;
+  completedSessions: number;
+}
+
+// Where a student should land after picking their profile
+function resumePath(summary: ProfileSummary, steps: WorkflowStep[]): string {
+  if (!summary.inProgressStep) return '/';
+  return getStepById(summary.inProgressStep, steps)?.path ?? '/';
+}
+
+const ProfilesPage = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { profiles, activeProfile, createProfile, selectProfile, deleteProfile, signOut } = useProfiles();
+  const { steps } = useLessonPlan();
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const summaries = useMemo<ProfileSummary[]>(() =>
+    [...profiles]
+      .sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime())
+      .map((profile) => {
+        const saved = peekSavedSession(profile.id);
+        const stepsDone = saved?.completedSteps.length ?? 0;
+        return {
+          profile,
+          inProgressStep: saved && stepsDone > 0 ? saved.currentStep : null,
+          stepsDone,
+          completedSessions: loadHistory(profile.id).length,
+        };
+      }),
+  [profiles]);
+
+  const goNext = (fallback: string) => {
+    navigate(searchParams.get('next') ?? fallback);
+  };
+
+  const handleSelect = (summary: ProfileSummary) => {
+    selectProfile(summary.profile.id);
+    goNext(resumePath(summary, steps));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      createProfile(newName);
+      setNewName('');
+      setError(null);
+      goNext('/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add this student');
+    }
+  };
+
+  const handleGuest = () => {
+    signOut();
+    goNext('/');
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
+              <Users className="w-4 h-4" />
+              Student Profiles
+            </span>
+            <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
+              Who's Learning Today?
+            </h1>
+            <p className="text-muted-foreground max-w-xl mx-auto">
+              Pick your name to continue where you left off, or add yourself as a new student.
+              Everyone on this device keeps their own progress.
+            </p>
+          </div>
+
+          {/* Profile Grid */}
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
+            {summaries.map((summary) => {
+              const { profile, inProgressStep, stepsDone, completedSessions } = summary;
+              const isActive = activeProfile?.id === profile.id;
+
+              return (
+                <div
+                  key={profile.id}
+                  className={cn(
+                    "p-5 rounded-xl border bg-card hover:shadow-md transition-shadow flex flex-col",
+                    isActive ? "border-primary shadow-glow" : "border-border"
+                  )}
+                >
+                  <div className="flex items-start gap-3 mb-4">
+                    <ProfileAvatar profile={profile} size="lg" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-display font-semibold text-lg text-foreground truncate">
+                        {profile.name}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {inProgressStep
+                          ? `In progress: step ${stepsDone + 1} of ${steps.length}`
+                          : 'No lesson in progress'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {completedSessions} completed {completedSessions === 1 ? 'lesson' : 'lessons'}
+                      </p>
+                    </div>
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" aria-label={`Remove ${profile.name}`}>
+                          <Trash2 className="w-4 h-4 text-muted-foreground" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Remove {profile.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This deletes their saved lesson and history from this device.
+                            Results already sent to the teacher dashboard are kept.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteProfile(profile.id)}>
+                            Remove
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+
+                  <Button
+                    variant={isActive ? 'hero' : 'outline'}
+                    className="mt-auto"
+                    onClick={() => handleSelect(summary)}
+                  >
+                    {inProgressStep ? 'Continue Lesson' : isActive ? 'Continue' : "That's me"}
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </Button>
+                </div>
+              );
+            })}
+
+            {/* Add Student */}
+            <form
+              onSubmit={handleCreate}
+              className="p-5 rounded-xl border-2 border-dashed border-border bg-card/50 flex flex-col gap-3"
+            >
+              <div className="flex items-center gap-2 text-foreground font-medium">
+                <UserPlus className="w-5 h-5 text-primary" />
+                New Student
+              </div>
+              <Input
+                value={newName}
+                onChange={(e) => {
+                  setNewName(e.target.value);
+                  setError(null);
+                }}
+                placeholder="Your first name"
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                aria-label="Student name"
+                aria-invalid={!!error}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <Button type="submit" className="mt-auto" disabled={!newName.trim()}>
+                Add &amp; Start
+              </Button>
+            </form>
+          </div>
+
+          {/* Guest */}
+          <div className="flex items-center justify-center">
+            <Button variant="ghost" onClick={handleGuest}>
+              <LogOut className="w-4 h-4 mr-2" />
+              {activeProfile ? `Sign out ${activeProfile.name}` : 'Continue as guest'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default ProfilesPage;
@@ -0,0 +1,146 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { History, Eye, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Layout } from '@/components/Layout';
+import { RgbSwatch } from '@/components/RgbSwatch';
+import { useProfiles } from '@/context/ProfileContext';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import { useColorMetric } from '@/context/ColorMetricContext';
+import { loadHistory } from '@/lib/history';
+import { COLOR_METRICS, colorDifference, gradeColorDifference, type ColorMetric } from '@shared/color';
+import { cn } from '@/lib/utils';
+
+const getAccuracyColor = (value: number) => {
+  if (value >= 90) return 'text-accent';
+  if (value >= 75) return 'text-warning';
+  return 'text-destructive';
+};
+
+const getDeltaColor = (value: number, metric: ColorMetric) => {
+  const grade = gradeColorDifference(value, metric);
+  if (grade === 'excellent') return 'text-accent';
+  if (grade === 'good') return 'text-warning';
+  return 'text-destructive';
+};
+
+const ProgressPage = () => {
+  const { activeProfile } = useProfiles();
+  const { steps } = useLessonPlan();
+  const { metric } = useColorMetric();
+  const profileId = activeProfile?.id ?? null;
+
+  // Newest first
+  const attempts = useMemo(() => loadHistory(profileId).reverse(), [profileId]);
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
+              <History className="w-4 h-4" />
+              My Progress
+            </span>
+            <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
+              {activeProfile ? `${activeProfile.name}'s Lessons` : 'Guest Lessons'}
+            </h1>
+            <p className="text-muted-foreground max-w-xl mx-auto">
+              Every lesson you finish is kept here. Open one to look back at your prediction,
+              the AI's answer and what you talked about with the tutor.
+            </p>
+          </div>
+
+          {attempts.length === 0 ? (
+            <div className="rounded-xl border border-border bg-card p-8 text-center">
+              <p className="text-muted-foreground mb-6">
+                You haven't finished a lesson yet. Complete one to see it here.
+              </p>
+              <Button asChild variant="hero">
+                <Link to={steps[0].path}>
+                  Start Lesson
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Link>
+              </Button>
+            </div>
+          ) : (
+            <div className="rounded-xl border border-border bg-card overflow-hidden">
+              <div className="p-4 border-b border-border">
+                <h3 className="font-semibold text-foreground">Past Attempts</h3>
+                <p className="text-sm text-muted-foreground">
+                  {attempts.length} completed {attempts.length === 1 ? 'lesson' : 'lessons'}
+                </p>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-center">Your Color</TableHead>
+                      <TableHead className="text-center">AI Color</TableHead>
+                      <TableHead className="text-center">{COLOR_METRICS[metric].label}</TableHead>
+                      <TableHead className="text-center">CV Accuracy</TableHead>
+                      <TableHead className="text-right" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {attempts.map(({ id, completedAt, result }) => {
+                      const difference = colorDifference(result.studentRgb, result.aiRgb, metric);
+                      return (
+                        <TableRow key={id}>
+                          <TableCell className="text-muted-foreground">
+                            {completedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-center">
+                              <RgbSwatch rgb={result.studentRgb} showValues={false} size="sm" />
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-center">
+                              <RgbSwatch rgb={result.aiRgb} showValues={false} size="sm" />
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <span className={cn("font-semibold font-mono", getDeltaColor(difference, metric))}>
+                              {difference.toFixed(1)}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <span className={cn("font-semibold", getAccuracyColor(result.cvAccuracy))}>
+                              {result.cvAccuracy.toFixed(1)}%
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button asChild variant="outline" size="sm">
+                              <Link to={`/progress/${id}`}>
+                                <Eye className="w-4 h-4 mr-2" />
+                                View
+                              </Link>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default ProgressPage;
@@ -0,0 +1,301 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  BarChart3,
+  Lightbulb,
+  Minus,
+  TrendingDown,
+  TrendingUp,
+  UserRound,
+  Users,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Layout } from '@/components/Layout';
+import { RgbSwatch } from '@/components/RgbSwatch';
+import { StudentDrawings } from '@/components/StudentDrawings';
+import { StudentTrendCharts } from '@/components/StudentTrendCharts';
+import { toast } from '@/components/ui/sonner';
+import { fetchAllDashboardRows, getApiErrorMessage, type SessionResult } from '@/lib/api';
+import { useColorMetric } from '@/context/ColorMetricContext';
+import { COLOR_METRICS, colorDifference, gradeColorDifference, type ColorMetric } from '@shared/color';
+import { MIN_TREND_LESSONS, studentTrend, type TrendDirection } from '@/lib/studentTrend';
+import { cn } from '@/lib/utils';
+
+const TREND: Record<TrendDirection, { title: string; icon: typeof TrendingUp; tone: string }> = {
+  improving: {
+    title: 'Improving',
+    icon: TrendingUp,
+    tone: 'border-success/30 bg-success/10 text-success',
+  },
+  steady: {
+    title: 'Holding steady',
+    icon: Minus,
+    tone: 'border-border bg-secondary text-foreground',
+  },
+  declining: {
+    title: 'Needs attention',
+    icon: TrendingDown,
+    tone: 'border-destructive/30 bg-destructive/10 text-destructive',
+  },
+};
+
+const getAccuracyColor = (value: number) => {
+  if (value >= 90) return 'text-accent';
+  if (value >= 75) return 'text-warning';
+  return 'text-destructive';
+};
+
+const getDeltaColor = (value: number, metric: ColorMetric) => {
+  const grade = gradeColorDifference(value, metric);
+  if (grade === 'excellent') return 'text-accent';
+  if (grade === 'good') return 'text-warning';
+  return 'text-destructive';
+};
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+const lessons = (count: number) => `${count} ${count === 1 ? 'lesson' : 'lessons'}`;
+
+// One student's lessons for the teacher: trends over time, every attempt and
+// the drawings they were checked against
+const StudentDashboardPage = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const { metric } = useColorMetric();
+  const metricInfo = COLOR_METRICS[metric];
+  const differenceOf = (row: SessionResult) => colorDifference(row.studentRgb, row.aiRgb, metric);
+  // Oldest first
+  const [results, setResults] = useState<SessionResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const loadData = async () => {
+      setIsLoading(true);
+      try {
+        setResults(await fetchAllDashboardRows(
+          { student: id, sort: 'date', order: 'asc' },
+          { signal: controller.signal },
+        ));
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load student sessions:', error);
+        toast.error('Could not load session data', { description: getApiErrorMessage(error) });
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+    loadData();
+    return () => controller.abort();
+  }, [id]);
+
+  // The id is a profile id for signed-in students; show their latest name
+  const name = results.length > 0 ? results[results.length - 1].studentName : id;
+  const trend = studentTrend(results, metric);
+  const newestFirst = [...results].reverse();
+
+  const stats = [
+    {
+      label: 'Lessons',
+      value: results.length,
+      icon: Users,
+      color: 'bg-primary/10 text-primary',
+    },
+    {
+      label: 'Avg CV Accuracy',
+      value: `${average(results.map((r) => r.cvAccuracy)).toFixed(1)}%`,
+      icon: TrendingUp,
+      color: 'bg-accent/10 text-accent',
+    },
+    {
+      label: `Avg ${metricInfo.label}`,
+      value: average(results.map(differenceOf)).toFixed(1),
+      icon: BarChart3,
+      color: 'bg-warning/10 text-warning',
+    },
+    {
+      label: 'Predict Hints per Lesson',
+      value: average(results.map((r) => r.predictHintsUsed)).toFixed(1),
+      icon: Lightbulb,
+      color: 'bg-primary/10 text-primary',
+    },
+  ];
+
+  const renderTrend = () => {
+    if (!trend) {
+      return (
+        <div className="rounded-xl border border-border bg-card p-4 mb-8 text-sm text-muted-foreground">
+          A trend shows once {name} has finished at least {MIN_TREND_LESSONS} lessons.
+        </div>
+      );
+    }
+    const { title, icon: Icon, tone } = TREND[trend.direction];
+    const span = trend.window === 1 ? 'first and latest lesson' : `first and latest ${trend.window} lessons`;
+    return (
+      <div className={cn("rounded-xl border p-4 mb-8 flex items-center gap-4", tone)}>
+        <Icon className="w-6 h-6 shrink-0" />
+        <div>
+          <p className="font-semibold">{title}</p>
+          <p className="text-sm text-foreground/80">
+            Comparing the {span}: {metricInfo.label} went from {trend.earlyDifference.toFixed(1)} to{' '}
+            {trend.recentDifference.toFixed(1)}, and CV accuracy from {trend.earlyAccuracy.toFixed(1)}% to{' '}
+            {trend.recentAccuracy.toFixed(1)}%.
+          </p>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+            <div>
+              <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-2">
+                {name}
+              </h1>
+              <p className="text-muted-foreground">
+                {results.length > 0
+                  ? `${lessons(results.length)} from ${results[0].date.toLocaleDateString()} to ${results[results.length - 1].date.toLocaleDateString()}`
+                  : 'Student progress'}
+              </p>
+            </div>
+            <Button asChild variant="outline">
+              <Link to="/dashboard">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Dashboard
+              </Link>
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="rounded-xl border border-border bg-card p-12 text-center">
+              <div className="w-12 h-12 border-4 border-primary/20 border-t-primary rounded-full animate-spin mx-auto mb-4" />
+              <p className="text-muted-foreground">Loading session data...</p>
+            </div>
+          ) : results.length === 0 ? (
+            <div className="rounded-xl border border-border bg-card p-12 text-center">
+              <UserRound className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="font-semibold text-foreground mb-2">No sessions for {name}</h3>
+              <p className="text-muted-foreground">
+                Their lessons will appear here once they finish one.
+              </p>
+            </div>
+          ) : (
+            <>
+              {renderTrend()}
+
+              {/* Stats Grid */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+                {stats.map(({ label, value, icon: Icon, color }) => (
+                  <div
+                    key={label}
+                    className="p-6 rounded-xl border border-border bg-card hover:shadow-md transition-shadow"
+                  >
+                    <div className={`w-12 h-12 rounded-xl ${color} flex items-center justify-center mb-4`}>
+                      <Icon className="w-6 h-6" />
+                    </div>
+                    <p className="text-2xl md:text-3xl font-bold font-display text-foreground">
+                      {value}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              <StudentTrendCharts results={results} metric={metric} className="mb-8" />
+
+              <StudentDrawings results={results} className="mb-8" />
+
+              {/* Attempts */}
+              <div className="rounded-xl border border-border bg-card overflow-hidden">
+                <div className="p-4 border-b border-border">
+                  <h3 className="font-semibold text-foreground">Lessons</h3>
+                  <p className="text-sm text-muted-foreground">Newest first</p>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Robot Position</TableHead>
+                        <TableHead className="text-center">CV Accuracy</TableHead>
+                        <TableHead className="text-center">Student Color</TableHead>
+                        <TableHead className="text-center">AI Color</TableHead>
+                        <TableHead className="text-center">RGB Delta</TableHead>
+                        {metric !== 'rgb' && <TableHead className="text-center">{metricInfo.label}</TableHead>}
+                        <TableHead className="text-center">Predict Hints</TableHead>
+                        <TableHead className="text-center">Tutor Questions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {newestFirst.map((row) => (
+                        <TableRow key={row.date.toISOString()}>
+                          <TableCell className="text-muted-foreground">
+                            {row.date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2 text-xs font-mono">
+                              <span className="text-destructive">X:{row.robotCoordinates.x}</span>
+                              <span className="text-accent">Y:{row.robotCoordinates.y}</span>
+                              <span className="text-primary">Z:{row.robotCoordinates.z}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <span className={cn("font-semibold", getAccuracyColor(row.cvAccuracy))}>
+                              {row.cvAccuracy.toFixed(1)}%
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-center">
+                              <RgbSwatch rgb={row.studentRgb} showValues={false} size="sm" />
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-center">
+                              <RgbSwatch rgb={row.aiRgb} showValues={false} size="sm" />
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <span className={cn("font-semibold font-mono", getDeltaColor(row.rgbDelta, 'rgb'))}>
+                              {row.rgbDelta.toFixed(1)}
+                            </span>
+                          </TableCell>
+                          {metric !== 'rgb' && (
+                            <TableCell className="text-center">
+                              <span className={cn("font-semibold font-mono", getDeltaColor(differenceOf(row), metric))}>
+                                {differenceOf(row).toFixed(1)}
+                              </span>
+                            </TableCell>
+                          )}
+                          <TableCell className="text-center font-mono text-muted-foreground">
+                            {row.predictHintsUsed}
+                          </TableCell>
+                          <TableCell className="text-center font-mono text-muted-foreground">
+                            {row.chatMessages}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default StudentDashboardPage;
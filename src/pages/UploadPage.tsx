@@ -1,38 +1,38 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, ArrowRight, Pencil, Upload } from 'lucide-react';
+import { useState } from 'react';
+import { ArrowLeft, ArrowRight, Camera, Pencil, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Layout } from '@/components/Layout';
 import { UploadCard } from '@/components/UploadCard';
+import { DrawingCanvas } from '@/components/DrawingCanvas';
 import { AxisIndicator } from '@/components/AxisIndicator';
 import { useSession } from '@/context/SessionContext';
+import { useProfiles } from '@/context/ProfileContext';
+import { useWorkflowStep } from '@/context/WorkflowStepContext';
 import { uploadDrawing } from '@/lib/api';
+import { drawingOwnerFor } from '@/lib/drawingStore';
+import { useDrawingUrl } from '@/hooks/use-drawing-url';
 
 const UploadPage = () => {
-  const navigate = useNavigate();
-  const { state, setUploadedImage, setCurrentStep, completeStep } = useSession();
+  const { state, setUploadedImage } = useSession();
+  const { step, stepNumber, continueLabel, goNext, goBack } = useWorkflowStep();
+  const { activeProfile } = useProfiles();
   const [previewUrl, setPreviewUrl] = useState<string | null>(state.uploadedImage);
-
-  useEffect(() => {
-    setCurrentStep('upload');
-  }, [setCurrentStep]);
+  const preview = useDrawingUrl(previewUrl);
 
   const handleUpload = async (file: File) => {
-    const result = await uploadDrawing(file);
-    if (result.success) {
-      setPreviewUrl(result.imageUrl);
-      setUploadedImage(result.imageUrl);
+    const result = await uploadDrawing(file, { owner: drawingOwnerFor(activeProfile?.id ?? null) });
+    if (!result.success) {
+      throw new Error('The server rejected the drawing. Please try again.');
     }
+    setPreviewUrl(result.imageUrl);
+    setUploadedImage(result.imageUrl);
   };
 
   const handleClear = () => {
     setPreviewUrl(null);
   };
 
-  const handleContinue = () => {
-    completeStep('upload');
-    navigate('/verify');
-  };
 
   return (
     <Layout showProgress>
@@ -42,13 +42,13 @@ const UploadPage = () => {
           <div className="text-center mb-8">
             <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
               <Pencil className="w-4 h-4" />
-              Step 2: Draw & Upload
+              Step {stepNumber}: {step.title}
             </span>
             <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
               Draw What You See
             </h1>
             <p className="text-muted-foreground max-w-xl mx-auto">
-              On a piece of paper, draw the 3D cube with RoboFarmer inside. 
+              Draw the 3D cube with RoboFarmer inside, right here or on a piece of paper. 
               Show the robot's position clearly, then upload your drawing.
             </p>
           </div>
@@ -77,7 +77,7 @@ const UploadPage = () => {
               <ol className="space-y-4 text-muted-foreground">
                 <li className="flex gap-3">
                   <span className="w-6 h-6 rounded-full bg-primary/10 text-primary text-sm font-bold flex items-center justify-center shrink-0">1</span>
-                  <span>Draw a 3D cube (like a box) on your paper</span>
+                  <span>Draw a 3D cube (like a box) on the sketch pad or on paper</span>
                 </li>
                 <li className="flex gap-3">
                   <span className="w-6 h-6 rounded-full bg-primary/10 text-primary text-sm font-bold flex items-center justify-center shrink-0">2</span>
@@ -93,7 +93,7 @@ const UploadPage = () => {
                 </li>
                 <li className="flex gap-3">
                   <span className="w-6 h-6 rounded-full bg-primary/10 text-primary text-sm font-bold flex items-center justify-center shrink-0">5</span>
-                  <span>Take a photo or scan your drawing</span>
+                  <span>Press "Use This Drawing", or take a photo or scan of your paper and upload it</span>
                 </li>
               </ol>
             </div>
@@ -104,17 +104,39 @@ const UploadPage = () => {
                 <Upload className="w-5 h-5" />
                 Upload Your Drawing
               </h2>
-              <UploadCard
-                onUpload={handleUpload}
-                previewUrl={previewUrl}
-                onClear={handleClear}
-              />
+              {previewUrl ? (
+                <UploadCard
+                  onUpload={handleUpload}
+                  previewUrl={preview.src}
+                  onClear={handleClear}
+                />
+              ) : (
+                <Tabs defaultValue="draw">
+                  <TabsList className="grid grid-cols-2 mb-4">
+                    <TabsTrigger value="draw">
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Draw Here
+                    </TabsTrigger>
+                    <TabsTrigger value="photo">
+                      <Camera className="w-4 h-4 mr-2" />
+                      Upload a Photo
+                    </TabsTrigger>
+                  </TabsList>
+                  {/* Kept mounted so switching tabs doesn't lose the sketch */}
+                  <TabsContent value="draw" forceMount className="data-[state=inactive]:hidden">
+                    <DrawingCanvas onSubmit={handleUpload} />
+                  </TabsContent>
+                  <TabsContent value="photo">
+                    <UploadCard onUpload={handleUpload} />
+                  </TabsContent>
+                </Tabs>
+              )}
             </div>
           </div>
 
           {/* Navigation */}
           <div className="flex items-center justify-between">
-            <Button variant="ghost" onClick={() => navigate('/3d')}>
+            <Button variant="ghost" onClick={goBack}>
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back
             </Button>
@@ -122,10 +144,10 @@ const UploadPage = () => {
             <Button 
               variant="hero" 
               size="lg"
-              onClick={handleContinue}
+              onClick={goNext}
               disabled={!previewUrl}
             >
-              Continue to Verification
+              {continueLabel}
               <ArrowRight className="w-4 h-4 ml-2" />
             </Button>
           </div>
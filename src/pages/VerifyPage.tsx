@@ -1,46 +1,72 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, ArrowRight, Eye, Loader2 } from 'lucide-react';
+import { AlertCircle, ArrowLeft, ArrowRight, Eye, Loader2, Pencil, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Layout } from '@/components/Layout';
 import { CvResultsPanel } from '@/components/CvResultsPanel';
+import { DrawingAttemptHistory } from '@/components/DrawingAttemptHistory';
 import { useSession } from '@/context/SessionContext';
-import { fetchCvResult } from '@/lib/api';
+import { useLessonPlan } from '@/context/LessonPlanContext';
+import { useTeacherPreview } from '@/context/TeacherPreviewContext';
+import { useWorkflowStep } from '@/context/WorkflowStepContext';
+import { toast } from '@/components/ui/sonner';
+import { fetchCvResult, getApiErrorMessage } from '@/lib/api';
+import { getStepIndex } from '@/lib/workflow';
 
 const VerifyPage = () => {
   const navigate = useNavigate();
-  const { state, setCvResult, setCurrentStep, completeStep } = useSession();
-  const [isLoading, setIsLoading] = useState(!state.cvResult);
+  const { state, setCvResult, restartDrawing } = useSession();
+  const { steps } = useLessonPlan();
+  const { isPreviewing } = useTeacherPreview();
+  const { step, stepNumber, continueLabel, goNext, goBack } = useWorkflowStep();
+  const [isLoading, setIsLoading] = useState(!!state.uploadedImage && !state.cvResult);
+  const [analysisFailed, setAnalysisFailed] = useState(false);
+  // Bumped to analyse the same drawing again after a failure
+  const [analysisRun, setAnalysisRun] = useState(0);
 
-  useEffect(() => {
-    setCurrentStep('verify');
-  }, [setCurrentStep]);
+  const minAccuracy = step.params.minAccuracy;
+  const meetsMinimum = !minAccuracy || (state.cvResult?.accuracy ?? 0) >= minAccuracy;
+  // Teachers previewing the lesson aren't held back by the minimum
+  const canContinue = meetsMinimum || isPreviewing;
+
+  // The drawing step this verification checks: the nearest upload step before it
+  const drawingStep = steps
+    .slice(0, Math.max(getStepIndex(step.id, steps), 0))
+    .reverse()
+    .find((s) => s.kind === 'upload');
 
   useEffect(() => {
-    if (!state.uploadedImage) {
-      navigate('/upload');
-      return;
-    }
+    if (!state.uploadedImage || state.cvResult) return;
+    let cancelled = false;
+    const fetchResults = async () => {
+      setIsLoading(true);
+      setAnalysisFailed(false);
+      try {
+        const result = await fetchCvResult(state.uploadedImage!, state.robotCoordinates);
+        if (!cancelled) setCvResult(result);
+      } catch (error) {
+        console.error('Failed to fetch CV results:', error);
+        if (cancelled) return;
+        setAnalysisFailed(true);
+        toast.error('Could not analyze your drawing', { description: getApiErrorMessage(error) });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    fetchResults();
+    return () => {
+      cancelled = true;
+    };
+  }, [state.uploadedImage, state.cvResult, state.robotCoordinates, setCvResult, analysisRun]);
 
-    if (!state.cvResult) {
-      const fetchResults = async () => {
-        setIsLoading(true);
-        try {
-          const result = await fetchCvResult(state.uploadedImage!);
-          setCvResult(result);
-        } catch (error) {
-          console.error('Failed to fetch CV results:', error);
-        } finally {
-          setIsLoading(false);
-        }
-      };
-      fetchResults();
+  // Throw away this drawing and its result, and go back to draw a new one
+  const handleRedraw = () => {
+    restartDrawing(drawingStep ? [drawingStep.id, step.id] : [step.id]);
+    if (drawingStep) {
+      navigate(drawingStep.path);
+    } else {
+      goBack();
     }
-  }, [state.uploadedImage, state.cvResult, setCvResult, navigate]);
-
-  const handleContinue = () => {
-    completeStep('verify');
-    navigate('/coords');
   };
 
   return (
@@ -51,7 +77,7 @@ const VerifyPage = () => {
           <div className="text-center mb-8">
             <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium mb-4">
               <Eye className="w-4 h-4" />
-              Step 3: CV Verification
+              Step {stepNumber}: {step.title}
             </span>
             <h1 className="font-display text-3xl md:text-4xl font-bold text-foreground mb-3">
               Computer Vision Analysis
@@ -74,33 +100,60 @@ const VerifyPage = () => {
             <CvResultsPanel
               result={state.cvResult}
               imageUrl={state.uploadedImage}
-              className="mb-8"
+              requiredAccuracy={minAccuracy}
+              className="mb-6"
             />
+          ) : analysisFailed && state.uploadedImage ? (
+            <div className="flex flex-col items-center text-center py-16 rounded-xl border border-border bg-card mb-8">
+              <AlertCircle className="w-10 h-10 text-warning mb-3" />
+              <p className="text-lg font-medium text-foreground mb-2">Your drawing could not be analyzed</p>
+              <p className="text-sm text-muted-foreground mb-4">
+                Try the analysis again, or redraw the scene.
+              </p>
+              <Button variant="outline" onClick={() => setAnalysisRun((n) => n + 1)}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Analyze Again
+              </Button>
+            </div>
           ) : (
             <div className="text-center py-20 rounded-xl border border-border bg-card">
               <p className="text-muted-foreground">No image uploaded yet.</p>
-              <Button variant="outline" onClick={() => navigate('/upload')} className="mt-4">
+              <Button variant="outline" onClick={goBack} className="mt-4">
                 Go to Upload
               </Button>
             </div>
           )}
 
+          <DrawingAttemptHistory
+            attempts={state.drawingAttempts}
+            requiredAccuracy={minAccuracy}
+            className="mb-8"
+          />
+
           {/* Navigation */}
-          <div className="flex items-center justify-between">
-            <Button variant="ghost" onClick={() => navigate('/upload')}>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <Button variant="ghost" onClick={goBack}>
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back
             </Button>
-            
-            <Button 
-              variant="hero" 
-              size="lg"
-              onClick={handleContinue}
-              disabled={isLoading}
-            >
-              Accept & Continue
-              <ArrowRight className="w-4 h-4 ml-2" />
-            </Button>
+
+            <div className="flex flex-wrap items-center gap-3">
+              {(state.cvResult || analysisFailed) && (
+                <Button variant="outline" size="lg" onClick={handleRedraw} disabled={isLoading}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Redraw
+                </Button>
+              )}
+              <Button
+                variant="hero"
+                size="lg"
+                onClick={goNext}
+                disabled={isLoading || !canContinue}
+              >
+                {canContinue ? continueLabel : `Reach ${minAccuracy}% to Continue`}
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the backend API, e.g. http://localhost:3001/api */
+  readonly VITE_API_BASE_URL?: string;
+  /** "http" to talk to the backend, "mock" (default) for the in-memory stub */
+  readonly VITE_API_TRANSPORT?: 'http' | 'mock';
+  /** "true" logs every mock API request to the console */
+  readonly VITE_API_DEBUG?: string;
+  /** "fake" replaces the webcam with a generated test pattern */
+  readonly VITE_CAMERA?: 'device' | 'fake';
+  /** Tutor chat source: "api" (default), "openai" for a compatible model server, or "rules" */
+  readonly VITE_TUTOR_PROVIDER?: 'api' | 'openai' | 'rules';
+  /** Base URL of the OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 */
+  readonly VITE_TUTOR_LLM_URL?: string;
+  /** Model name sent to that endpoint */
+  readonly VITE_TUTOR_LLM_MODEL?: string;
+  /** Bearer token for the endpoint, if it needs one */
+  readonly VITE_TUTOR_LLM_API_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}